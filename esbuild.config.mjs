@@ -1,7 +1,9 @@
 import esbuild from "esbuild";
 import process from "process";
+import { createHash } from "node:crypto";
 import { readFile } from "node:fs/promises";
 import { builtinModules as builtins } from "node:module";
+import path from "node:path";
 
 /**
  * RecordRTC bundles a GifRecorder that dynamically injects an external
@@ -25,6 +27,94 @@ const stripRecordRtcGifScript = {
 	},
 };
 
+/**
+ * Bundles `inline-worker:./X` imports as a separate browser build of X and imports the
+ * result as a string, which TransformersLoader starts from a blob URL. This keeps
+ * transformers.js and ONNX Runtime's code inside main.js instead of loading it from a CDN.
+ *
+ * ONNX Runtime is swapped for its CPU-only WASM build. That build expects to fetch its
+ * binary and Emscripten glue next to itself. The glue is embedded as source text, which the
+ * worker hands to the runtime; the binary (over 10 MB) is not, see pinnedFile.
+ */
+const inlineWorker = (prod) => ({
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.slice("inline-worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				platform: "browser",
+				target: "es2020",
+				minify: prod,
+				logLevel: "silent",
+				plugins: [{
+					name: "onnxruntime-wasm-only",
+					setup(workerBuild) {
+						workerBuild.onResolve({ filter: /^onnxruntime-web$/ }, (importArgs) =>
+							workerBuild.resolve("onnxruntime-web/wasm", { kind: importArgs.kind, resolveDir: importArgs.resolveDir }));
+						// Neither file is in the package's exports map.
+						workerBuild.onResolve({ filter: /^onnxruntime-web\/dist\// }, (importArgs) => ({
+							path: path.resolve("node_modules", importArgs.path),
+							namespace: "onnxruntime-file",
+						}));
+						workerBuild.onLoad({ filter: /.*/, namespace: "onnxruntime-file" }, async (fileArgs) => {
+							// The glue works out the binary's URL from its own even when handed
+							// the binary, and a blob: URL can't be resolved against. The bare
+							// name is never fetched.
+							const glue = await readFile(fileArgs.path, "utf8");
+							const wasmUrl = /\(new URL\("ort-wasm-simd-threaded\.wasm",\s*import\.meta\.url\)\)\.href/;
+							if (!wasmUrl.test(glue)) {
+								throw new Error(`${fileArgs.path}: no longer resolves its binary the expected way`);
+							}
+							return { contents: glue.replace(wasmUrl, '"ort-wasm-simd-threaded.wasm"'), loader: "text" };
+						});
+					},
+				}],
+			});
+			return {
+				contents: `export default ${JSON.stringify(result.outputFiles[0].text)};`,
+				loader: "js",
+				watchFiles: Object.keys(result.metafile.inputs)
+					.filter((input) => !input.startsWith("onnxruntime-file:"))
+					.map((input) => path.resolve(input)),
+			};
+		});
+	},
+});
+
+/**
+ * Resolves `pinned-file:<package>/<file>` imports to where the installed version of the file
+ * can be downloaded and its SHA-256, so main.js can fetch it on first use and refuse any
+ * other file. The URL is jsDelivr's mirror of the npm package.
+ */
+const pinnedFile = {
+	name: "pinned-file",
+	setup(build) {
+		build.onResolve({ filter: /^pinned-file:/ }, (args) => ({
+			path: args.path.slice("pinned-file:".length),
+			namespace: "pinned-file",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "pinned-file" }, async (args) => {
+			const [, packageName, file] = /^((?:@[^/]+\/)?[^/]+)\/(.+)$/.exec(args.path);
+			const filePath = path.resolve("node_modules", packageName, file);
+			const { version } = JSON.parse(await readFile(path.resolve("node_modules", packageName, "package.json"), "utf8"));
+			const pinned = {
+				name: path.basename(file),
+				url: `https://cdn.jsdelivr.net/npm/${packageName}@${version}/${file}`,
+				sha256: createHash("sha256").update(await readFile(filePath)).digest("hex"),
+			};
+			return { contents: `export default ${JSON.stringify(pinned)};`, loader: "js", watchFiles: [filePath] };
+		});
+	},
+};
+
 const banner =
 `/*
 THIS IS A GENERATED/BUNDLED FILE BY ESBUILD
@@ -61,7 +151,7 @@ const context = await esbuild.context({
 	sourcemap: prod ? false : "inline",
 	treeShaking: true,
 	outfile: "main.js",
-	plugins: [stripRecordRtcGifScript],
+	plugins: [stripRecordRtcGifScript, inlineWorker(prod), pinnedFile],
 });
 
 if (prod) {
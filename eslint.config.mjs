@@ -33,13 +33,30 @@ export default defineConfig([
 					"AssemblyAI",
 					"Groq",
 					"Deepgram",
+					"Ollama",
+					"Anthropic",
+					"Gemini",
+					"Azure",
+					"ElevenLabs",
 					"Moonshine",
 					"Whisper",
+					"LM Studio",
+					"Hugging Face",
+					// Local Whisper CLIs are spelled in lowercase.
+					"whisper.cpp",
+					"whisper-cli",
+					"faster-whisper",
+					"faster-whisper-xxl",
+					"whisper-ctranslate2",
+					// Language names are proper nouns too.
+					"English",
 				],
-				acronyms: ["API", "AI", "CD", "MB"],
+				acronyms: ["API", "AI", "CD", "MB", "URL", "GPT", "USD"],
 				ignoreRegex: [
 					// API-key format placeholders (e.g. "sk-...", "gsk_...", "sk-or-...").
 					"^(sk|gsk)[-_]",
+					// URL and org/model-id placeholders (e.g. "http://host:8000/v1").
+					"^\\S*/\\S*$",
 					// Strings led by a decorative emoji, which the rule mis-tokenizes
 					// as making the following (correctly capitalized) word non-initial.
 					"^[\\uD800-\\uDBFF]",
@@ -55,4 +72,15 @@ export default defineConfig([
 			"obsidianmd/rule-custom-message": "off",
 		},
 	},
+	{
+		// requestUrl can't stream responses, so streamed completions are read through
+		// fetch in this one module. The recommended restrictions stay, minus fetch.
+		files: ["src/utils/ServerSentEvents.ts"],
+		rules: {
+			"no-restricted-globals": ["warn",
+				{ name: "app", message: "Avoid using the global app object. Instead use the reference provided by your plugin instance." },
+				{ name: "localStorage", message: "Prefer `App#saveLocalStorage` / `App#loadLocalStorage` functions to write / read localStorage data that's unique to a vault." },
+			],
+		},
+	},
 ]);
@@ -1,13 +1,27 @@
-import { requestUrl } from 'obsidian';
-import { NeuroVoxSettings } from '../settings/Settings';
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { NeuroVoxSettings, ReasoningEffort } from '../settings/Settings';
 import {
     ChatCompletionResponse,
+    ChatCompletionChunk,
     TranscriptionResponse,
     DeepgramTranscriptionResponse,
     MoonshineTranscriptionResponse,
     AssemblyAITranscriptionResponse,
-    ModelListResponse
+    ModelListResponse,
+    DeepgramModelsResponse,
+    OllamaChatResponse,
+    OllamaTagsResponse,
+    AnthropicMessagesResponse,
+    GeminiGenerateContentResponse,
+    GeminiModelListResponse,
+    ElevenLabsTranscriptionResponse,
+    TokenUsage,
+    TranscriptResult,
+    UsageRecord
 } from '../types';
+import { toVocabularyPrompt } from '../utils/transcription/Glossary';
+import { openEventStream, readServerSentEvents } from '../utils/ServerSentEvents';
+import type { LiveProtocol } from '../utils/transcription/LiveTranscription';
 
 export enum AIProvider {
     OpenAI = 'openai',
@@ -16,6 +30,44 @@ export enum AIProvider {
     Moonshine = 'moonshine',
     OpenRouter = 'openrouter',
     AssemblyAI = 'assemblyai',
+    Custom = 'custom',
+    Ollama = 'ollama',
+    Anthropic = 'anthropic',
+    Gemini = 'gemini',
+    Azure = 'azure',
+    ElevenLabs = 'elevenlabs',
+    LocalProcess = 'local-process',
+    Echo = 'echo',
+}
+
+/**
+ * What a model accepts and can do. The transcription fields decide how AudioProcessor
+ * prepares audio and which recording options the settings offer; the language fields shape
+ * text generation requests.
+ */
+export interface ModelCapabilities {
+    /** Largest audio file accepted in one request. */
+    maxUploadBytes: number;
+    /** Longest audio accepted in one request, when the provider limits it besides the size. */
+    maxDurationSeconds?: number;
+    /** Accepted audio formats as file extensions (`webm`, `m4a`, ...); unset when any common format goes. */
+    inputFormats?: string[];
+    /** Returns timed segments. */
+    timestamps: boolean;
+    /** Labels speakers when asked to. */
+    diarization: boolean;
+    /** Takes the spoken language instead of detecting it. */
+    languageHint: boolean;
+    /** Favours the glossary's names and terms. */
+    promptBiasing: boolean;
+    /** Translates speech to English itself. */
+    translation: boolean;
+    /** Accepts a sampling temperature. */
+    temperature: boolean;
+    /** Request field that caps the completion's length. */
+    tokenLimitParameter: 'max_tokens' | 'max_completion_tokens';
+    /** The `reasoning_effort` levels accepted, lowest first; empty for models that don't reason. */
+    reasoningEfforts: ReasoningEffort[];
 }
 
 export interface AIModel {
@@ -23,13 +75,149 @@ export interface AIModel {
     name: string;
     category: 'transcription' | 'language';
     maxTokens?: number;
+    /** Where the model differs from its provider's defaults (AIAdapter.getDefaultCapabilities). */
+    capabilities?: Partial<ModelCapabilities>;
+}
+
+// OpenAI suggests leaving about this many tokens for reasoning when capping a reasoning model's output.
+const REASONING_TOKEN_RESERVE = 25000;
+
+// A streamed completion refused with one of these may only object to `stream` or
+// `stream_options` (some OpenAI-compatible servers accept neither), so it's retried unstreamed.
+const STREAM_REJECTED_STATUSES = new Set([400, 422]);
+
+/**
+ * The reasoning effort to send: the requested one when the model takes it, otherwise the
+ * model's lowest. Undefined for models that don't reason.
+ */
+export function pickReasoningEffort(accepted: ReasoningEffort[], requested?: ReasoningEffort): ReasoningEffort | undefined {
+    if (accepted.length === 0) return undefined;
+    return requested && accepted.includes(requested) ? requested : accepted[0];
+}
+
+// The OpenAI-style /audio/transcriptions endpoints take these formats, up to 25MB.
+const OPENAI_AUDIO_FORMATS = ['flac', 'm4a', 'mp3', 'mp4', 'mpeg', 'mpga', 'ogg', 'wav', 'webm'];
+const OPENAI_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export interface TextGenerationOptions {
+    maxTokens?: number;
+    temperature?: number;
+    /** Sent to models that take one; others ignore it. */
+    reasoningEffort?: ReasoningEffort;
+    /**
+     * Streams the completion where the provider can: called with the text so far each time
+     * it grows. Starts over from the first chunk if the call is retried.
+     */
+    onText?: (text: string) => void;
+    /** Stops a streamed completion early; it then resolves with the text so far. */
+    signal?: AbortSignal;
+    /** Optional system instruction, sent however the provider's API expects it. */
+    system?: string;
+}
+
+/**
+ * An error response from a provider API. Keeps the HTTP status so callers can tell a
+ * transient failure (5xx, rate limit) from a request the provider will never accept, and
+ * how long the provider asked us to wait before trying again, when it said.
+ */
+export class APIRequestError extends Error {
+    constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'APIRequestError';
+    }
+}
+
+/** A request that never got a response: offline, DNS, TLS or a dropped connection. */
+export class NetworkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Replaces an error's message, keeping its class and the status and retry delay that retry
+ * and fallback decisions read.
+ */
+export function withErrorMessage(error: unknown, message: string): Error {
+    if (error instanceof APIRequestError) return new APIRequestError(message, error.status, error.retryAfterMs);
+    if (error instanceof NetworkError) return new NetworkError(message);
+    return new Error(message);
+}
+
+/**
+ * How long a rate-limited or unavailable provider asked us to wait, in ms. Reads
+ * `Retry-After` (seconds or an HTTP date) first, then the `x-ratelimit-reset` family, which
+ * providers send as seconds, a Unix timestamp or a Go-style duration such as `1m30.5s`
+ * (OpenAI and Groq). When several reset headers are present the longest wins, since any
+ * exhausted limit blocks the next request.
+ */
+export function parseRetryAfterMs(headers: Record<string, string>, now: number = Date.now()): number | undefined {
+    const lookup = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    const retryAfter = lookup.get('retry-after');
+    if (retryAfter) {
+        return parseDelay(retryAfter, now);
+    }
+
+    const resets = ['x-ratelimit-reset', 'x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+        .map(name => lookup.get(name))
+        .filter((value): value is string => !!value)
+        .map(value => parseDelay(value, now))
+        .filter((delay): delay is number => delay !== undefined);
+    return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+function parseDelay(value: string, now: number): number | undefined {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const seconds = Number(trimmed);
+        // Large values are Unix timestamps rather than a number of seconds to wait.
+        return Math.max(0, seconds > 1e9 ? seconds * 1000 - now : seconds * 1000);
+    }
+
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+    const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+    if (parts.length > 0 && parts.map(part => part[0]).join('') === trimmed) {
+        return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Receives a record of each billable provider call; see AIAdapter.setUsageListener. */
+export type UsageListener = (record: UsageRecord) => void;
+
+/**
+ * Seconds of audio behind a transcript: the provider's reported duration, else the end of the
+ * last timed segment or word. Untimed transcripts without a duration count as zero.
+ */
+export function getAudioSeconds(result: TranscriptResult): number {
+    if (result.duration !== undefined) return result.duration;
+    const lastSegment = result.segments[result.segments.length - 1];
+    const lastWord = result.words?.[result.words.length - 1];
+    return Math.max(lastSegment?.end ?? 0, lastWord?.end ?? 0);
+}
+
+export interface TranscriptionOptions {
+    /** Names and terms to favour, sent to the provider's biasing mechanism where it has one. */
+    vocabulary?: string[];
+    /** Translate the speech to English. Only adapters with a translation endpoint accept it. */
+    translate?: boolean;
+}
+
+/** OpenAI-style chat messages for a single prompt, with the system instruction (if any) first. */
+export function toChatMessages(prompt: string, options?: TextGenerationOptions): Array<{ role: string; content: string }> {
+    const messages = [{ role: "user", content: prompt }];
+    return options?.system ? [{ role: "system", content: options.system }, ...messages] : messages;
 }
 
 export const AIModels: Record<AIProvider, AIModel[]> = {
     [AIProvider.OpenAI]: [
         { id: 'whisper-1', name: 'Whisper', category: 'transcription' },
-        { id: 'gpt-4o-mini-transcribe', name: 'GPT-4o Mini Transcribe', category: 'transcription' },
-        { id: 'gpt-4o-transcribe', name: 'GPT-4o Transcribe', category: 'transcription' },
+        { id: 'gpt-4o-mini-transcribe', name: 'GPT-4o Mini Transcribe', category: 'transcription', capabilities: { maxDurationSeconds: 1500 } },
+        { id: 'gpt-4o-transcribe', name: 'GPT-4o Transcribe', category: 'transcription', capabilities: { maxDurationSeconds: 1500 } },
         { id: 'gpt-4o', name: 'GPT 4o', category: 'language', maxTokens: 16000 },
         { id: 'gpt-4o-mini', name: 'GPT 4o Mini', category: 'language', maxTokens: 16000 },
         { id: 'gpt-5', name: 'GPT 5', category: 'language', maxTokens: 400000 },
@@ -45,8 +233,8 @@ export const AIModels: Record<AIProvider, AIModel[]> = {
         { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick 17B', category: 'language', maxTokens: 8192 },
         { id: 'qwen/qwen3-32b', name: 'Qwen 3 32B', category: 'language', maxTokens: 40960 },
         { id: 'moonshotai/kimi-k2-instruct-0905', name: 'Kimi K2', category: 'language', maxTokens: 16384 },
-        { id: 'openai/gpt-oss-20b', name: 'OpenAI GPT-OSS 20B', category: 'language', maxTokens: 32768 },
-        { id: 'openai/gpt-oss-120b', name: 'OpenAI GPT-OSS 120B', category: 'language', maxTokens: 32768 },
+        { id: 'openai/gpt-oss-20b', name: 'OpenAI GPT-OSS 20B', category: 'language', maxTokens: 32768, capabilities: { reasoningEfforts: ['low', 'medium', 'high'] } },
+        { id: 'openai/gpt-oss-120b', name: 'OpenAI GPT-OSS 120B', category: 'language', maxTokens: 32768, capabilities: { reasoningEfforts: ['low', 'medium', 'high'] } },
     ],
     [AIProvider.Deepgram]: [
         { id: 'nova-3', name: 'Nova-3', category: 'transcription' },
@@ -54,8 +242,10 @@ export const AIModels: Record<AIProvider, AIModel[]> = {
         { id: 'nova-2', name: 'Nova-2', category: 'transcription' },
     ],
     [AIProvider.Moonshine]: [
-        { id: 'moonshine-tiny', name: 'Moonshine Tiny (27M, ~50MB)', category: 'transcription' },
-        { id: 'moonshine-base', name: 'Moonshine Base (62M, ~400MB)', category: 'transcription' },
+        { id: 'moonshine-tiny', name: 'Moonshine Tiny (27M, English, ~30MB)', category: 'transcription', capabilities: { languageHint: false } },
+        { id: 'moonshine-base', name: 'Moonshine Base (62M, English, ~65MB)', category: 'transcription', capabilities: { languageHint: false } },
+        { id: 'whisper-tiny', name: 'Whisper Tiny (39M, multilingual, ~40MB)', category: 'transcription' },
+        { id: 'whisper-base', name: 'Whisper Base (74M, multilingual, ~80MB)', category: 'transcription' },
     ],
     [AIProvider.OpenRouter]: [
         // Fallback list only — replaced at runtime by fetchLanguageModels() (the live /models catalog).
@@ -67,6 +257,44 @@ export const AIModels: Record<AIProvider, AIModel[]> = {
         { id: 'universal-3-pro', name: 'Universal-3 Pro (best accuracy)', category: 'transcription' },
         { id: 'universal-2', name: 'Universal-2', category: 'transcription' },
     ],
+    // User-defined OpenAI-compatible endpoints; models come from settings.customEndpoints
+    // at runtime (see CustomAdapter), so there is no static catalog.
+    [AIProvider.Custom]: [],
+    // Local Ollama server; installed models are listed from /api/tags at runtime.
+    [AIProvider.Ollama]: [],
+    [AIProvider.Anthropic]: [
+        // Fallback list only — replaced at runtime by fetchLanguageModels() (the live /v1/models catalog).
+        // maxTokens is the output limit here: the Messages API rejects larger max_tokens values.
+        { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', category: 'language', maxTokens: 64000 },
+        { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', category: 'language', maxTokens: 64000 },
+        { id: 'claude-opus-4-1', name: 'Claude Opus 4.1', category: 'language', maxTokens: 32000 },
+    ],
+    [AIProvider.Gemini]: [
+        // The same models serve both categories. Language entries come first so getModelInfo()
+        // resolves their output limit; the language list is refreshed from /models at runtime.
+        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', category: 'language', maxTokens: 65536 },
+        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', category: 'language', maxTokens: 65536 },
+        { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash-Lite', category: 'language', maxTokens: 65536 },
+        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', category: 'transcription' },
+        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', category: 'transcription' },
+        { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash-Lite', category: 'transcription' },
+    ],
+    // Azure OpenAI deployments; listed from settings.azureDeployments at runtime (see AzureAdapter).
+    [AIProvider.Azure]: [],
+    [AIProvider.ElevenLabs]: [
+        { id: 'scribe_v1', name: 'Scribe v1', category: 'transcription' },
+    ],
+    // A Whisper binary on this computer. The id says how to call it; the binary and its
+    // model come from settings (see LocalProcessAdapter).
+    [AIProvider.LocalProcess]: [
+        { id: 'whisper-cpp', name: 'whisper.cpp (local binary)', category: 'transcription' },
+        { id: 'faster-whisper', name: 'faster-whisper (local binary)', category: 'transcription' },
+    ],
+    // Answers from fixture files, for trying flows out offline (see EchoAdapter).
+    [AIProvider.Echo]: [
+        { id: 'echo-transcribe', name: 'Echo transcription', category: 'transcription' },
+        { id: 'echo-complete', name: 'Echo completion', category: 'language', maxTokens: 100000 },
+    ],
 };
 
 /**
@@ -80,6 +308,42 @@ export function getDynamicModels(provider: AIProvider): AIModel[] | undefined {
     return dynamicModels[provider];
 }
 
+/** Drops a provider's cached catalog, e.g. after its server URL changed. */
+export function clearDynamicModels(provider: AIProvider): void {
+    delete dynamicModels[provider];
+    delete transcriptionCatalogs[provider];
+}
+
+// A fetched transcription catalog is trusted this long before the picker fetches it again.
+const TRANSCRIPTION_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runtime cache of transcription models discovered from provider catalogs, keyed by
+ * provider. Populated by AIAdapter.fetchTranscriptionModels(); getAvailableModels() serves
+ * it in place of the static list.
+ */
+const transcriptionCatalogs: Partial<Record<AIProvider, { models: AIModel[]; fetchedAt: number }>> = {};
+
+/**
+ * Which provider offers a transcription model: the static catalog first, then the
+ * discovered ones. Null for ids neither lists (custom endpoints, Azure deployments).
+ */
+export function getTranscriptionModelProvider(modelId: string): AIProvider | null {
+    // Language models can share an id with another provider's transcription model.
+    const isMatch = (model: AIModel) => model.id === modelId && model.category === 'transcription';
+    for (const [provider, models] of Object.entries(AIModels)) {
+        if (models.some(isMatch)) {
+            return provider as AIProvider;
+        }
+    }
+    for (const [provider, catalog] of Object.entries(transcriptionCatalogs)) {
+        if (catalog?.models.some(isMatch)) {
+            return provider as AIProvider;
+        }
+    }
+    return null;
+}
+
 export function getModelInfo(modelId: string): AIModel | undefined {
     let dynamic: AIModel | undefined;
     for (const models of Object.values(dynamicModels)) {
@@ -105,6 +369,7 @@ export abstract class AIAdapter {
     public models: AIModel[];
     private keyValidated: boolean = false;
     private lastValidatedKey: string = '';
+    protected usageListener: UsageListener | null = null;
 
     protected constructor(
         protected settings: NeuroVoxSettings,
@@ -117,17 +382,32 @@ export abstract class AIAdapter {
     public abstract getApiKey(): string;
     protected abstract setApiKeyInternal(key: string): void;
     protected abstract getApiBaseUrl(): string;
-    protected abstract getTextGenerationEndpoint(): string;
-    protected abstract getTranscriptionEndpoint(): string;
+    protected abstract getTextGenerationEndpoint(model: string): string;
+    protected abstract getTranscriptionEndpoint(model: string): string;
+    /**
+     * Checks the key, and whatever else the connection needs, against a free authenticated
+     * endpoint. Resolves false when the answer doesn't look right; HTTP and network failures
+     * are thrown so that "Test connection" can show them.
+     */
     protected abstract validateApiKeyImpl(): Promise<boolean>;
-    protected abstract parseTextGenerationResponse(response: ChatCompletionResponse): string;
-    protected abstract parseTranscriptionResponse(
-        response: TranscriptionResponse | DeepgramTranscriptionResponse | MoonshineTranscriptionResponse | AssemblyAITranscriptionResponse | string
+    protected abstract parseTextGenerationResponse(
+        response: ChatCompletionResponse | OllamaChatResponse | AnthropicMessagesResponse | GeminiGenerateContentResponse
     ): string;
+    protected abstract parseTranscriptionResponse(
+        response:
+            | TranscriptionResponse
+            | DeepgramTranscriptionResponse
+            | MoonshineTranscriptionResponse
+            | AssemblyAITranscriptionResponse
+            | GeminiGenerateContentResponse
+            | ElevenLabsTranscriptionResponse
+            | string
+    ): TranscriptResult;
 
     /**
-     * Endpoint (relative to the API base URL) that returns the provider's model catalog in
-     * the OpenAI-compatible `{ data: [...] }` shape. Return null for providers without one.
+     * Endpoint (relative to the API base URL) that returns the provider's model catalog,
+     * usually in the OpenAI-compatible `{ data: [...] }` shape (providers with their own
+     * shape override parseModelList). Return null for providers without one.
      */
     protected getModelListEndpoint(): string | null {
         return null;
@@ -148,12 +428,12 @@ export abstract class AIAdapter {
         }
 
         const endpoint = this.getModelListEndpoint();
-        if (!endpoint || !this.getApiKey()) {
+        if (!endpoint || !this.isConfigured()) {
             return staticLanguage;
         }
 
         try {
-            const response = await this.makeAPIRequest<ModelListResponse>(
+            const response = await this.makeAPIRequest<ModelListResponse | OllamaTagsResponse | GeminiModelListResponse>(
                 `${this.getApiBaseUrl()}${endpoint}`,
                 'GET',
                 {},
@@ -170,12 +450,83 @@ export abstract class AIAdapter {
         return staticLanguage;
     }
 
+    /**
+     * Endpoint (relative to the API base URL) listing the provider's speech-to-text models,
+     * or null when it has none and the static list is all there is.
+     */
+    protected getTranscriptionModelListEndpoint(): string | null {
+        return null;
+    }
+
+    /** Whether the transcription catalog should be fetched: there is one, and it's missing or expired. */
+    public isTranscriptionCatalogStale(): boolean {
+        if (!this.getTranscriptionModelListEndpoint()) {
+            return false;
+        }
+        const cached = transcriptionCatalogs[this.provider];
+        return !cached || Date.now() - cached.fetchedAt > TRANSCRIPTION_CATALOG_TTL_MS;
+    }
+
+    /**
+     * Fetches the provider's transcription models and caches them for a day. The static
+     * entries stay first, with their names, so a saved choice never disappears; models they
+     * don't cover follow. Falls back to the last catalog, or the static list, on any failure.
+     */
+    public async fetchTranscriptionModels(force: boolean = false): Promise<AIModel[]> {
+        const staticModels = this.models.filter(m => m.category === 'transcription');
+        const cached = transcriptionCatalogs[this.provider];
+        if (cached && !force && !this.isTranscriptionCatalogStale()) {
+            return cached.models;
+        }
+
+        const endpoint = this.getTranscriptionModelListEndpoint();
+        if (!endpoint || !this.isConfigured()) {
+            return staticModels;
+        }
+
+        try {
+            const response = await this.makeAPIRequest<ModelListResponse | DeepgramModelsResponse>(
+                `${this.getApiBaseUrl()}${endpoint}`,
+                'GET',
+                {},
+                null
+            );
+            const discovered = this.parseTranscriptionModelList(response)
+                // Ids another provider's static catalog claims would resolve to that provider.
+                .filter(model => [null, this.provider].includes(getTranscriptionModelProvider(model.id)));
+            if (discovered.length > 0) {
+                const models = [
+                    ...staticModels,
+                    ...discovered.filter(model => !staticModels.some(entry => entry.id === model.id))
+                ];
+                transcriptionCatalogs[this.provider] = { models, fetchedAt: Date.now() };
+                return models;
+            }
+        } catch {
+            // Fall through to the last catalog or the static list on network / parse errors.
+        }
+        return cached?.models ?? staticModels;
+    }
+
+    /**
+     * Picks the speech-to-text models out of an OpenAI-compatible model list. The list has
+     * no capability field, so they're recognised by name: Whisper and the gpt-4o transcribe
+     * models, but not text-to-speech or realtime audio chat models.
+     */
+    protected parseTranscriptionModelList(response: ModelListResponse | DeepgramModelsResponse): AIModel[] {
+        if (!response || !('data' in response) || !response.data) return [];
+        return response.data
+            .filter(m => /whisper|transcribe/i.test(m.id) && !/tts|realtime|audio-preview/i.test(m.id))
+            .map(m => ({ id: m.id, name: m.id, category: 'transcription' as const }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
     /**
      * Maps an OpenAI-compatible model list into language AIModels. Providers with richer
      * metadata (e.g. OpenRouter) may override this to filter by modality / context length.
      */
-    protected parseModelList(response: ModelListResponse): AIModel[] {
-        if (!response?.data) return [];
+    protected parseModelList(response: ModelListResponse | OllamaTagsResponse | GeminiModelListResponse): AIModel[] {
+        if (!response || !('data' in response) || !response.data) return [];
         return response.data
             .map(m => ({ id: m.id, name: m.id, category: 'language' as const }))
             .sort((a, b) => a.name.localeCompare(b.name));
@@ -190,28 +541,184 @@ export abstract class AIAdapter {
         this.setApiKeyInternal(key);
     }
 
-    public async generateResponse(prompt: string, model: string, options?: { maxTokens?: number, temperature?: number }): Promise<string> {
+    public async generateResponse(prompt: string, model: string, options?: TextGenerationOptions): Promise<string> {
         try {
-            const endpoint = `${this.getApiBaseUrl()}${this.getTextGenerationEndpoint()}`;
-            const body = {
-                model,
-                messages: [{ role: "user", content: prompt }],
-                max_tokens: options?.maxTokens || 1000,
-                temperature: options?.temperature || 0.7,
-            };
-            const response = await this.makeAPIRequest<ChatCompletionResponse>(
+            const endpoint = `${this.getApiBaseUrl()}${this.getTextGenerationEndpoint(model)}`;
+            const body = this.buildTextGenerationBody(prompt, model, options);
+            if (options?.onText && this.supportsTextStreaming()) {
+                const streamed = await this.streamTextGeneration(endpoint, body, model, options.onText, options.signal);
+                if (streamed !== null) {
+                    return streamed;
+                }
+            }
+            if (options?.signal?.aborted) {
+                throw new Error('Generation aborted');
+            }
+            const response = await this.makeAPIRequest<
+                ChatCompletionResponse | OllamaChatResponse | AnthropicMessagesResponse | GeminiGenerateContentResponse
+            >(
                 endpoint,
                 'POST',
                 { 'Content-Type': 'application/json' },
                 JSON.stringify(body)
             );
-            return this.parseTextGenerationResponse(response);
+            const text = this.parseTextGenerationResponse(response);
+            this.reportUsage(model, this.parseTokenUsage(response));
+            return text;
         } catch (error) {
-            const message = this.getErrorMessage(error);
-            throw new Error(`Failed to generate response: ${message}`);
+            throw this.wrapError('Failed to generate response', error);
         }
     }
 
+    /**
+     * Whether generateResponse can stream the completion as OpenAI-style server-sent events.
+     * Providers with a native API (Anthropic, Gemini, Ollama) stream differently and opt out.
+     */
+    protected supportsTextStreaming(): boolean {
+        return true;
+    }
+
+    /**
+     * Streams a chat completion with `stream: true`, handing the text so far to onText as it
+     * grows. requestUrl can't stream, so this goes through openEventStream. Returns null when
+     * the stream can't be opened from here (offline, or an endpoint that doesn't allow
+     * cross-origin requests) or the endpoint refuses the streaming request; the caller then
+     * makes a regular request. Aborting keeps the text so far.
+     */
+    private async streamTextGeneration(
+        endpoint: string,
+        body: Record<string, unknown>,
+        model: string,
+        onText: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        let response: Response;
+        try {
+            response = await openEventStream(endpoint, {
+                method: 'POST',
+                headers: { ...this.getAuthHeaders(), 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+                body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } }),
+                signal
+            });
+        } catch {
+            if (signal?.aborted) {
+                throw new Error('Generation aborted');
+            }
+            return null;
+        }
+
+        if (STREAM_REJECTED_STATUSES.has(response.status)) {
+            await response.body?.cancel().catch(() => undefined);
+            return null;
+        }
+        if (!response.ok || !response.body) {
+            const text = await response.text().catch(() => '');
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, name) => { headers[name] = value; });
+            const detail = this.extractErrorDetail({ text, get json(): unknown { return JSON.parse(text) as unknown; } });
+            throw new APIRequestError(
+                `HTTP ${response.status}: ${detail || 'no error detail in response'}`,
+                response.status,
+                parseRetryAfterMs(headers)
+            );
+        }
+
+        let text = '';
+        let usage: ChatCompletionChunk['usage'];
+        try {
+            await readServerSentEvents(response.body, data => {
+                if (data === '[DONE]') return;
+                const chunk = JSON.parse(data) as ChatCompletionChunk;
+                if (chunk.error) {
+                    throw new Error(chunk.error.message || 'The stream ended with an error');
+                }
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+                usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+            });
+        } catch (error) {
+            if (!signal?.aborted) {
+                if (error instanceof SyntaxError) {
+                    throw new Error(`Unreadable stream from ${this.provider}`);
+                }
+                // fetch reports a dropped connection as a TypeError.
+                throw error instanceof TypeError ? new NetworkError(this.getErrorMessage(error)) : error;
+            }
+            if (!text) {
+                throw new Error('Generation aborted');
+            }
+        }
+
+        if (!text) {
+            throw new Error(`Empty response from ${this.provider}`);
+        }
+        this.reportUsage(model, { promptTokens: usage?.prompt_tokens, completionTokens: usage?.completion_tokens });
+        return text;
+    }
+
+    /**
+     * Token counts from a generation response. Defaults to the OpenAI `usage` block;
+     * providers with their own shape (Anthropic, Gemini, Ollama) override it.
+     */
+    protected parseTokenUsage(
+        response: ChatCompletionResponse | OllamaChatResponse | AnthropicMessagesResponse | GeminiGenerateContentResponse
+    ): TokenUsage {
+        const usage = (response as ChatCompletionResponse)?.usage;
+        return { promptTokens: usage?.prompt_tokens, completionTokens: usage?.completion_tokens };
+    }
+
+    /**
+     * Sets who hears about each successful billable call. Local providers (Moonshine) never
+     * report; a failed call reports nothing, as providers don't bill for those.
+     */
+    public setUsageListener(listener: UsageListener | null): void {
+        this.usageListener = listener;
+    }
+
+    protected reportUsage(model: string, usage: { audioSeconds?: number } & TokenUsage): void {
+        this.usageListener?.({ date: new Date().toISOString(), provider: this.provider, model: this.getBilledModel(model), ...usage });
+    }
+
+    /**
+     * The model a call is billed as, which is what the price table lists. The model itself,
+     * except where the id only names a route to one (Azure deployments).
+     */
+    public getBilledModel(model: string): string {
+        return model;
+    }
+
+    /**
+     * Request body for a single-prompt generation call. Defaults to the OpenAI chat
+     * completions shape, fitted to the model: reasoning models get `max_completion_tokens`
+     * with room to think, a `reasoning_effort`, and no temperature when they only run at
+     * the default. Providers with a native API (Ollama) override it.
+     */
+    protected buildTextGenerationBody(
+        prompt: string,
+        model: string,
+        options?: TextGenerationOptions
+    ): Record<string, unknown> {
+        const capabilities = this.getCapabilities(model, 'language');
+        const effort = pickReasoningEffort(capabilities.reasoningEfforts, options?.reasoningEffort);
+        const maxTokens = options?.maxTokens || 1000;
+        // Hidden reasoning counts against the limit too; without room for it the answer comes
+        // back empty. The model's own limit still caps it, or the request is rejected.
+        const tokenLimit = Math.min(
+            effort ? maxTokens + REASONING_TOKEN_RESERVE : maxTokens,
+            getModelInfo(model)?.maxTokens ?? Infinity
+        );
+        return {
+            model,
+            messages: toChatMessages(prompt, options),
+            [capabilities.tokenLimitParameter]: tokenLimit,
+            ...(capabilities.temperature ? { temperature: options?.temperature ?? 0.7 } : {}),
+            ...(effort ? { reasoning_effort: effort } : {}),
+        };
+    }
+
     /**
      * Upper bound on how long one transcription call may legitimately take. The streaming
      * drain derives its stall timeout from this, so providers with long-running flows
@@ -222,11 +729,54 @@ export abstract class AIAdapter {
         return 120_000;
     }
 
-    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, model: string, signal?: AbortSignal): Promise<string> {
+    /**
+     * What the provider's models can do unless their catalog entry says otherwise. Defaults
+     * describe the OpenAI-style endpoints: 25MB uploads, the glossary as `prompt`, and
+     * timestamps where `verbose_json` is available.
+     */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            maxUploadBytes: OPENAI_MAX_UPLOAD_BYTES,
+            inputFormats: OPENAI_AUDIO_FORMATS,
+            timestamps: this.supportsVerboseTranscription(model),
+            diarization: false,
+            languageHint: true,
+            promptBiasing: true,
+            translation: this.getTranslationEndpoint(model) !== null,
+            temperature: true,
+            tokenLimitParameter: 'max_tokens',
+            reasoningEfforts: []
+        };
+    }
+
+    /** The provider's defaults with the model's own catalog entry applied on top. */
+    public getCapabilities(model: string, category: 'transcription' | 'language' = 'transcription'): ModelCapabilities {
+        const entry = this.models.find(m => m.id === model && m.category === category);
+        return { ...this.getDefaultCapabilities(model), ...entry?.capabilities };
+    }
+
+    /**
+     * How to stream audio to the provider's real-time API for live transcription, or null
+     * when it has none. Providers with one (Deepgram, AssemblyAI) override this.
+     */
+    public async createLiveProtocol(_model: string): Promise<LiveProtocol | null> {
+        return null;
+    }
+
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
         try {
             this.throwIfAborted(signal);
-            const { headers, body } = await this.prepareTranscriptionRequest(audioArrayBuffer, model);
-            const endpoint = `${this.getApiBaseUrl()}${this.getTranscriptionEndpoint()}`;
+            const translationEndpoint = options?.translate ? this.getTranslationEndpoint(model) : null;
+            if (options?.translate && !translationEndpoint) {
+                throw new Error(`${this.provider} cannot translate with ${model}`);
+            }
+            const { headers, body } = await this.prepareTranscriptionRequest(audioArrayBuffer, model, options);
+            const endpoint = `${this.getApiBaseUrl()}${translationEndpoint ?? this.getTranscriptionEndpoint(model)}`;
 
             const response = await this.makeAPIRequest<TranscriptionResponse>(
                 endpoint,
@@ -234,48 +784,88 @@ export abstract class AIAdapter {
                 headers,
                 body
             );
-            return this.parseTranscriptionResponse(response);
+            const result = this.parseTranscriptionResponse(response);
+            this.reportUsage(model, { audioSeconds: getAudioSeconds(result) });
+            return result;
         } catch (error) {
-            const message = this.getErrorMessage(error);
-            throw new Error(`Failed to transcribe audio: ${message}`);
+            throw this.wrapError('Failed to transcribe audio', error);
         }
     }
 
     public async validateApiKey(): Promise<boolean> {
-        try {
-            const currentKey = this.getApiKey();
-            
-            if (!currentKey) {
-                this.keyValidated = false;
-                this.lastValidatedKey = '';
-                return false;
-            }
-
-            // Return cached validation if key hasn't changed
-            if (this.keyValidated && this.lastValidatedKey === currentKey) {
-                return true;
-            }
-
-            // Otherwise validate the key
-            const isValid = await this.validateApiKeyImpl();
-            if (isValid) {
-                this.keyValidated = true;
-                this.lastValidatedKey = currentKey;
-            } else {
-                this.keyValidated = false;
-                this.lastValidatedKey = '';
-            }
+        const currentKey = this.getApiKey();
 
-            return isValid;
-        } catch {
+        if (!currentKey) {
             this.keyValidated = false;
             this.lastValidatedKey = '';
             return false;
         }
+
+        // Return cached validation if key hasn't changed
+        if (this.keyValidated && this.lastValidatedKey === currentKey) {
+            return true;
+        }
+
+        return (await this.testConnection()) === null;
+    }
+
+    /**
+     * Validates the key on first use rather than at startup, then trusts it until it changes.
+     * Failures aren't cached, so the next use checks again once the network is back.
+     * Providers that need no key are left to isReady().
+     */
+    public async ensureValidated(): Promise<boolean> {
+        return !this.requiresApiKey() || this.validateApiKey();
+    }
+
+    /**
+     * Checks the connection now, bypassing the cache. Resolves null when it works, or the
+     * reason it doesn't, with the HTTP status and the provider's own error message.
+     */
+    public async testConnection(): Promise<string | null> {
+        const currentKey = this.getApiKey();
+        let failure: string;
+        if (this.requiresApiKey() && !currentKey) {
+            failure = 'API key is not set';
+        } else if (!this.isConfigured()) {
+            failure = 'Connection settings are incomplete';
+        } else {
+            try {
+                if (await this.validateApiKeyImpl()) {
+                    this.keyValidated = true;
+                    this.lastValidatedKey = currentKey;
+                    return null;
+                }
+                failure = 'Unexpected response from the provider';
+            } catch (error) {
+                failure = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        this.keyValidated = false;
+        this.lastValidatedKey = '';
+        return failure;
     }
 
     public getAvailableModels(category: 'transcription' | 'language'): AIModel[] {
-        return this.models.filter(model => model.category === category);
+        const discovered = category === 'transcription' ? transcriptionCatalogs[this.provider]?.models : undefined;
+        return discovered ?? this.models.filter(model => model.category === category);
+    }
+
+    /**
+     * Whether calls to this provider need an API key. Local and self-hosted providers
+     * override this so the "API key not set" guards don't block them.
+     */
+    public requiresApiKey(): boolean {
+        return true;
+    }
+
+    /**
+     * Whether the provider has what it needs to be offered in the model pickers: a key for
+     * hosted providers, provider-specific configuration (endpoints, models) for the rest.
+     */
+    public isConfigured(): boolean {
+        return !this.requiresApiKey() || !!this.getApiKey();
     }
 
     public isReady(category: 'transcription' | 'language' = 'transcription'): boolean {
@@ -284,6 +874,14 @@ export abstract class AIAdapter {
         return this.keyValidated && this.lastValidatedKey === currentKey;
     }
 
+    /**
+     * Configured transcription language as an ISO 639-1 code (`en`, `de`), or undefined to
+     * let the provider auto-detect. Each adapter sends it in its own API's dialect.
+     */
+    protected getTranscriptionLanguage(): string | undefined {
+        return this.settings.transcriptionLanguage.trim().toLowerCase() || undefined;
+    }
+
     /**
      * Auth headers for this provider. Most APIs take `Bearer <key>`; providers with a
      * different scheme (Deepgram's `Token <key>`, AssemblyAI's bare key) override this
@@ -314,16 +912,26 @@ export abstract class AIAdapter {
         // throw:false so error responses can be read: with throw:true, requestUrl throws a
         // bare "status 4xx" error and the provider's body — which says exactly what was
         // wrong with the request — is discarded.
-        const response = await requestUrl({
-            url: endpoint,
-            method,
-            headers: requestHeaders,
-            body: body || undefined,
-            throw: false
-        });
+        let response: RequestUrlResponse;
+        try {
+            response = await requestUrl({
+                url: endpoint,
+                method,
+                headers: requestHeaders,
+                body: body || undefined,
+                throw: false
+            });
+        } catch (error) {
+            // With throw:false, requestUrl only rejects when there is no response at all.
+            throw new NetworkError(this.getErrorMessage(error));
+        }
 
         if (response.status >= 400) {
-            throw new Error(`HTTP ${response.status}: ${this.extractErrorDetail(response) || 'no error detail in response'}`);
+            throw new APIRequestError(
+                `HTTP ${response.status}: ${this.extractErrorDetail(response) || 'no error detail in response'}`,
+                response.status,
+                parseRetryAfterMs(response.headers)
+            );
         }
 
         if (!response.json) {
@@ -353,10 +961,71 @@ export abstract class AIAdapter {
         }
     }
 
-    protected async prepareTranscriptionRequest(audioArrayBuffer: ArrayBuffer, model: string): Promise<{
+    protected async prepareTranscriptionRequest(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        options?: TranscriptionOptions
+    ): Promise<{
         headers: Record<string, string>;
         body: ArrayBuffer;
     }> {
+        const fields: Record<string, string> = { model };
+        // Translations are always into English and take neither a source language nor
+        // timestamp granularities.
+        const language = this.getTranscriptionLanguage();
+        if (language && !options?.translate) {
+            fields['language'] = language;
+        }
+        if (options?.vocabulary?.length) {
+            fields['prompt'] = toVocabularyPrompt(options.vocabulary);
+        }
+        if (this.supportsVerboseTranscription(model)) {
+            fields['response_format'] = 'verbose_json';
+            if (!options?.translate) {
+                fields['timestamp_granularities[]'] = 'segment';
+            }
+        }
+        return this.buildMultipartRequest(audioArrayBuffer, fields);
+    }
+
+    /**
+     * Endpoint that translates speech to English (OpenAI's `/audio/translations`), or null
+     * when the model has none; callers then translate the transcript with a language model.
+     */
+    protected getTranslationEndpoint(_model: string): string | null {
+        return null;
+    }
+
+    /**
+     * Whether the model accepts `response_format=verbose_json`, which adds the detected
+     * language and timed segments to the OpenAI-style response. Only Whisper models do.
+     */
+    protected supportsVerboseTranscription(_model: string): boolean {
+        return false;
+    }
+
+    /** Maps an OpenAI-style transcription response (`json` or `verbose_json`) to a TranscriptResult. */
+    protected parseOpenAITranscription(response: TranscriptionResponse, source: string): TranscriptResult {
+        if (typeof response?.text !== 'string') {
+            throw new Error(`Invalid transcription response format from ${source}`);
+        }
+        const segments = (response.segments ?? []).map(segment => ({
+            start: segment.start,
+            end: segment.end,
+            text: segment.text.trim()
+        }));
+        return { text: response.text, segments, language: response.language, duration: response.duration };
+    }
+
+    /**
+     * Encodes the audio as the `file` part of a multipart/form-data body, followed by one text
+     * part per field. Providers with different field names (ElevenLabs' `model_id`) or extra
+     * options build their request through this instead of re-implementing the encoding.
+     */
+    protected buildMultipartRequest(audioArrayBuffer: ArrayBuffer, fields: Record<string, string>): {
+        headers: Record<string, string>;
+        body: ArrayBuffer;
+    } {
         // Simple boundary without special characters
         const boundary = 'boundary';
         const encoder = new TextEncoder();
@@ -369,11 +1038,13 @@ export abstract class AIAdapter {
         parts.push(new Uint8Array(audioArrayBuffer));
         parts.push(encoder.encode('\r\n'));
         
-        // Model part (just the model name)
-        parts.push(encoder.encode(`--${boundary}\r\n`));
-        parts.push(encoder.encode('Content-Disposition: form-data; name="model"\r\n\r\n'));
-        parts.push(encoder.encode(model));
-        parts.push(encoder.encode('\r\n'));
+        // Text fields (model name, options)
+        for (const [name, value] of Object.entries(fields)) {
+            parts.push(encoder.encode(`--${boundary}\r\n`));
+            parts.push(encoder.encode(`Content-Disposition: form-data; name="${name}"\r\n\r\n`));
+            parts.push(encoder.encode(value));
+            parts.push(encoder.encode('\r\n'));
+        }
         
         // Final boundary
         parts.push(encoder.encode(`--${boundary}--\r\n`));
@@ -396,6 +1067,11 @@ export abstract class AIAdapter {
         };
     }
 
+    /** Adds context to an error message, keeping what retry and fallback decisions read. */
+    protected wrapError(context: string, error: unknown): Error {
+        return withErrorMessage(error, `${context}: ${this.getErrorMessage(error)}`);
+    }
+
     protected getErrorMessage(error: unknown): string {
         if (error instanceof Error) return error.message;
         if (typeof error === 'string') return error;
@@ -0,0 +1,611 @@
+// src/adapters/AdapterContract.test.ts
+//
+// Contract tests for the HTTP adapters, run against a fake server behind the stub's
+// requestUrl (test/fake-server.ts). Every adapter must:
+//  - send its key in the provider's auth scheme on every request;
+//  - surface the provider's own error detail and status, and the Retry-After delay;
+//  - send nothing once the call is aborted.
+// Then per-provider request shapes: OpenAI-style multipart bodies, Deepgram's raw upload
+// and query string, Azure deployments taking after their model, Gemini's inline audio and
+// thinking budget, AssemblyAI's upload/create/poll flow (and abort between polls),
+// OpenRouter's chat completions body, streamed completions (through a stand-in fetch), the
+// transcription model catalogs, and what the catalog says models can do.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIAdapter, AIProvider, APIRequestError, clearDynamicModels, getTranscriptionModelProvider } from './AIAdapter';
+import { AssemblyAIAdapter } from './AssemblyAIAdapter';
+import { AzureAdapter } from './AzureAdapter';
+import { DeepgramAdapter } from './DeepgramAdapter';
+import { GeminiAdapter } from './GeminiAdapter';
+import { GroqAdapter } from './GroqAdapter';
+import { OpenAIAdapter } from './OpenAIAdapter';
+import { OpenRouterAdapter } from './OpenRouterAdapter';
+import { DEFAULT_SETTINGS, NeuroVoxSettings } from '../settings/Settings';
+import type { UsageRecord } from '../types';
+import { FakeResponse, FakeServer, parseMultipart } from '../../test/fake-server';
+
+// Printable bytes, so multipart bodies can be compared as text.
+const AUDIO = new TextEncoder().encode('RIFF-fake-wav-bytes').buffer;
+
+const openAITranscript = {
+    text: 'Hello world.',
+    language: 'english',
+    duration: 1.5,
+    segments: [{ start: 0, end: 1.5, text: ' Hello world.' }]
+};
+
+interface ContractCase {
+    name: string;
+    make(settings: NeuroVoxSettings): AIAdapter;
+    /** Expected auth header for the key 'test-key'. */
+    authorization: string;
+    /** Routes a successful call needs; the first is the one errors are served from. */
+    routes: Array<[method: string, url: RegExp, response: FakeResponse]>;
+    call(adapter: AIAdapter, signal?: AbortSignal): Promise<unknown>;
+    /** Error body in the provider's own format, and the detail it carries. */
+    errorBody: unknown;
+    errorDetail: RegExp;
+    abortable: boolean;
+}
+
+const CASES: ContractCase[] = [
+    {
+        name: 'OpenAI',
+        make: settings => new OpenAIAdapter(settings),
+        authorization: 'Bearer test-key',
+        routes: [['POST', /^https:\/\/api\.openai\.com\/v1\/audio\/transcriptions$/, { json: openAITranscript }]],
+        call: (adapter, signal) => adapter.transcribeAudio(AUDIO, 'whisper-1', signal),
+        errorBody: { error: { message: 'Invalid file format.', type: 'invalid_request_error' } },
+        errorDetail: /HTTP 400: Invalid file format\./,
+        abortable: true
+    },
+    {
+        name: 'Groq',
+        make: settings => new GroqAdapter(settings),
+        authorization: 'Bearer test-key',
+        routes: [['POST', /^https:\/\/api\.groq\.com\/openai\/v1\/audio\/transcriptions$/, { json: openAITranscript }]],
+        call: (adapter, signal) => adapter.transcribeAudio(AUDIO, 'whisper-large-v3-turbo', signal),
+        errorBody: { error: { message: 'model_decommissioned' } },
+        errorDetail: /HTTP 400: model_decommissioned/,
+        abortable: true
+    },
+    {
+        name: 'Deepgram',
+        make: settings => new DeepgramAdapter(settings),
+        authorization: 'Token test-key',
+        routes: [['POST', /^https:\/\/api\.deepgram\.com\/v1\/listen\?/, {
+            json: {
+                metadata: { duration: 1.5 },
+                results: { channels: [{ alternatives: [{ transcript: 'Hello world.', confidence: 0.9, words: [] }] }] }
+            }
+        }]],
+        call: (adapter, signal) => adapter.transcribeAudio(AUDIO, 'nova-3', signal),
+        errorBody: { err_code: 'Bad Request', err_msg: 'Unsupported audio format' },
+        errorDetail: /HTTP 400: .*Unsupported audio format/,
+        abortable: true
+    },
+    {
+        name: 'AssemblyAI',
+        make: settings => withoutPollDelay(new AssemblyAIAdapter(settings)),
+        authorization: 'test-key',
+        routes: [
+            ['POST', /\/v2\/upload$/, { json: { upload_url: 'https://cdn.assemblyai.com/upload/abc' } }],
+            ['POST', /\/v2\/transcript$/, { json: { id: 'job-1', status: 'queued' } }],
+            ['GET', /\/v2\/transcript\/job-1$/, { json: { id: 'job-1', status: 'completed', text: 'Hello world.', audio_duration: 1.5 } }]
+        ],
+        call: (adapter, signal) => adapter.transcribeAudio(AUDIO, 'universal-3-pro', signal),
+        errorBody: { error: 'Authentication error, API token missing/invalid' },
+        errorDetail: /HTTP 400: Authentication error/,
+        abortable: true
+    },
+    {
+        name: 'OpenRouter',
+        make: settings => new OpenRouterAdapter(settings),
+        authorization: 'Bearer test-key',
+        routes: [['POST', /^https:\/\/openrouter\.ai\/api\/v1\/chat\/completions$/, {
+            json: { choices: [{ message: { content: 'A summary.' } }], usage: { prompt_tokens: 10, completion_tokens: 3 } }
+        }]],
+        call: adapter => adapter.generateResponse('Summarize this', 'openai/gpt-5-mini'),
+        errorBody: { error: { message: 'No endpoints found for this model', code: 404 } },
+        errorDetail: /HTTP 400: No endpoints found/,
+        abortable: false
+    }
+];
+
+/** AssemblyAI waits two seconds between polls; tests don't. */
+function withoutPollDelay(adapter: AssemblyAIAdapter, onPoll: () => void = () => {}): AssemblyAIAdapter {
+    (adapter as unknown as { sleep: () => Promise<void> }).sleep = () => {
+        onPoll();
+        return Promise.resolve();
+    };
+    return adapter;
+}
+
+function makeAdapter<T extends AIAdapter>(make: (settings: NeuroVoxSettings) => T, overrides: Partial<NeuroVoxSettings> = {}): T {
+    const adapter = make({ ...DEFAULT_SETTINGS, ...overrides });
+    adapter.setApiKey('test-key');
+    return adapter;
+}
+
+let server: FakeServer;
+
+/** A test with a fresh fake server answering requestUrl while it runs. */
+function itServes(name: string, run: () => Promise<void>): void {
+    it(name, async () => {
+        server = new FakeServer().install();
+        try {
+            await run();
+        } finally {
+            server.uninstall();
+        }
+    });
+}
+
+for (const contract of CASES) {
+    describe(`${contract.name} adapter contract`, () => {
+        itServes('sends the key in the provider\'s auth scheme on every request', async () => {
+            contract.routes.forEach(([method, url, response]) => server.on(method, url, response));
+            await contract.call(makeAdapter(contract.make));
+
+            assert.equal(server.requests.length, contract.routes.length);
+            for (const request of server.requests) {
+                assert.equal(request.headers['Authorization'], contract.authorization);
+            }
+        });
+
+        itServes('surfaces the provider\'s error detail, status and retry delay', async () => {
+            contract.routes.forEach(([method, url, response]) => server.on(method, url, response));
+            const [method, url] = contract.routes[0];
+            server.on(method, url, { status: 400, json: contract.errorBody });
+            await assert.rejects(contract.call(makeAdapter(contract.make)), (error: Error) => {
+                assert.ok(error instanceof APIRequestError);
+                assert.equal(error.status, 400);
+                assert.match(error.message, contract.errorDetail);
+                return true;
+            });
+
+            server.on(method, url, { status: 429, headers: { 'Retry-After': '7' }, text: '<html>Too Many Requests</html>' });
+            await assert.rejects(contract.call(makeAdapter(contract.make)), (error: Error) => {
+                assert.ok(error instanceof APIRequestError);
+                assert.equal(error.status, 429);
+                assert.equal(error.retryAfterMs, 7000);
+                assert.match(error.message, /HTTP 429: <html>Too Many Requests/);
+                return true;
+            });
+        });
+
+        if (contract.abortable) {
+            itServes('sends nothing once aborted', async () => {
+                const controller = new AbortController();
+                controller.abort();
+                await assert.rejects(contract.call(makeAdapter(contract.make), controller.signal), /aborted/);
+                assert.equal(server.requests.length, 0);
+            });
+        }
+    });
+}
+
+describe('OpenAI-style transcription requests', () => {
+    for (const [name, make, url] of [
+        ['OpenAI', (settings: NeuroVoxSettings) => new OpenAIAdapter(settings), /api\.openai\.com\/v1\/audio\/transcriptions$/],
+        ['Groq', (settings: NeuroVoxSettings) => new GroqAdapter(settings), /api\.groq\.com\/openai\/v1\/audio\/transcriptions$/]
+    ] as const) {
+        itServes(`${name} sends the audio, model and options as multipart form data`, async () => {
+            server.on('POST', url, { json: openAITranscript });
+            const adapter = makeAdapter<AIAdapter>(make, { transcriptionLanguage: 'DE' });
+            const result = await adapter.transcribeAudio(AUDIO, 'whisper-large-v3', undefined, { vocabulary: ['NeuroVox', 'Obsidian'] });
+
+            const [request] = server.requests;
+            const contentType = request.headers['Content-Type'];
+            assert.match(contentType, /^multipart\/form-data; boundary=/);
+            const fields = parseMultipart(request.body, contentType);
+            assert.equal(fields['file'], 'RIFF-fake-wav-bytes');
+            assert.equal(fields['model'], 'whisper-large-v3');
+            assert.equal(fields['language'], 'de');
+            assert.match(fields['prompt'], /NeuroVox, Obsidian/);
+            assert.equal(fields['response_format'], 'verbose_json');
+            assert.equal(fields['timestamp_granularities[]'], 'segment');
+
+            assert.equal(result.text, 'Hello world.');
+            assert.deepEqual(result.segments, [{ start: 0, end: 1.5, text: 'Hello world.' }]);
+        });
+    }
+
+    itServes('sends translations to /audio/translations without a source language', async () => {
+        server.on('POST', /\/audio\/translations$/, { json: { text: 'Hello.' } });
+        const adapter = makeAdapter(settings => new OpenAIAdapter(settings), { transcriptionLanguage: 'de' });
+        await adapter.transcribeAudio(AUDIO, 'whisper-1', undefined, { translate: true });
+
+        const [request] = server.requests;
+        const fields = parseMultipart(request.body, request.headers['Content-Type']);
+        assert.equal(fields['language'], undefined);
+        assert.equal(fields['timestamp_granularities[]'], undefined);
+    });
+});
+
+describe('Deepgram transcription requests', () => {
+    itServes('uploads the raw audio with options in the query string', async () => {
+        server.on('POST', /api\.deepgram\.com\/v1\/listen/, {
+            json: { results: { channels: [{ detected_language: 'en', alternatives: [{ transcript: 'Hi.', confidence: 0.9 }] }] } }
+        });
+        const adapter = makeAdapter(settings => new DeepgramAdapter(settings), { identifySpeakers: true });
+        const result = await adapter.transcribeAudio(AUDIO, 'nova-3', undefined, { vocabulary: ['NeuroVox'] });
+
+        const [request] = server.requests;
+        const params = new URL(request.url).searchParams;
+        assert.equal(params.get('model'), 'nova-3');
+        assert.equal(params.get('detect_language'), 'true');
+        assert.equal(params.get('keyterm'), 'NeuroVox');
+        assert.equal(params.get('diarize'), 'true');
+        assert.equal(request.headers['Content-Type'], 'audio/wav');
+        assert.equal(request.body, AUDIO);
+        assert.equal(result.language, 'en');
+    });
+});
+
+describe('Azure deployments', () => {
+    const azure = () => makeAdapter(settings => new AzureAdapter(settings), {
+        azureEndpoint: 'https://res.openai.azure.com',
+        azureDeployments: { transcription: ['notes=whisper', 'gpt-4o-transcribe'], language: ['summaries=gpt-5-mini', 'gpt-4o'] }
+    });
+
+    itServes('gives Whisper deployments timestamps and native translation', async () => {
+        server.on('POST', /\/deployments\/notes\/audio\/translations\?api-version=/, { json: openAITranscript });
+        const adapter = azure();
+
+        await adapter.transcribeAudio(AUDIO, 'azure/notes', undefined, { translate: true });
+
+        const [request] = server.requests;
+        assert.equal(parseMultipart(request.body, request.headers['Content-Type'])['response_format'], 'verbose_json');
+        assert.equal(adapter.getCapabilities('azure/notes').timestamps, true);
+        const transcribe = adapter.getCapabilities('azure/gpt-4o-transcribe');
+        assert.deepEqual([transcribe.timestamps, transcribe.translation], [false, false]);
+    });
+
+    itServes('fits completion bodies to the deployment\'s model', async () => {
+        server.on('POST', /\/deployments\/[\w-]+\/chat\/completions\?api-version=/, { json: { choices: [{ message: { content: 'A summary.' } }] } });
+        const adapter = azure();
+
+        await adapter.generateResponse('Summarize this', 'azure/summaries', { maxTokens: 500, temperature: 0.3, reasoningEffort: 'minimal' });
+        await adapter.generateResponse('Summarize this', 'azure/gpt-4o', { maxTokens: 500, temperature: 0.3, reasoningEffort: 'minimal' });
+
+        const [reasoning, chat] = server.requests.map(request => JSON.parse(request.body as string) as Record<string, unknown>);
+        assert.equal(reasoning.reasoning_effort, 'minimal');
+        assert.ok('max_completion_tokens' in reasoning && !('temperature' in reasoning));
+        assert.deepEqual([chat.max_tokens, chat.temperature], [500, 0.3]);
+        assert.ok(!('reasoning_effort' in chat));
+    });
+});
+
+describe('Gemini transcription requests', () => {
+    const GENERATE = /generativelanguage\.googleapis\.com\/v1beta\/models\/gemini-2\.5-flash:generateContent$/;
+
+    itServes('labels inline audio with the format its bytes are in', async () => {
+        server.on('POST', GENERATE, { json: { candidates: [{ content: { parts: [{ text: 'Hi.' }] } }] } });
+        const adapter = makeAdapter(settings => new GeminiAdapter(settings));
+        const ogg = new TextEncoder().encode('OggS-fake-opus-bytes').buffer;
+
+        const result = await adapter.transcribeAudio(ogg, 'gemini-2.5-flash');
+
+        const body = JSON.parse(server.requests[0].body as string) as {
+            contents: Array<{ parts: Array<{ inline_data?: { mime_type: string } }> }>;
+        };
+        assert.equal(body.contents[0].parts[1].inline_data?.mime_type, 'audio/ogg');
+        assert.equal(result.text, 'Hi.');
+    });
+
+    itServes('refuses audio it can\'t read instead of mislabelling it', async () => {
+        const adapter = makeAdapter(settings => new GeminiAdapter(settings));
+        const webm = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0, 0, 0, 0]).buffer;
+
+        await assert.rejects(adapter.transcribeAudio(webm, 'gemini-2.5-flash'), /can't read webm/);
+        assert.equal(server.requests.length, 0);
+    });
+});
+
+describe('Gemini completion requests', () => {
+    itServes('leaves thinking models room to answer within the model\'s output limit', async () => {
+        server.on('POST', /generativelanguage\.googleapis\.com\/v1beta\/models\/[\w.-]+:generateContent$/, {
+            json: { candidates: [{ content: { parts: [{ text: 'A summary.' }] } }] }
+        });
+        const adapter = makeAdapter(settings => new GeminiAdapter(settings));
+
+        await adapter.generateResponse('Summarize this', 'gemini-2.5-flash', { maxTokens: 1000 });
+        await adapter.generateResponse('Summarize this', 'gemini-2.5-pro', { maxTokens: 64000 });
+        await adapter.generateResponse('Summarize this', 'gemini-2.0-flash', { maxTokens: 1000 });
+
+        const [flash, pro, older] = server.requests.map(request =>
+            (JSON.parse(request.body as string) as { generationConfig: Record<string, unknown> }).generationConfig);
+        assert.equal(flash.maxOutputTokens, 9192);
+        assert.deepEqual(flash.thinkingConfig, { thinkingBudget: 8192 });
+        assert.equal(pro.maxOutputTokens, 65536);
+        assert.equal(older.maxOutputTokens, 1000);
+        assert.ok(!('thinkingConfig' in older));
+    });
+});
+
+describe('AssemblyAI transcription flow', () => {
+    function routeUploadAndCreate(): void {
+        server
+            .on('POST', /\/v2\/upload$/, { json: { upload_url: 'https://cdn.assemblyai.com/upload/abc' } })
+            .on('POST', /\/v2\/transcript$/, { json: { id: 'job-1', status: 'queued' } });
+    }
+
+    itServes('uploads, creates the job with speech_models and polls until it completes', async () => {
+        routeUploadAndCreate();
+        const statuses = ['queued', 'processing'];
+        server.on('GET', /\/v2\/transcript\/job-1$/, () => {
+            const status = statuses.shift();
+            return status
+                ? { json: { id: 'job-1', status } }
+                : { json: { id: 'job-1', status: 'completed', text: 'Hi there.', audio_duration: 2, words: [] } };
+        });
+        const usage: UsageRecord[] = [];
+        const adapter = makeAdapter(settings => withoutPollDelay(new AssemblyAIAdapter(settings)));
+        adapter.setUsageListener(record => usage.push(record));
+
+        const result = await adapter.transcribeAudio(AUDIO, 'universal-2', undefined, { vocabulary: ['NeuroVox'] });
+
+        const [upload, create] = server.requests;
+        assert.equal(upload.headers['Content-Type'], 'application/octet-stream');
+        assert.equal(upload.body, AUDIO);
+        const job = JSON.parse(create.body as string) as Record<string, unknown>;
+        assert.equal(job.audio_url, 'https://cdn.assemblyai.com/upload/abc');
+        assert.deepEqual(job.speech_models, ['universal-2']);
+        assert.equal(job.speech_model, undefined);
+        assert.equal(job.language_detection, true);
+        assert.deepEqual(job.word_boost, ['NeuroVox']);
+        assert.equal(server.requestsTo(/\/v2\/transcript\/job-1$/).length, 3);
+
+        assert.equal(result.text, 'Hi there.');
+        assert.equal(usage.length, 1);
+        assert.equal(usage[0].audioSeconds, 2);
+    });
+
+    itServes('stops polling once aborted', async () => {
+        routeUploadAndCreate();
+        server.on('GET', /\/v2\/transcript\/job-1$/, { json: { id: 'job-1', status: 'processing' } });
+        const controller = new AbortController();
+        const adapter = makeAdapter(settings => withoutPollDelay(new AssemblyAIAdapter(settings), () => controller.abort()));
+
+        await assert.rejects(adapter.transcribeAudio(AUDIO, 'universal-3-pro', controller.signal), /aborted/);
+        assert.equal(server.requestsTo(/\/v2\/transcript\/job-1$/).length, 1);
+    });
+
+    itServes('fails with AssemblyAI\'s reason when the job errors', async () => {
+        routeUploadAndCreate();
+        server.on('GET', /\/v2\/transcript\/job-1$/, { json: { id: 'job-1', status: 'error', error: 'Audio file is empty' } });
+        const adapter = makeAdapter(settings => withoutPollDelay(new AssemblyAIAdapter(settings)));
+
+        await assert.rejects(adapter.transcribeAudio(AUDIO, 'universal-3-pro'), /Audio file is empty/);
+    });
+});
+
+describe('OpenRouter completion requests', () => {
+    itServes('sends an OpenAI chat completions body and reports token usage', async () => {
+        server.on('POST', /openrouter\.ai\/api\/v1\/chat\/completions$/, {
+            json: { choices: [{ message: { content: 'A summary.' } }], usage: { prompt_tokens: 10, completion_tokens: 3 } }
+        });
+        const usage: UsageRecord[] = [];
+        const adapter = makeAdapter(settings => new OpenRouterAdapter(settings));
+        adapter.setUsageListener(record => usage.push(record));
+
+        const text = await adapter.generateResponse('Summarize this', 'openai/gpt-5-mini', { maxTokens: 500, system: 'Be brief.' });
+
+        const [request] = server.requests;
+        assert.equal(request.headers['Content-Type'], 'application/json');
+        const body = JSON.parse(request.body as string) as { model: string; messages: unknown[]; max_tokens: number };
+        assert.equal(body.model, 'openai/gpt-5-mini');
+        assert.deepEqual(body.messages, [
+            { role: 'system', content: 'Be brief.' },
+            { role: 'user', content: 'Summarize this' }
+        ]);
+        assert.equal(body.max_tokens, 500);
+        assert.equal(text, 'A summary.');
+        assert.deepEqual([usage[0].promptTokens, usage[0].completionTokens], [10, 3]);
+    });
+});
+
+/** Runs with fetch answering from `respond`, as the streaming path calls fetch, not requestUrl. */
+async function withFetch(respond: (init: RequestInit) => Promise<Response>, run: () => Promise<void>): Promise<void> {
+    const original = globalThis.fetch;
+    globalThis.fetch = (_input: RequestInfo | URL, init?: RequestInit) => respond(init ?? {});
+    try {
+        await run();
+    } finally {
+        globalThis.fetch = original;
+    }
+}
+
+/** A server-sent event stream of the given payloads that stays open unless `end` is set. */
+function eventStream(payloads: unknown[], init: RequestInit, end: boolean): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const payload of payloads) {
+                const data = typeof payload === 'string' ? payload : JSON.stringify(payload);
+                controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            }
+            if (end) {
+                controller.close();
+            } else {
+                init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+            }
+        }
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+
+describe('Streamed completions', () => {
+    itServes('hands the text so far to onText and reports the final usage chunk', async () => {
+        let sent: Record<string, unknown> = {};
+        await withFetch(init => {
+            sent = JSON.parse(init.body as string) as Record<string, unknown>;
+            return Promise.resolve(eventStream([
+                delta('A '), delta('summary.'),
+                { choices: [], x_groq: { usage: { prompt_tokens: 10, completion_tokens: 3 } } },
+                '[DONE]'
+            ], init, true));
+        }, async () => {
+            const usage: UsageRecord[] = [];
+            const seen: string[] = [];
+            const adapter = makeAdapter(settings => new GroqAdapter(settings));
+            adapter.setUsageListener(record => usage.push(record));
+
+            const text = await adapter.generateResponse('Summarize this', 'llama-3.3-70b-versatile', { onText: t => seen.push(t) });
+
+            assert.equal(text, 'A summary.');
+            assert.deepEqual(seen, ['A ', 'A summary.']);
+            assert.equal(sent.stream, true);
+            assert.deepEqual([usage[0].promptTokens, usage[0].completionTokens], [10, 3]);
+            assert.equal(server.requests.length, 0);
+        });
+    });
+
+    itServes('keeps the text so far when stopped partway through', async () => {
+        const controller = new AbortController();
+        await withFetch(init => Promise.resolve(eventStream([delta('Half a')], init, false)), async () => {
+            const adapter = makeAdapter(settings => new OpenAIAdapter(settings));
+            const text = await adapter.generateResponse('Summarize this', 'gpt-4o', {
+                onText: () => controller.abort(),
+                signal: controller.signal
+            });
+            assert.equal(text, 'Half a');
+        });
+    });
+
+    itServes('falls back to a regular request when the stream can\'t be opened', async () => {
+        server.on('POST', /api\.openai\.com\/v1\/chat\/completions$/, { json: { choices: [{ message: { content: 'A summary.' } }] } });
+        await withFetch(() => Promise.reject(new TypeError('Failed to fetch')), async () => {
+            const seen: string[] = [];
+            const adapter = makeAdapter(settings => new OpenAIAdapter(settings));
+            const text = await adapter.generateResponse('Summarize this', 'gpt-4o', { onText: t => seen.push(t) });
+            assert.equal(text, 'A summary.');
+            assert.deepEqual(seen, []);
+            assert.equal(server.requests.length, 1);
+        });
+    });
+
+    itServes('falls back to a regular request when the endpoint refuses to stream', async () => {
+        server.on('POST', /api\.openai\.com\/v1\/chat\/completions$/, { json: { choices: [{ message: { content: 'A summary.' } }] } });
+        const refusal = JSON.stringify({ error: { message: 'Unrecognized request argument supplied: stream_options' } });
+        await withFetch(() => Promise.resolve(new Response(refusal, { status: 400 })), async () => {
+            const adapter = makeAdapter(settings => new OpenAIAdapter(settings));
+            const text = await adapter.generateResponse('Summarize this', 'gpt-4o', { onText: () => undefined });
+            assert.equal(text, 'A summary.');
+            assert.equal(server.requests.length, 1);
+        });
+    });
+});
+
+describe('OpenAI completion requests', () => {
+    itServes('fits the body to reasoning and regular models', async () => {
+        server.on('POST', /api\.openai\.com\/v1\/chat\/completions$/, { json: { choices: [{ message: { content: 'A summary.' } }] } });
+        const adapter = makeAdapter(settings => new OpenAIAdapter(settings));
+
+        await adapter.generateResponse('Summarize this', 'gpt-5-mini', { maxTokens: 500, temperature: 0.3, reasoningEffort: 'minimal' });
+        await adapter.generateResponse('Summarize this', 'o4-mini', { maxTokens: 500, reasoningEffort: 'minimal' });
+        await adapter.generateResponse('Summarize this', 'gpt-4o', { maxTokens: 500, temperature: 0, reasoningEffort: 'high' });
+
+        const [gpt5, o4, gpt4o] = server.requests.map(request => JSON.parse(request.body as string) as Record<string, unknown>);
+        assert.equal(gpt5.max_completion_tokens, 25500);
+        assert.equal(gpt5.reasoning_effort, 'minimal');
+        assert.ok(!('temperature' in gpt5) && !('max_tokens' in gpt5));
+        // o-series models have no minimal effort; their lowest is sent instead.
+        assert.equal(o4.reasoning_effort, 'low');
+        assert.equal(gpt4o.max_tokens, 500);
+        assert.equal(gpt4o.temperature, 0);
+        assert.ok(!('reasoning_effort' in gpt4o));
+    });
+
+    itServes('keeps the reasoning reserve within the model\'s output limit', async () => {
+        server.on('POST', /api\.groq\.com\/openai\/v1\/chat\/completions$/, { json: { choices: [{ message: { content: 'A summary.' } }] } });
+        const adapter = makeAdapter(settings => new GroqAdapter(settings));
+
+        await adapter.generateResponse('Summarize this', 'openai/gpt-oss-20b', { maxTokens: 10000, reasoningEffort: 'low' });
+
+        const body = JSON.parse(server.requests[0].body as string) as Record<string, unknown>;
+        assert.equal(body.max_tokens, 32768);
+    });
+});
+
+describe('Transcription model catalogs', () => {
+    it('resolves only transcription models to a provider', () => {
+        assert.equal(getTranscriptionModelProvider('whisper-large-v3'), AIProvider.Groq);
+        assert.equal(getTranscriptionModelProvider('gpt-4o'), null);
+        assert.equal(getTranscriptionModelProvider('openai/gpt-oss-20b'), null);
+    });
+
+    itServes('keeps OpenAI\'s speech-to-text models after the static ones and caches them', async () => {
+        server.on('GET', /api\.openai\.com\/v1\/models$/, {
+            json: { data: [{ id: 'gpt-4o-mini-tts' }, { id: 'whisper-1' }, { id: 'gpt-4o-realtime-preview' }, { id: 'gpt-5-transcribe' }] }
+        });
+        const adapter = makeAdapter(settings => new OpenAIAdapter(settings));
+        try {
+            const ids = (await adapter.fetchTranscriptionModels()).map(model => model.id);
+            assert.equal(ids[ids.length - 1], 'gpt-5-transcribe');
+            assert.ok(!ids.some(id => /tts|realtime/.test(id)));
+            assert.equal(ids.filter(id => id === 'whisper-1').length, 1);
+            assert.equal(getTranscriptionModelProvider('gpt-5-transcribe'), AIProvider.OpenAI);
+
+            assert.equal(adapter.isTranscriptionCatalogStale(), false);
+            await adapter.fetchTranscriptionModels();
+            assert.equal(server.requests.length, 1);
+            await adapter.fetchTranscriptionModels(true);
+            assert.equal(server.requests.length, 2);
+        } finally {
+            clearDynamicModels(AIProvider.OpenAI);
+        }
+    });
+
+    itServes('lists Deepgram\'s pre-recorded models once each and falls back when offline', async () => {
+        server.on('GET', /api\.deepgram\.com\/v1\/models$/, {
+            json: {
+                stt: [
+                    { name: 'nova-3', canonical_name: 'nova-3-medical', architecture: 'nova-3', batch: true },
+                    { name: 'nova-3', canonical_name: 'nova-3-medical', architecture: 'nova-3', batch: true, languages: ['en-US'] },
+                    { name: 'flux', canonical_name: 'flux-general-en', architecture: 'flux', batch: false }
+                ]
+            }
+        });
+        const adapter = makeAdapter(settings => new DeepgramAdapter(settings));
+        try {
+            const ids = (await adapter.fetchTranscriptionModels()).map(model => model.id);
+            assert.equal(ids.filter(id => id === 'nova-3-medical').length, 1);
+            assert.ok(!ids.includes('flux-general-en'));
+
+            server.on('GET', /api\.deepgram\.com\/v1\/models$/, { status: 503, json: { err_msg: 'Unavailable' } });
+            assert.deepEqual((await adapter.fetchTranscriptionModels(true)).map(model => model.id), ids);
+        } finally {
+            clearDynamicModels(AIProvider.Deepgram);
+        }
+    });
+});
+
+describe('Model capabilities', () => {
+    it('applies catalog entries over the provider defaults', () => {
+        const openAI = makeAdapter(settings => new OpenAIAdapter(settings));
+        const whisper = openAI.getCapabilities('whisper-1');
+        assert.equal(whisper.maxUploadBytes, 25 * 1024 * 1024);
+        assert.ok(whisper.inputFormats?.includes('webm'));
+        assert.equal(whisper.timestamps, true);
+        assert.equal(whisper.translation, true);
+
+        const transcribe = openAI.getCapabilities('gpt-4o-transcribe');
+        assert.equal(transcribe.maxDurationSeconds, 1500);
+        assert.equal(transcribe.timestamps, false);
+        assert.equal(transcribe.translation, false);
+
+        const reasoning = openAI.getCapabilities('gpt-5-mini', 'language');
+        assert.equal(reasoning.temperature, false);
+        assert.equal(reasoning.tokenLimitParameter, 'max_completion_tokens');
+        assert.equal(openAI.getCapabilities('gpt-4o', 'language').tokenLimitParameter, 'max_tokens');
+
+        const deepgram = makeAdapter(settings => new DeepgramAdapter(settings)).getCapabilities('nova-3');
+        assert.equal(deepgram.inputFormats, undefined);
+        assert.equal(deepgram.diarization, true);
+    });
+});
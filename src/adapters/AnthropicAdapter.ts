@@ -0,0 +1,124 @@
+import { AIAdapter, AIModel, AIModels, AIProvider, TextGenerationOptions } from './AIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { AnthropicMessagesResponse, ModelListResponse, TokenUsage } from '../types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Native Anthropic Messages API adapter for post-processing (language) only, so Claude can be
+ * used without going through OpenRouter. The Messages API differs from the OpenAI shape in
+ * auth (`x-api-key` + `anthropic-version`), a top-level `system` field and content blocks
+ * in the response.
+ */
+export class AnthropicAdapter extends AIAdapter {
+    private apiKey: string = '';
+
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.Anthropic);
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+
+    protected setApiKeyInternal(key: string): void {
+        this.apiKey = key;
+    }
+
+    protected getApiBaseUrl(): string {
+        return 'https://api.anthropic.com/v1';
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '/messages';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        // Anthropic does not provide audio transcription.
+        return '';
+    }
+
+    protected getModelListEndpoint(): string | null {
+        return '/models';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        if (!this.apiKey) {
+            return false;
+        }
+
+        // /models is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
+    }
+
+    /** The Messages API streams its own event types, not chat completion chunks. */
+    protected supportsTextStreaming(): boolean {
+        return false;
+    }
+
+    protected buildTextGenerationBody(
+        prompt: string,
+        model: string,
+        options?: TextGenerationOptions
+    ): Record<string, unknown> {
+        return {
+            model,
+            // max_tokens is required by the Messages API.
+            max_tokens: options?.maxTokens || 1000,
+            temperature: options?.temperature ?? 0.7,
+            ...(options?.system ? { system: options.system } : {}),
+            messages: [{ role: "user", content: prompt }],
+        };
+    }
+
+    protected parseTextGenerationResponse(response: AnthropicMessagesResponse): string {
+        const text = response?.content
+            ?.filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join('');
+        if (text) {
+            return text;
+        }
+        throw new Error('Invalid response format from Anthropic');
+    }
+
+    protected parseTokenUsage(response: AnthropicMessagesResponse): TokenUsage {
+        return { promptTokens: response?.usage?.input_tokens, completionTokens: response?.usage?.output_tokens };
+    }
+
+    protected parseTranscriptionResponse(): never {
+        throw new Error('Transcription not supported by Anthropic');
+    }
+
+    /**
+     * /v1/models reports a display name but no token limits, and lists dated ids
+     * (`claude-sonnet-4-5-20250929`), so backfill maxTokens from the static alias entry
+     * the id starts with.
+     */
+    protected parseModelList(response: ModelListResponse): AIModel[] {
+        if (!response?.data) return [];
+        const known = AIModels[AIProvider.Anthropic];
+        return response.data
+            .map(m => ({
+                id: m.id,
+                name: m.display_name || m.id,
+                category: 'language' as const,
+                maxTokens: known.find(k => m.id.startsWith(k.id))?.maxTokens
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Anthropic uses "x-api-key" instead of "Authorization: Bearer"
+    protected getAuthHeaders(): Record<string, string> {
+        return {
+            'x-api-key': this.getApiKey(),
+            'anthropic-version': ANTHROPIC_VERSION
+        };
+    }
+}
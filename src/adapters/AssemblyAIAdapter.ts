@@ -1,10 +1,15 @@
-import { AIAdapter, AIProvider } from './AIAdapter';
+import { AIAdapter, AIProvider, getAudioSeconds, ModelCapabilities, TranscriptionOptions } from './AIAdapter';
 import { NeuroVoxSettings } from '../settings/Settings';
 import {
     ChatCompletionResponse,
     AssemblyAIUploadResponse,
-    AssemblyAITranscriptionResponse
+    AssemblyAITranscriptionResponse,
+    AssemblyAIStreamingTokenResponse,
+    AssemblyAILiveMessage,
+    TranscriptResult
 } from '../types';
+import { segmentsFromWords } from '../utils/transcription/TranscriptBuilder';
+import { LIVE_SAMPLE_RATE, LiveProtocol, LiveResult } from '../utils/transcription/LiveTranscription';
 
 /**
  * AssemblyAI transcription adapter.
@@ -24,6 +29,9 @@ export class AssemblyAIAdapter extends AIAdapter {
     private readonly POLL_INTERVAL_MS = 2000;
     private readonly MAX_POLL_ATTEMPTS = 150; // ~5 minutes
 
+    // Universal-Streaming lives on its own host.
+    private readonly STREAMING_BASE_URL = 'https://streaming.assemblyai.com';
+
     constructor(settings: NeuroVoxSettings) {
         super(settings, AIProvider.AssemblyAI);
     }
@@ -54,26 +62,47 @@ export class AssemblyAIAdapter extends AIAdapter {
             return false;
         }
 
-        try {
-            await this.makeAPIRequest(
-                `${this.getApiBaseUrl()}/v2/transcript?limit=1`,
-                'GET',
-                {},
-                null
-            );
-            return true;
-        } catch {
-            return false;
-        }
+        await this.makeAPIRequest(
+            `${this.getApiBaseUrl()}/v2/transcript?limit=1`,
+            'GET',
+            {},
+            null
+        );
+        return true;
     }
 
     protected parseTextGenerationResponse(_response: ChatCompletionResponse): string {
         throw new Error('Text generation not supported by AssemblyAI');
     }
 
-    protected parseTranscriptionResponse(response: AssemblyAITranscriptionResponse): string {
+    protected parseTranscriptionResponse(response: AssemblyAITranscriptionResponse): TranscriptResult {
         if (typeof response?.text === 'string') {
-            return response.text;
+            // AssemblyAI reports word timings in milliseconds.
+            const words = (response.words ?? []).map(word => ({
+                text: word.text,
+                start: word.start / 1000,
+                end: word.end / 1000,
+                confidence: word.confidence,
+                speaker: word.speaker ?? undefined
+            }));
+            // With speaker labels, AssemblyAI's own speaker turns are better segments than
+            // ones regrouped from words.
+            const segments = response.utterances?.length
+                ? response.utterances.map(utterance => ({
+                    start: utterance.start / 1000,
+                    end: utterance.end / 1000,
+                    text: utterance.text,
+                    speaker: utterance.speaker
+                }))
+                : segmentsFromWords(words);
+            return {
+                text: response.text,
+                segments,
+                words,
+                language: response.language_code,
+                confidence: response.confidence,
+                duration: response.audio_duration ?? undefined
+            };
         }
         throw new Error('Invalid transcription response format from AssemblyAI');
     }
@@ -86,7 +115,23 @@ export class AssemblyAIAdapter extends AIAdapter {
         return this.POLL_INTERVAL_MS * this.MAX_POLL_ATTEMPTS + 30_000; // poll budget + upload margin
     }
 
-    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, model: string, signal?: AbortSignal): Promise<string> {
+    /** The upload endpoint takes up to 2.2GB in any common format; jobs return word timings and speaker labels. */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: 2.2 * 1024 * 1024 * 1024,
+            inputFormats: undefined,
+            timestamps: true,
+            diarization: true
+        };
+    }
+
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
         try {
             this.throwIfAborted(signal);
             // 1. Upload the raw audio bytes.
@@ -101,7 +146,11 @@ export class AssemblyAIAdapter extends AIAdapter {
                 throw new Error('Upload failed: no upload_url returned');
             }
 
-            // 2. Create the transcript job.
+            // 2. Create the transcript job. Without a language code AssemblyAI assumes
+            // English, so auto-detection has to be requested explicitly.
+            const language = this.getTranscriptionLanguage();
+            const speechModel = model || 'universal-3-pro';
+            const vocabulary = options?.vocabulary ?? [];
             const created = await this.makeAPIRequest<AssemblyAITranscriptionResponse>(
                 `${this.getApiBaseUrl()}${this.getTranscriptionEndpoint()}`,
                 'POST',
@@ -110,7 +159,10 @@ export class AssemblyAIAdapter extends AIAdapter {
                     audio_url: upload.upload_url,
                     // `speech_model` (singular) is deprecated; AssemblyAI now takes a
                     // `speech_models` fallback array of universal-3-pro / universal-2.
-                    speech_models: [model || 'universal-3-pro']
+                    speech_models: [speechModel],
+                    ...(vocabulary.length > 0 ? this.getVocabularyParams(speechModel, vocabulary) : {}),
+                    ...(language ? { language_code: language } : { language_detection: true }),
+                    ...(this.settings.identifySpeakers ? { speaker_labels: true } : {})
                 })
             );
 
@@ -119,14 +171,83 @@ export class AssemblyAIAdapter extends AIAdapter {
             }
 
             // 3. Poll until completion.
-            return await this.pollForResult(created.id, signal);
+            const result = await this.pollForResult(created.id, signal);
+            this.reportUsage(speechModel, { audioSeconds: getAudioSeconds(result) });
+            return result;
         } catch (error) {
-            const message = this.getErrorMessage(error);
-            throw new Error(`Failed to transcribe audio with AssemblyAI: ${message}`);
+            throw this.wrapError('Failed to transcribe audio with AssemblyAI', error);
         }
     }
 
-    private async pollForResult(transcriptId: string, signal?: AbortSignal): Promise<string> {
+    /**
+     * Live transcription over Universal-Streaming. The WebSocket can't carry the key in a
+     * header, so it connects with a short-lived token fetched with the key.
+     */
+    public async createLiveProtocol(_model: string): Promise<LiveProtocol | null> {
+        if (!this.apiKey) {
+            throw new Error('AssemblyAI API key is not configured');
+        }
+
+        const { token } = await this.makeAPIRequest<AssemblyAIStreamingTokenResponse>(
+            `${this.STREAMING_BASE_URL}/v3/token?expires_in_seconds=60`,
+            'GET',
+            {},
+            null
+        );
+        if (!token) {
+            throw new Error('AssemblyAI returned no streaming token');
+        }
+
+        // The batch speech models don't stream; streaming has its own English-only and
+        // multilingual models, and the multilingual one also detects the language.
+        const speechModel = this.getTranscriptionLanguage() === 'en'
+            ? 'universal-streaming-english'
+            : 'universal-streaming-multilingual';
+        const params = new URLSearchParams({
+            sample_rate: String(LIVE_SAMPLE_RATE),
+            encoding: 'pcm_s16le',
+            format_turns: 'true',
+            speech_model: speechModel,
+            token
+        });
+
+        return {
+            url: `${this.STREAMING_BASE_URL.replace(/^http/, 'ws')}/v3/ws?${params.toString()}`,
+            parseMessage: message => this.parseLiveMessage(message),
+            finishMessage: JSON.stringify({ type: 'Terminate' }),
+            reportUsage: audioSeconds => this.reportUsage(speechModel, { audioSeconds })
+        };
+    }
+
+    private parseLiveMessage(message: string): LiveResult | null {
+        const data = JSON.parse(message) as AssemblyAILiveMessage;
+        if (data.error) {
+            throw new Error(data.error);
+        }
+        if (data.type !== 'Turn') {
+            return null;
+        }
+
+        const words = data.words ?? [];
+        // With format_turns an ended turn arrives twice, raw and then formatted; only the
+        // formatted one is final. Until then `transcript` holds just the settled words, so
+        // the interim text is built from every word heard so far.
+        const isFinal = data.end_of_turn === true && data.turn_is_formatted === true;
+        return {
+            text: isFinal ? data.transcript ?? '' : words.map(word => word.text).join(' '),
+            isFinal,
+            endSeconds: (words[words.length - 1]?.end ?? 0) / 1000
+        };
+    }
+
+    /** Universal-3 Pro replaces `word_boost` with a key-terms prompt. */
+    private getVocabularyParams(model: string, vocabulary: string[]): Record<string, unknown> {
+        return model.startsWith('universal-3')
+            ? { keyterms_prompt: vocabulary }
+            : { word_boost: vocabulary, boost_param: 'high' };
+    }
+
+    private async pollForResult(transcriptId: string, signal?: AbortSignal): Promise<TranscriptResult> {
         const url = `${this.getApiBaseUrl()}/v2/transcript/${transcriptId}`;
 
         for (let attempt = 0; attempt < this.MAX_POLL_ATTEMPTS; attempt++) {
@@ -0,0 +1,180 @@
+import { AIAdapter, AIModel, AIProvider, ModelCapabilities, TextGenerationOptions, TranscriptionOptions } from './AIAdapter';
+import { getReasoningCapabilities } from './OpenAIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { ChatCompletionResponse, ModelListResponse, TranscriptionResponse, TranscriptResult } from '../types';
+
+/**
+ * Selectable Azure model ids are the deployment name behind an `azure/` prefix. Deployments
+ * are often named after the model they serve (`whisper-1`, `gpt-4o`), and the bare name
+ * would then resolve to OpenAI in the model pickers.
+ */
+const MODEL_ID_PREFIX = 'azure/';
+
+export function toAzureModelId(deployment: string): string {
+    return `${MODEL_ID_PREFIX}${deployment}`;
+}
+
+export function parseAzureModelId(modelId: string): string | null {
+    return modelId.startsWith(MODEL_ID_PREFIX) ? modelId.slice(MODEL_ID_PREFIX.length) : null;
+}
+
+/**
+ * A deployment as listed in settings: its name, or `name=model` when the name doesn't say
+ * which OpenAI model it serves. The model decides what the deployment can do.
+ */
+export function parseAzureDeployment(entry: string): { name: string; model: string } {
+    const [name, model] = entry.split('=').map(part => part.trim());
+    return { name, model: model || name };
+}
+
+/**
+ * Azure OpenAI speaks the OpenAI request/response shapes, but addresses models by deployment
+ * (`/openai/deployments/{name}/...?api-version=`) and authenticates with an `api-key` header.
+ * Resource endpoint, API version and the deployments used for each role come from settings.
+ */
+export class AzureAdapter extends AIAdapter {
+    private apiKey: string = '';
+
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.Azure);
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+
+    protected setApiKeyInternal(key: string): void {
+        this.apiKey = key;
+    }
+
+    protected getApiBaseUrl(): string {
+        return `${this.getResourceUrl()}/openai/deployments`;
+    }
+
+    protected getTextGenerationEndpoint(deployment: string): string {
+        return `/${encodeURIComponent(deployment)}/chat/completions?${this.getApiVersionQuery()}`;
+    }
+
+    protected getTranscriptionEndpoint(deployment: string): string {
+        return `/${encodeURIComponent(deployment)}/audio/transcriptions?${this.getApiVersionQuery()}`;
+    }
+
+    // As on OpenAI, only Whisper deployments translate.
+    protected getTranslationEndpoint(deployment: string): string | null {
+        return this.isWhisper(deployment)
+            ? `/${encodeURIComponent(this.toDeploymentName(deployment))}/audio/translations?${this.getApiVersionQuery()}`
+            : null;
+    }
+
+    protected supportsVerboseTranscription(deployment: string): boolean {
+        return this.isWhisper(deployment);
+    }
+
+    /** What the deployment's model can do, reasoning models included; see getReasoningCapabilities. */
+    protected getDefaultCapabilities(deployment: string): ModelCapabilities {
+        return { ...super.getDefaultCapabilities(deployment), ...getReasoningCapabilities(this.getDeploymentModel(deployment)) };
+    }
+
+    // Deployments are billed at their model's price.
+    public getBilledModel(deployment: string): string {
+        return this.getDeploymentModel(deployment);
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        if (!this.apiKey || !this.getResourceUrl()) {
+            return false;
+        }
+
+        // The resource's model list is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getResourceUrl()}/openai/models?${this.getApiVersionQuery()}`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
+    }
+
+    protected parseTextGenerationResponse(response: ChatCompletionResponse): string {
+        if (response?.choices?.[0]?.message?.content) {
+            return response.choices[0].message.content;
+        }
+        throw new Error('Invalid response format from Azure OpenAI');
+    }
+
+    protected parseTranscriptionResponse(response: TranscriptionResponse): TranscriptResult {
+        return this.parseOpenAITranscription(response, 'Azure OpenAI');
+    }
+
+    public isConfigured(): boolean {
+        return !!this.apiKey && !!this.getResourceUrl();
+    }
+
+    public getAvailableModels(category: 'transcription' | 'language'): AIModel[] {
+        return this.settings.azureDeployments[category].map(entry => {
+            const { name } = parseAzureDeployment(entry);
+            return { id: toAzureModelId(name), name, category };
+        });
+    }
+
+    public async fetchLanguageModels(): Promise<AIModel[]> {
+        // Deployments are configured, not discovered: listing them needs management-plane access.
+        return this.getAvailableModels('language');
+    }
+
+    public async generateResponse(prompt: string, model: string, options?: TextGenerationOptions): Promise<string> {
+        return super.generateResponse(prompt, this.toDeployment(model), options);
+    }
+
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
+        return super.transcribeAudio(audioArrayBuffer, this.toDeployment(model), signal, options);
+    }
+
+    // Azure uses "api-key" instead of "Authorization: Bearer"
+    protected getAuthHeaders(): Record<string, string> {
+        return { 'api-key': this.getApiKey() };
+    }
+
+    private getResourceUrl(): string {
+        return this.settings.azureEndpoint.trim().replace(/\/+$/, '');
+    }
+
+    private getApiVersionQuery(): string {
+        return `api-version=${encodeURIComponent(this.settings.azureApiVersion.trim())}`;
+    }
+
+    /**
+     * The OpenAI model a deployment serves, given its selectable id or its name. Capability
+     * checks see both: the pickers use ids, the requests deployment names.
+     */
+    private getDeploymentModel(deployment: string): string {
+        const name = this.toDeploymentName(deployment);
+        const { azureDeployments } = this.settings;
+        const entry = [...azureDeployments.transcription, ...azureDeployments.language]
+            .map(parseAzureDeployment)
+            .find(candidate => candidate.name === name);
+        // Deployment names are often the model's in another case (`Whisper`).
+        return (entry?.model ?? name).toLowerCase();
+    }
+
+    private isWhisper(deployment: string): boolean {
+        return this.getDeploymentModel(deployment).startsWith('whisper');
+    }
+
+    private toDeploymentName(deployment: string): string {
+        return parseAzureModelId(deployment) ?? deployment;
+    }
+
+    private toDeployment(modelId: string): string {
+        const deployment = parseAzureModelId(modelId);
+        if (!deployment) {
+            throw new Error(`"${modelId}" is not an Azure deployment`);
+        }
+        return deployment;
+    }
+}
@@ -0,0 +1,207 @@
+import { AIAdapter, AIModel, AIProvider, TextGenerationOptions, TranscriptionOptions } from './AIAdapter';
+import { CustomEndpoint, NeuroVoxSettings } from '../settings/Settings';
+import { ChatCompletionResponse, ModelListResponse, TranscriptionResponse, TranscriptResult } from '../types';
+
+/**
+ * Selectable model ids for custom endpoints carry the endpoint they belong to, so one
+ * provider entry can front any number of servers: `<endpointId>::<model>`. The separator
+ * cannot clash with model ids, which routinely contain `/` and `:` (e.g. `llama3:8b`).
+ */
+const MODEL_ID_SEPARATOR = '::';
+
+export function toCustomModelId(endpointId: string, model: string): string {
+    return `${endpointId}${MODEL_ID_SEPARATOR}${model}`;
+}
+
+export function parseCustomModelId(modelId: string): { endpointId: string; model: string } | null {
+    const index = modelId.indexOf(MODEL_ID_SEPARATOR);
+    if (index <= 0) return null;
+    return {
+        endpointId: modelId.slice(0, index),
+        model: modelId.slice(index + MODEL_ID_SEPARATOR.length)
+    };
+}
+
+/**
+ * Talks to a single user-configured OpenAI-compatible server. Base URL, auth scheme and key
+ * come from the endpoint config instead of being hardcoded like OpenAIAdapter/GroqAdapter.
+ */
+class CustomEndpointAdapter extends AIAdapter {
+    constructor(settings: NeuroVoxSettings, private endpoint: CustomEndpoint, private apiKey: string) {
+        super(settings, AIProvider.Custom);
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+
+    protected setApiKeyInternal(key: string): void {
+        this.apiKey = key;
+    }
+
+    protected getApiBaseUrl(): string {
+        return this.endpoint.baseUrl.trim().replace(/\/+$/, '');
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '/chat/completions';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        return '/audio/transcriptions';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        // Most OpenAI-compatible servers (LM Studio, vLLM, faster-whisper-server) expose
+        // /models; it is free and exercises both the base URL and the auth header.
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
+    }
+
+    /**
+     * Connectivity check that, unlike validateApiKey(), doesn't short-circuit on an empty
+     * key: keyless LAN servers are a normal configuration here.
+     */
+    public checkConnection(): Promise<boolean> {
+        return this.validateApiKeyImpl().catch(() => false);
+    }
+
+    protected parseTextGenerationResponse(response: ChatCompletionResponse): string {
+        if (response?.choices?.[0]?.message?.content) {
+            return response.choices[0].message.content;
+        }
+        throw new Error(`Invalid response format from ${this.endpoint.name}`);
+    }
+
+    protected parseTranscriptionResponse(response: TranscriptionResponse): TranscriptResult {
+        // Servers that return verbose_json unasked (some Whisper servers do) keep their timing.
+        return this.parseOpenAITranscription(response, this.endpoint.name);
+    }
+
+    protected getAuthHeaders(): Record<string, string> {
+        const key = this.getApiKey();
+        if (!key || this.endpoint.authScheme === 'none') {
+            return {};
+        }
+        if (this.endpoint.authScheme === 'header' && this.endpoint.authHeaderName.trim()) {
+            return { [this.endpoint.authHeaderName.trim()]: key };
+        }
+        return { 'Authorization': `Bearer ${key}` };
+    }
+}
+
+/**
+ * Provider entry for user-defined OpenAI-compatible endpoints (self-hosted Whisper servers,
+ * LM Studio, ...). Settings may hold several named endpoints; every model id encodes the
+ * endpoint it belongs to (see toCustomModelId) and each call is routed to a
+ * CustomEndpointAdapter built from that endpoint's current settings.
+ */
+export class CustomAdapter extends AIAdapter {
+    /** `getEndpointKey` looks up an endpoint's key by endpoint id, at call time. */
+    constructor(settings: NeuroVoxSettings, private getEndpointKey: (endpointId: string) => string) {
+        super(settings, AIProvider.Custom);
+    }
+
+    getApiKey(): string {
+        // Keys are per endpoint; see CustomEndpointAdapter.
+        return '';
+    }
+
+    protected setApiKeyInternal(_key: string): void {
+        // No-op: keys are edited per endpoint in settings.
+    }
+
+    protected getApiBaseUrl(): string {
+        // Resolved per call from the endpoint encoded in the model id.
+        return '';
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        return '';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        return true;
+    }
+
+    protected parseTextGenerationResponse(_response: ChatCompletionResponse): string {
+        throw new Error('Custom endpoints parse responses per endpoint');
+    }
+
+    protected parseTranscriptionResponse(): never {
+        throw new Error('Custom endpoints parse responses per endpoint');
+    }
+
+    /** Endpoints carry their own (optional) keys; LAN servers often have none. */
+    public requiresApiKey(): boolean {
+        return false;
+    }
+
+    public isConfigured(): boolean {
+        return this.settings.customEndpoints.some(endpoint => endpoint.baseUrl.trim());
+    }
+
+    public isReady(_category: 'transcription' | 'language' = 'transcription'): boolean {
+        return this.isConfigured();
+    }
+
+    public getAvailableModels(category: 'transcription' | 'language'): AIModel[] {
+        const models: AIModel[] = [];
+        for (const endpoint of this.settings.customEndpoints) {
+            if (!endpoint.baseUrl.trim()) continue;
+            const ids = category === 'transcription' ? endpoint.transcriptionModels : endpoint.languageModels;
+            for (const model of ids) {
+                models.push({
+                    id: toCustomModelId(endpoint.id, model),
+                    name: `${endpoint.name || endpoint.baseUrl} — ${model}`,
+                    category
+                });
+            }
+        }
+        return models;
+    }
+
+    public async fetchLanguageModels(): Promise<AIModel[]> {
+        return this.getAvailableModels('language');
+    }
+
+    public async generateResponse(prompt: string, model: string, options?: TextGenerationOptions): Promise<string> {
+        const { adapter, model: endpointModel } = this.resolve(model);
+        return adapter.generateResponse(prompt, endpointModel, options);
+    }
+
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
+        const { adapter, model: endpointModel } = this.resolve(model);
+        return adapter.transcribeAudio(audioArrayBuffer, endpointModel, signal, options);
+    }
+
+    /** Checks that a single endpoint is reachable with its current URL and credentials. */
+    public async validateEndpoint(endpoint: CustomEndpoint): Promise<boolean> {
+        return new CustomEndpointAdapter(this.settings, endpoint, this.getEndpointKey(endpoint.id)).checkConnection();
+    }
+
+    private resolve(modelId: string): { adapter: CustomEndpointAdapter; model: string } {
+        const parsed = parseCustomModelId(modelId);
+        const endpoint = parsed && this.settings.customEndpoints.find(e => e.id === parsed.endpointId);
+        if (!parsed || !endpoint) {
+            throw new Error(`Unknown custom endpoint for model "${modelId}"`);
+        }
+        const adapter = new CustomEndpointAdapter(this.settings, endpoint, this.getEndpointKey(endpoint.id));
+        adapter.setUsageListener(this.usageListener);
+        return { adapter, model: parsed.model };
+    }
+}
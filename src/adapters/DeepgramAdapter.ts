@@ -1,10 +1,15 @@
-import { AIAdapter, AIProvider } from './AIAdapter';
+import { AIAdapter, AIModel, AIProvider, getAudioSeconds, ModelCapabilities, TranscriptionOptions } from './AIAdapter';
 import { NeuroVoxSettings } from '../settings/Settings';
 import {
     ChatCompletionResponse,
     DeepgramTranscriptionResponse,
-    DeepgramProjectsResponse
+    DeepgramProjectsResponse,
+    DeepgramModelsResponse,
+    DeepgramLiveMessage,
+    TranscriptResult
 } from '../types';
+import { segmentsFromWords } from '../utils/transcription/TranscriptBuilder';
+import { LIVE_SAMPLE_RATE, LiveProtocol, LiveResult } from '../utils/transcription/LiveTranscription';
 
 export class DeepgramAdapter extends AIAdapter {
     private apiKey: string = '';
@@ -33,23 +38,33 @@ export class DeepgramAdapter extends AIAdapter {
         return '/v1/listen';
     }
 
+    protected getTranscriptionModelListEndpoint(): string | null {
+        return '/v1/models';
+    }
+
+    /** Pre-recorded models, once each: the catalog repeats them per language and version. */
+    protected parseTranscriptionModelList(response: DeepgramModelsResponse): AIModel[] {
+        const names = new Set((response?.stt ?? [])
+            .filter(model => model.batch !== false && model.canonical_name)
+            .map(model => model.canonical_name));
+        return [...names]
+            .sort((a, b) => a.localeCompare(b))
+            .map(name => ({ id: name, name, category: 'transcription' as const }));
+    }
+
     protected async validateApiKeyImpl(): Promise<boolean> {
         if (!this.apiKey) {
             return false;
         }
 
-        try {
-            // Use Deepgram's projects endpoint to validate the API key
-            const response = await this.makeAPIRequest<DeepgramProjectsResponse>(
-                `${this.getApiBaseUrl()}/v1/projects`,
-                'GET',
-                {},
-                null
-            );
-            return response && Array.isArray(response.projects);
-        } catch {
-            return false;
-        }
+        // Use Deepgram's projects endpoint to validate the API key
+        const response = await this.makeAPIRequest<DeepgramProjectsResponse>(
+            `${this.getApiBaseUrl()}/v1/projects`,
+            'GET',
+            {},
+            null
+        );
+        return response && Array.isArray(response.projects);
     }
 
     protected parseTextGenerationResponse(_response: ChatCompletionResponse): string {
@@ -57,19 +72,66 @@ export class DeepgramAdapter extends AIAdapter {
         throw new Error('Text generation not supported by Deepgram');
     }
 
-    protected parseTranscriptionResponse(response: DeepgramTranscriptionResponse): string {
-        if (response?.results?.channels?.[0]?.alternatives?.[0]?.transcript) {
-            return response.results.channels[0].alternatives[0].transcript;
+    protected parseTranscriptionResponse(response: DeepgramTranscriptionResponse): TranscriptResult {
+        const channel = response?.results?.channels?.[0];
+        const alternative = channel?.alternatives?.[0];
+        if (alternative?.transcript) {
+            const words = (alternative.words ?? []).map(word => ({
+                text: word.punctuated_word ?? word.word,
+                start: word.start,
+                end: word.end,
+                confidence: word.confidence,
+                speaker: word.speaker === undefined ? undefined : String(word.speaker)
+            }));
+            return {
+                text: alternative.transcript,
+                segments: segmentsFromWords(words),
+                words,
+                language: channel?.detected_language,
+                confidence: alternative.confidence,
+                duration: response.metadata?.duration
+            };
         }
         throw new Error('Invalid transcription response format from Deepgram');
     }
 
+    /** Files up to 2GB in nearly any format, with word timings, speaker labels and keyterms. */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: 2 * 1024 * 1024 * 1024,
+            inputFormats: undefined,
+            timestamps: true,
+            diarization: true
+        };
+    }
+
     // Override the transcribeAudio method since Deepgram has a different API structure
-    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, model: string, signal?: AbortSignal): Promise<string> {
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
         try {
             this.throwIfAborted(signal);
             // Deepgram API expects the audio file directly in the body, not as form data
-            const endpoint = `${this.getApiBaseUrl()}${this.getTranscriptionEndpoint()}?model=${model}`;
+            const params = new URLSearchParams({ model });
+            const language = this.getTranscriptionLanguage();
+            if (language) {
+                params.set('language', language);
+            } else {
+                params.set('detect_language', 'true');
+            }
+            // Nova-3 is prompted with `keyterm`s; earlier models boost `keywords` instead.
+            const biasParam = model.startsWith('nova-3') ? 'keyterm' : 'keywords';
+            for (const term of options?.vocabulary ?? []) {
+                params.append(biasParam, term);
+            }
+            if (this.settings.identifySpeakers) {
+                params.set('diarize', 'true');
+            }
+            const endpoint = `${this.getApiBaseUrl()}${this.getTranscriptionEndpoint()}?${params.toString()}`;
 
             const response = await this.makeAPIRequest<DeepgramTranscriptionResponse>(
                 endpoint,
@@ -80,11 +142,61 @@ export class DeepgramAdapter extends AIAdapter {
                 audioArrayBuffer
             );
 
-            return this.parseTranscriptionResponse(response);
+            const result = this.parseTranscriptionResponse(response);
+            this.reportUsage(model, { audioSeconds: getAudioSeconds(result) });
+            return result;
         } catch (error) {
-            const message = this.getErrorMessage(error);
-            throw new Error(`Failed to transcribe audio with Deepgram: ${message}`);
+            throw this.wrapError('Failed to transcribe audio with Deepgram', error);
+        }
+    }
+
+    /**
+     * Live transcription over the streaming flavour of /v1/listen. Browsers can't set the
+     * Authorization header on a WebSocket, so the key travels in the `token` subprotocol.
+     */
+    public async createLiveProtocol(model: string): Promise<LiveProtocol | null> {
+        if (!this.apiKey) {
+            throw new Error('Deepgram API key is not configured');
+        }
+
+        const params = new URLSearchParams({
+            model,
+            encoding: 'linear16',
+            sample_rate: String(LIVE_SAMPLE_RATE),
+            channels: '1',
+            interim_results: 'true',
+            smart_format: 'true'
+        });
+        // Streaming has no detect_language; Nova-3 follows mixed or unknown languages with `multi`.
+        const language = this.getTranscriptionLanguage() ?? (model.startsWith('nova-3') ? 'multi' : undefined);
+        if (language) {
+            params.set('language', language);
+        }
+
+        return {
+            url: `${this.getApiBaseUrl().replace(/^http/, 'ws')}${this.getTranscriptionEndpoint()}?${params.toString()}`,
+            protocols: ['token', this.apiKey],
+            parseMessage: message => this.parseLiveMessage(message),
+            finishMessage: JSON.stringify({ type: 'CloseStream' }),
+            // Deepgram closes a stream that has had no audio for 10 seconds.
+            keepAliveMessage: JSON.stringify({ type: 'KeepAlive' }),
+            reportUsage: audioSeconds => this.reportUsage(model, { audioSeconds })
+        };
+    }
+
+    private parseLiveMessage(message: string): LiveResult | null {
+        const data = JSON.parse(message) as DeepgramLiveMessage;
+        if (data.type === 'Error') {
+            throw new Error(data.description || 'Deepgram reported a streaming error');
+        }
+        if (data.type !== 'Results') {
+            return null;
         }
+        return {
+            text: data.channel?.alternatives?.[0]?.transcript ?? '',
+            isFinal: data.is_final === true,
+            endSeconds: (data.start ?? 0) + (data.duration ?? 0)
+        };
     }
 
     // Deepgram uses "Token" instead of "Bearer"
@@ -0,0 +1,51 @@
+// src/adapters/EchoAdapter.test.ts
+//
+// Tests for the Echo stand-in provider:
+//  - transcripts and completions come from the fixture folder, JSON before plain text;
+//  - without fixtures, the same input always gives the same output.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EchoAdapter, FixtureAdapter } from './EchoAdapter';
+import { DEFAULT_SETTINGS } from '../settings/Settings';
+
+function fixtures(files: Record<string, string>): FixtureAdapter {
+    return {
+        exists: path => Promise.resolve(path === 'fixtures' || path in files),
+        read: path => Promise.resolve(files[path])
+    };
+}
+
+const settings = { ...DEFAULT_SETTINGS, echoFixtureFolder: 'fixtures' };
+const audio = new ArrayBuffer(1024);
+
+describe('EchoAdapter', () => {
+    it('answers from the fixture folder', async () => {
+        const adapter = new EchoAdapter(settings, fixtures({
+            'fixtures/transcript.json': JSON.stringify({
+                text: 'Hello world.',
+                segments: [{ start: 0, end: 1, text: 'Hello world.' }],
+                language: 'en'
+            }),
+            'fixtures/transcript.txt': 'ignored while transcript.json exists',
+            'fixtures/completion.txt': '## Summary\n- greeting\n'
+        }));
+
+        const transcript = await adapter.transcribeAudio(audio, 'echo-transcribe');
+        assert.equal(transcript.text, 'Hello world.');
+        assert.equal(transcript.segments.length, 1);
+        assert.equal(transcript.language, 'en');
+        assert.equal(await adapter.generateResponse('Summarize', 'echo-complete'), '## Summary\n- greeting');
+        assert.equal(await adapter.testConnection(), null);
+    });
+
+    it('describes the audio and echoes the prompt without fixtures', async () => {
+        const adapter = new EchoAdapter(settings, fixtures({}));
+
+        const transcript = await adapter.transcribeAudio(audio, 'echo-transcribe');
+        assert.equal(transcript.text, 'Echo transcript of 1024 bytes of audio.');
+        assert.deepEqual(transcript.segments, []);
+        assert.equal(await adapter.generateResponse('Summarize this', 'echo-complete'), 'Summarize this');
+        assert.equal(new EchoAdapter(DEFAULT_SETTINGS, fixtures({})).isConfigured(), false);
+    });
+});
@@ -0,0 +1,138 @@
+import { normalizePath } from 'obsidian';
+import { AIAdapter, AIProvider, ModelCapabilities, TextGenerationOptions } from './AIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { TranscriptResult, TranscriptSegment } from '../types';
+import { transcriptFromText } from '../utils/transcription/TranscriptBuilder';
+
+/**
+ * The subset of Obsidian's DataAdapter that EchoAdapter reads fixtures with. Narrowed so
+ * tests can supply their own implementation.
+ */
+export interface FixtureAdapter {
+    exists(path: string): Promise<boolean>;
+    read(path: string): Promise<string>;
+}
+
+/** `transcript.json` in the fixture folder: a transcript with optional timings. */
+interface TranscriptFixture {
+    text: string;
+    segments?: TranscriptSegment[];
+    language?: string;
+}
+
+/**
+ * A stand-in provider for trying out and testing the recording, streaming and
+ * post-processing flows without an account or network. Answers come from files in the
+ * fixture folder set in settings:
+ *
+ * - `transcript.json` (`{ text, segments?, language? }`) or `transcript.txt` for transcriptions;
+ * - `completion.txt` for post-processing.
+ *
+ * Without a fixture, transcriptions describe the audio they were given and completions
+ * echo the prompt back, so the same input always gives the same output.
+ */
+export class EchoAdapter extends AIAdapter {
+    constructor(settings: NeuroVoxSettings, private files: FixtureAdapter) {
+        super(settings, AIProvider.Echo);
+    }
+
+    getApiKey(): string {
+        // Nothing to authenticate with.
+        return '';
+    }
+
+    protected setApiKeyInternal(_key: string): void {
+        // No-op: nothing to authenticate with.
+    }
+
+    protected getApiBaseUrl(): string {
+        return '';
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        return '';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        const folder = this.getFolder();
+        if (!(await this.files.exists(folder))) {
+            throw new Error(`Fixture folder not found: ${folder}`);
+        }
+        return true;
+    }
+
+    protected parseTextGenerationResponse(): never {
+        throw new Error('Echo completions are read from fixtures');
+    }
+
+    protected parseTranscriptionResponse(): never {
+        throw new Error('Echo transcripts are read from fixtures');
+    }
+
+    /** Local stand-in: no key involved. */
+    public requiresApiKey(): boolean {
+        return false;
+    }
+
+    public isConfigured(): boolean {
+        return !!this.settings.echoFixtureFolder.trim();
+    }
+
+    public isReady(_category: 'transcription' | 'language' = 'transcription'): boolean {
+        return this.isConfigured();
+    }
+
+    /** Takes any audio, since it never reads it; timings come from the fixture. */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: Infinity,
+            inputFormats: undefined,
+            timestamps: true,
+            languageHint: false,
+            promptBiasing: false
+        };
+    }
+
+    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, _model: string, signal?: AbortSignal): Promise<TranscriptResult> {
+        try {
+            this.throwIfAborted(signal);
+            const json = await this.readFixture('transcript.json');
+            if (json !== null) {
+                const fixture = JSON.parse(json) as TranscriptFixture;
+                if (typeof fixture?.text !== 'string') {
+                    throw new Error('transcript.json has no "text"');
+                }
+                return { text: fixture.text, segments: fixture.segments ?? [], language: fixture.language };
+            }
+            const text = await this.readFixture('transcript.txt');
+            return transcriptFromText(text?.trim() ?? `Echo transcript of ${audioArrayBuffer.byteLength} bytes of audio.`);
+        } catch (error) {
+            throw this.wrapError('Failed to transcribe audio with Echo', error);
+        }
+    }
+
+    public async generateResponse(prompt: string, _model: string, options?: TextGenerationOptions): Promise<string> {
+        try {
+            const completion = (await this.readFixture('completion.txt'))?.trim() ?? prompt;
+            options?.onText?.(completion);
+            return completion;
+        } catch (error) {
+            throw this.wrapError('Failed to generate response', error);
+        }
+    }
+
+    private getFolder(): string {
+        return normalizePath(this.settings.echoFixtureFolder.trim());
+    }
+
+    /** A fixture file's contents, or null when the folder doesn't have it. */
+    private async readFixture(name: string): Promise<string | null> {
+        const path = `${this.getFolder()}/${name}`;
+        return (await this.files.exists(path)) ? this.files.read(path) : null;
+    }
+}
@@ -0,0 +1,123 @@
+import { AIAdapter, AIProvider, ModelCapabilities } from './AIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { ChatCompletionResponse, ElevenLabsTranscriptionResponse, TranscriptResult } from '../types';
+import { segmentsFromWords } from '../utils/transcription/TranscriptBuilder';
+
+/**
+ * Reduces a Scribe response to its transcript and spoken words, dropping the `spacing` and
+ * `audio_event` entries but keeping per-word timing and speaker ids.
+ */
+export function parseScribeResponse(response: ElevenLabsTranscriptionResponse): TranscriptResult {
+    if (typeof response?.text !== 'string') {
+        throw new Error('Invalid transcription response format from ElevenLabs');
+    }
+    const words = (response.words ?? [])
+        .filter(word => word.type === 'word')
+        .map(word => ({
+            text: word.text,
+            start: word.start ?? 0,
+            end: word.end ?? word.start ?? 0,
+            speaker: word.speaker_id
+        }));
+    return {
+        text: response.text,
+        segments: segmentsFromWords(words),
+        words,
+        language: response.language_code
+    };
+}
+
+/**
+ * ElevenLabs Scribe speech-to-text. Multipart like OpenAI's endpoint but with its own field
+ * names (`model_id` instead of `model`) and `xi-api-key` auth, so the request preparation and
+ * auth headers are overridden (mirrors DeepgramAdapter / AssemblyAIAdapter).
+ */
+export class ElevenLabsAdapter extends AIAdapter {
+    private apiKey: string = '';
+
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.ElevenLabs);
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+
+    protected setApiKeyInternal(key: string): void {
+        this.apiKey = key;
+    }
+
+    protected getApiBaseUrl(): string {
+        return 'https://api.elevenlabs.io';
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        // ElevenLabs is used for transcription only.
+        return '';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        return '/v1/speech-to-text';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        if (!this.apiKey) {
+            return false;
+        }
+
+        // /v1/models is authenticated and free (no credit spend).
+        const response = await this.makeAPIRequest<unknown[]>(
+            `${this.getApiBaseUrl()}/v1/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response);
+    }
+
+    protected parseTextGenerationResponse(_response: ChatCompletionResponse): string {
+        throw new Error('Text generation not supported by ElevenLabs');
+    }
+
+    protected parseTranscriptionResponse(response: ElevenLabsTranscriptionResponse): TranscriptResult {
+        return parseScribeResponse(response);
+    }
+
+    protected async prepareTranscriptionRequest(audioArrayBuffer: ArrayBuffer, model: string): Promise<{
+        headers: Record<string, string>;
+        body: ArrayBuffer;
+    }> {
+        const language = this.getTranscriptionLanguage();
+        return this.buildMultipartRequest(audioArrayBuffer, {
+            model_id: model,
+            ...(language ? { language_code: language } : {}),
+            timestamps_granularity: 'word',
+            ...(this.settings.identifySpeakers ? { diarize: 'true' } : {})
+        });
+    }
+
+    /** Scribe takes files up to 3GB in any common format, and has no way to pass a glossary. */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: 3 * 1024 * 1024 * 1024,
+            inputFormats: undefined,
+            timestamps: true,
+            diarization: true,
+            promptBiasing: false
+        };
+    }
+
+    /**
+     * The request is synchronous: the response arrives only once the whole file is
+     * transcribed, so long uploads need more than the default budget.
+     */
+    public getTranscriptionTimeoutMs(): number {
+        return 300_000;
+    }
+
+    // ElevenLabs uses "xi-api-key" instead of "Authorization: Bearer"
+    protected getAuthHeaders(): Record<string, string> {
+        return { 'xi-api-key': this.getApiKey() };
+    }
+}
@@ -0,0 +1,247 @@
+import { arrayBufferToBase64 } from 'obsidian';
+import { AIAdapter, AIModel, AIProvider, getModelInfo, ModelCapabilities, TextGenerationOptions, TranscriptionOptions } from './AIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { GeminiGenerateContentResponse, GeminiModelListResponse, TokenUsage, TranscriptResult } from '../types';
+import { transcriptFromText } from '../utils/transcription/TranscriptBuilder';
+import { detectAudioFormat } from '../utils/audio/AudioDecoder';
+
+const TRANSCRIPTION_INSTRUCTION =
+    'Transcribe this audio verbatim in the language it is spoken. ' +
+    'Return only the transcript text, without timestamps, speaker labels or commentary. ' +
+    'If there is no speech, return an empty response.';
+
+// The MIME types Gemini documents for the audio formats it reads.
+const AUDIO_MIME_TYPES: Record<string, string> = {
+    aac: 'audio/aac',
+    aiff: 'audio/aiff',
+    flac: 'audio/flac',
+    mp3: 'audio/mp3',
+    ogg: 'audio/ogg',
+    wav: 'audio/wav'
+};
+
+// Gemini 2.5 and later think before answering, out of the same maxOutputTokens as the answer.
+const THINKING_MODEL = /^gemini-(2\.5|[3-9])/;
+const THINKING_TOKEN_BUDGET = 8192;
+
+/**
+ * Google Gemini via the Generative Language API. One key and one wire format serve both
+ * categories: transcription sends the audio inline to `generateContent` together with a
+ * transcription instruction, post-processing sends the prompt as text. Neither is
+ * OpenAI-shaped, so transcribeAudio and the body/response handling are overridden
+ * (mirrors DeepgramAdapter / AssemblyAIAdapter).
+ */
+export class GeminiAdapter extends AIAdapter {
+    private apiKey: string = '';
+
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.Gemini);
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+
+    protected setApiKeyInternal(key: string): void {
+        this.apiKey = key;
+    }
+
+    protected getApiBaseUrl(): string {
+        return 'https://generativelanguage.googleapis.com/v1beta';
+    }
+
+    protected getTextGenerationEndpoint(model: string): string {
+        return `/models/${model}:generateContent`;
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        // Transcription goes through generateContent too; see transcribeAudio.
+        return '';
+    }
+
+    protected getModelListEndpoint(): string | null {
+        // The default page size (50) can cut the catalog short.
+        return '/models?pageSize=1000';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        if (!this.apiKey) {
+            return false;
+        }
+
+        // /models is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<GeminiModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.models);
+    }
+
+    /** generateContent streams from a different endpoint, in its own format. */
+    protected supportsTextStreaming(): boolean {
+        return false;
+    }
+
+    /**
+     * Thinking models get a fixed thinking budget on top of the answer's tokens, so thoughts
+     * can't use up the answer's share and leave it empty. The model's own limit still caps
+     * the total, or the request is rejected.
+     */
+    protected buildTextGenerationBody(
+        prompt: string,
+        model: string,
+        options?: TextGenerationOptions
+    ): Record<string, unknown> {
+        const maxTokens = options?.maxTokens || 1000;
+        const thinking = THINKING_MODEL.test(model);
+        return {
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            ...(options?.system ? { systemInstruction: { parts: [{ text: options.system }] } } : {}),
+            generationConfig: {
+                maxOutputTokens: Math.min(
+                    thinking ? maxTokens + THINKING_TOKEN_BUDGET : maxTokens,
+                    getModelInfo(model)?.maxTokens ?? Infinity
+                ),
+                temperature: options?.temperature ?? 0.7,
+                ...(thinking ? { thinkingConfig: { thinkingBudget: THINKING_TOKEN_BUDGET } } : {}),
+            },
+        };
+    }
+
+    protected parseTextGenerationResponse(response: GeminiGenerateContentResponse): string {
+        const text = this.extractText(response);
+        if (text) {
+            return text;
+        }
+        throw new Error(`Invalid response format from Gemini${this.describeEmptyResponse(response)}`);
+    }
+
+    protected parseTokenUsage(response: GeminiGenerateContentResponse): TokenUsage {
+        return {
+            promptTokens: response?.usageMetadata?.promptTokenCount,
+            completionTokens: response?.usageMetadata?.candidatesTokenCount
+        };
+    }
+
+    protected parseTranscriptionResponse(response: GeminiGenerateContentResponse): TranscriptResult {
+        if (response?.candidates?.length) {
+            // Silence legitimately yields an empty transcript. Generated text carries no timing.
+            return transcriptFromText(this.extractText(response).trim());
+        }
+        throw new Error(`Invalid transcription response format from Gemini${this.describeEmptyResponse(response)}`);
+    }
+
+    /**
+     * Keeps models that support generateContent, strips the `models/` prefix from their ids
+     * and uses the reported output token limit.
+     */
+    protected parseModelList(response: GeminiModelListResponse): AIModel[] {
+        if (!Array.isArray(response?.models)) return [];
+        return response.models
+            .filter(m => m.supportedGenerationMethods?.includes('generateContent') ?? true)
+            .map(m => {
+                const id = m.name.replace(/^models\//, '');
+                return {
+                    id,
+                    name: m.displayName || id,
+                    category: 'language' as const,
+                    maxTokens: m.outputTokenLimit
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Audio is sent inline (base64) and the model produces the transcript as generated
+     * text, which takes longer than a dedicated speech-to-text endpoint.
+     */
+    public getTranscriptionTimeoutMs(): number {
+        return 300_000;
+    }
+
+    /**
+     * Audio goes inline as base64 (+33%) and a request may be at most 20MB. Gemini reads
+     * 9.5 hours of audio at most, and neither WebM nor M4A.
+     */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: 15 * 1024 * 1024,
+            maxDurationSeconds: 9.5 * 60 * 60,
+            inputFormats: ['aac', 'aiff', 'flac', 'mp3', 'ogg', 'wav']
+        };
+    }
+
+    // Override transcribeAudio: Gemini takes the audio as an inline part of a generateContent call
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
+        try {
+            this.throwIfAborted(signal);
+            const format = detectAudioFormat(audioArrayBuffer);
+            const mimeType = format ? AUDIO_MIME_TYPES[format] : undefined;
+            if (!mimeType) {
+                throw new Error(`Gemini can't read ${format ?? 'this'} audio; convert it to WAV first`);
+            }
+            const body = {
+                contents: [{
+                    role: 'user',
+                    parts: [
+                        { text: this.getTranscriptionInstruction(options?.vocabulary) },
+                        { inline_data: { mime_type: mimeType, data: arrayBufferToBase64(audioArrayBuffer) } }
+                    ]
+                }],
+                // Transcription should be deterministic.
+                generationConfig: { temperature: 0 }
+            };
+
+            const response = await this.makeAPIRequest<GeminiGenerateContentResponse>(
+                `${this.getApiBaseUrl()}${this.getTextGenerationEndpoint(model)}`,
+                'POST',
+                { 'Content-Type': 'application/json' },
+                JSON.stringify(body)
+            );
+
+            const result = this.parseTranscriptionResponse(response);
+            // Gemini bills audio as input tokens, so the tokens are what the ledger prices.
+            this.reportUsage(model, this.parseTokenUsage(response));
+            return result;
+        } catch (error) {
+            throw this.wrapError('Failed to transcribe audio with Gemini', error);
+        }
+    }
+
+    private getTranscriptionInstruction(vocabulary?: string[]): string {
+        let instruction = TRANSCRIPTION_INSTRUCTION;
+        const language = this.getTranscriptionLanguage();
+        if (language) {
+            instruction += ` The speech is in the language with ISO 639-1 code "${language}".`;
+        }
+        if (vocabulary?.length) {
+            instruction += ` Spell these names and terms exactly as written when they occur: ${vocabulary.join(', ')}.`;
+        }
+        return instruction;
+    }
+
+    private extractText(response: GeminiGenerateContentResponse): string {
+        return (response?.candidates?.[0]?.content?.parts ?? [])
+            .map(part => part.text ?? '')
+            .join('');
+    }
+
+    /** Safety blocks come back as 200s with no text; surface the reason instead of a bare "invalid format". */
+    private describeEmptyResponse(response: GeminiGenerateContentResponse): string {
+        const reason = response?.promptFeedback?.blockReason || response?.candidates?.[0]?.finishReason;
+        return reason ? ` (${reason})` : '';
+    }
+
+    // Gemini uses "x-goog-api-key" instead of "Authorization: Bearer"
+    protected getAuthHeaders(): Record<string, string> {
+        return { 'x-goog-api-key': this.getApiKey() };
+    }
+}
@@ -1,6 +1,6 @@
 import { AIAdapter, AIProvider } from './AIAdapter';
 import { NeuroVoxSettings } from '../settings/Settings';
-import { ChatCompletionResponse, TranscriptionResponse } from '../types';
+import { ChatCompletionResponse, ModelListResponse, TranscriptionResponse, TranscriptResult } from '../types';
 
 export class GroqAdapter extends AIAdapter {
     private apiKey: string = '';
@@ -29,29 +29,28 @@ export class GroqAdapter extends AIAdapter {
         return '/audio/transcriptions';
     }
 
+    protected getTranscriptionModelListEndpoint(): string | null {
+        return '/models';
+    }
+
+    // Of Groq's Whisper models only the full whisper-large-v3 translates; turbo does not.
+    protected getTranslationEndpoint(model: string): string | null {
+        return model === 'whisper-large-v3' ? '/audio/translations' : null;
+    }
+
     protected async validateApiKeyImpl(): Promise<boolean> {
         if (!this.apiKey) {
             return false;
         }
 
-        try {
-            // Try a minimal completion request to validate the API key
-            await this.makeAPIRequest(
-                `${this.getApiBaseUrl()}/chat/completions`,
-                'POST',
-                {
-                    'Content-Type': 'application/json'
-                },
-                JSON.stringify({
-                    model: 'llama-3.1-8b-instant',
-                    messages: [{ role: 'user', content: 'test' }],
-                    max_tokens: 1
-                })
-            );
-            return true;
-        } catch {
-            return false;
-        }
+        // /models is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
     }
 
     protected parseTextGenerationResponse(response: ChatCompletionResponse): string {
@@ -61,10 +60,11 @@ export class GroqAdapter extends AIAdapter {
         throw new Error('Invalid response format from Groq');
     }
 
-    protected parseTranscriptionResponse(response: TranscriptionResponse): string {
-        if (response?.text) {
-            return response.text;
-        }
-        throw new Error('Invalid transcription response format from Groq');
+    protected parseTranscriptionResponse(response: TranscriptionResponse): TranscriptResult {
+        return this.parseOpenAITranscription(response, 'Groq');
+    }
+
+    protected supportsVerboseTranscription(model: string): boolean {
+        return model.startsWith('whisper');
     }
 }
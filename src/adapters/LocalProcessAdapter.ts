@@ -0,0 +1,252 @@
+import { Platform } from 'obsidian';
+import { AIAdapter, AIProvider, AIModel, ModelCapabilities, TranscriptionOptions } from './AIAdapter';
+import { LocalWhisperEngine, NeuroVoxSettings } from '../settings/Settings';
+import { TranscriptResult } from '../types';
+import { decodeToMono, encodeWav } from '../utils/audio/AudioDecoder';
+import { desktopRequire } from '../utils/FileUtils';
+import { toVocabularyPrompt } from '../utils/transcription/Glossary';
+import { parseSrt, parseWhisperJson } from '../utils/transcription/WhisperOutput';
+
+/** The parts of Node's child_process and fs used here. */
+interface ChildProcess {
+    stderr: { on(event: 'data', listener: (chunk: Uint8Array) => void): void } | null;
+    on(event: 'error', listener: (error: Error) => void): void;
+    on(event: 'close', listener: (code: number | null) => void): void;
+    kill(): boolean;
+}
+
+interface NodeModules {
+    spawn(command: string, args: string[], options: { windowsHide: boolean }): ChildProcess;
+    fs: {
+        mkdtemp(prefix: string): Promise<string>;
+        writeFile(path: string, data: Uint8Array): Promise<void>;
+        readFile(path: string, encoding: 'utf8'): Promise<string>;
+        access(path: string): Promise<void>;
+        rm(path: string, options: { recursive: boolean; force: boolean }): Promise<void>;
+    };
+    tmpdir(): string;
+    join(...parts: string[]): string;
+}
+
+// whisper.cpp only reads 16 kHz WAV, and the Whisper models work at that rate anyway.
+const SAMPLE_RATE = 16000;
+
+// Kept for error messages: the end of stderr is where both CLIs say what went wrong.
+const STDERR_TAIL_CHARS = 500;
+
+/**
+ * Runs a Whisper binary installed on this computer: whisper.cpp's `whisper-cli`, or a
+ * faster-whisper CLI with openai-whisper's options (whisper-ctranslate2, faster-whisper-xxl).
+ * Each call writes the audio to a temp folder as 16 kHz WAV, runs the binary on it and reads
+ * the transcript file it leaves behind. Desktop only; audio never leaves the machine.
+ *
+ * The catalog's two model ids name the engine, i.e. how the binary is called; the binary
+ * and the Whisper model it loads come from settings.
+ */
+export class LocalProcessAdapter extends AIAdapter {
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.LocalProcess);
+    }
+
+    getApiKey(): string {
+        // A local binary has no authentication.
+        return '';
+    }
+
+    protected setApiKeyInternal(_key: string): void {
+        // No-op: a local binary has no authentication.
+    }
+
+    protected getApiBaseUrl(): string {
+        return '';
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        return '';
+    }
+
+    /** Checks that the binary starts and, for whisper.cpp, that the model file exists. */
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        const node = this.requireNode();
+        if (this.settings.localWhisperEngine === 'whisper-cpp') {
+            await node.fs.access(this.settings.localWhisperModel).catch(() => {
+                throw new Error(`Model file not found: ${this.settings.localWhisperModel}`);
+            });
+        }
+        await this.run(node, ['--help']);
+        return true;
+    }
+
+    protected parseTextGenerationResponse(): never {
+        throw new Error('Text generation not supported by a local Whisper binary');
+    }
+
+    protected parseTranscriptionResponse(): never {
+        throw new Error('Local Whisper transcripts are read from the output file');
+    }
+
+    /** Local binary: no key involved. */
+    public requiresApiKey(): boolean {
+        return false;
+    }
+
+    public isConfigured(): boolean {
+        return Platform.isDesktopApp
+            && !!this.settings.localWhisperBinary.trim()
+            && !!this.settings.localWhisperModel.trim();
+    }
+
+    public isReady(_category: 'transcription' | 'language' = 'transcription'): boolean {
+        return this.isConfigured();
+    }
+
+    /** Only the engine the binary is for is offered. */
+    public getAvailableModels(category: 'transcription' | 'language'): AIModel[] {
+        return super.getAvailableModels(category).filter(model => model.id === this.settings.localWhisperEngine);
+    }
+
+    /**
+     * The audio is decoded and written out as WAV whatever its length or format. Both CLIs
+     * write timed segments, take an initial prompt and translate to English themselves.
+     */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: Infinity,
+            inputFormats: undefined,
+            timestamps: true,
+            translation: true
+        };
+    }
+
+    /**
+     * Whisper on a CPU can run several times slower than real time, and each run loads the
+     * model from disk first.
+     */
+    public getTranscriptionTimeoutMs(): number {
+        return 900_000;
+    }
+
+    public async transcribeAudio(
+        audioArrayBuffer: ArrayBuffer,
+        model: string,
+        signal?: AbortSignal,
+        options?: TranscriptionOptions
+    ): Promise<TranscriptResult> {
+        try {
+            this.throwIfAborted(signal);
+            const node = this.requireNode();
+            const samples = await decodeToMono(audioArrayBuffer, SAMPLE_RATE);
+            const dir = await node.fs.mkdtemp(node.join(node.tmpdir(), 'neurovox-'));
+            try {
+                const input = node.join(dir, 'input.wav');
+                await node.fs.writeFile(input, new Uint8Array(encodeWav(samples, SAMPLE_RATE)));
+                this.throwIfAborted(signal);
+                await this.run(node, this.buildArgs(model as LocalWhisperEngine, input, dir, options), signal);
+                return await this.readTranscript(node, node.join(dir, 'input'));
+            } finally {
+                await node.fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+            }
+        } catch (error) {
+            throw this.wrapError('Failed to transcribe audio with the local Whisper binary', error);
+        }
+    }
+
+    /** Command-line arguments for one run. Both engines name their output `<dir>/input.*`. */
+    private buildArgs(engine: LocalWhisperEngine, input: string, dir: string, options?: TranscriptionOptions): string[] {
+        const language = this.getTranscriptionLanguage();
+        const prompt = options?.vocabulary?.length ? toVocabularyPrompt(options.vocabulary) : '';
+        const extra = splitArgs(this.settings.localWhisperArgs);
+
+        if (engine === 'whisper-cpp') {
+            return [
+                '-m', this.settings.localWhisperModel.trim(),
+                '-f', input,
+                '-oj', '-of', input.replace(/\.wav$/, ''),
+                '-np',
+                '-l', language || 'auto',
+                ...(options?.translate ? ['-tr'] : []),
+                ...(prompt ? ['--prompt', prompt] : []),
+                ...extra
+            ];
+        }
+        if (engine === 'faster-whisper') {
+            return [
+                input,
+                '--model', this.settings.localWhisperModel.trim(),
+                '--output_dir', dir,
+                '--output_format', 'json',
+                '--task', options?.translate ? 'translate' : 'transcribe',
+                ...(language ? ['--language', language] : []),
+                ...(prompt ? ['--initial_prompt', prompt] : []),
+                ...extra
+            ];
+        }
+        throw new Error(`Unknown local Whisper engine: ${String(engine)}`);
+    }
+
+    /** The JSON transcript, or the SRT one when the extra arguments asked for that instead. */
+    private async readTranscript(node: NodeModules, base: string): Promise<TranscriptResult> {
+        const json = await node.fs.readFile(`${base}.json`, 'utf8').catch(() => null);
+        if (json !== null) {
+            return parseWhisperJson(json);
+        }
+        const srt = await node.fs.readFile(`${base}.srt`, 'utf8').catch(() => null);
+        if (srt !== null) {
+            return parseSrt(srt);
+        }
+        throw new Error('The binary finished without writing a transcript');
+    }
+
+    /** Runs the binary to completion. Aborting kills it. */
+    private run(node: NodeModules, args: string[], signal?: AbortSignal): Promise<void> {
+        const binary = this.settings.localWhisperBinary.trim();
+        return new Promise((resolve, reject) => {
+            const child = node.spawn(binary, args, { windowsHide: true });
+            let stderr = '';
+            const decoder = new TextDecoder();
+            const onAbort = () => {
+                child.kill();
+                reject(new Error('Transcription aborted'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            child.stderr?.on('data', chunk => {
+                stderr = (stderr + decoder.decode(chunk, { stream: true })).slice(-STDERR_TAIL_CHARS);
+            });
+            child.on('error', error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(new Error(`Could not start ${binary}: ${error.message}`));
+            });
+            child.on('close', code => {
+                signal?.removeEventListener('abort', onAbort);
+                if (code === 0) {
+                    resolve();
+                } else {
+                    const detail = stderr.trim().split('\n').slice(-3).join(' ');
+                    reject(new Error(`${binary} exited with code ${String(code)}${detail ? `: ${detail}` : ''}`));
+                }
+            });
+        });
+    }
+
+    private requireNode(): NodeModules {
+        if (!Platform.isDesktopApp) {
+            throw new Error('A local Whisper binary can only be used on desktop');
+        }
+        const { spawn } = desktopRequire<Pick<NodeModules, 'spawn'>>('child_process');
+        const { promises: fs } = desktopRequire<{ promises: NodeModules['fs'] }>('fs');
+        const { tmpdir } = desktopRequire<Pick<NodeModules, 'tmpdir'>>('os');
+        const { join } = desktopRequire<Pick<NodeModules, 'join'>>('path');
+        return { spawn, fs, tmpdir, join };
+    }
+}
+
+/** Splits the extra-arguments setting on spaces, keeping quoted values together. */
+export function splitArgs(value: string): string[] {
+    return (value.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(arg => arg.replace(/^(["'])(.*)\1$/, '$2'));
+}
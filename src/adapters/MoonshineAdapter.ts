@@ -1,11 +1,15 @@
 import { Notice } from 'obsidian';
-import { AIAdapter, AIProvider } from './AIAdapter';
+import { AIAdapter, AIProvider, ModelCapabilities } from './AIAdapter';
 import { NeuroVoxSettings } from '../settings/Settings';
 import {
     MoonshineTranscriptionResponse,
-    TransformersProgressData
+    TransformersProgressData,
+    TranscriptResult
 } from '../types';
-import { ASRPipeline, createASRPipeline, isTransformersLoaded } from '../utils/TransformersLoader';
+import { ASRPipeline, createASRPipeline, destroyTransformers, isTransformersLoaded } from '../utils/TransformersLoader';
+import type { LocalModelStore } from '../utils/LocalModelStore';
+import { transcriptFromText } from '../utils/transcription/TranscriptBuilder';
+import { decodeToMono } from '../utils/audio/AudioDecoder';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -14,6 +18,8 @@ import { Logger } from '../utils/Logger';
 export enum MoonshineModelStatus {
     NotDownloaded = 'not_downloaded',
     Downloading = 'downloading',
+    /** On disk but not loaded; the first transcription loads it. */
+    Downloaded = 'downloaded',
     Ready = 'ready',
     Error = 'error'
 }
@@ -24,8 +30,13 @@ export enum MoonshineModelStatus {
 interface MoonshineModelConfig {
     id: string;
     name: string;
+    /** Hugging Face repo with the ONNX export. */
     path: string;
     size: string;
+    /** Weight precision of the ONNX files to load. */
+    dtype: string;
+    /** Whisper models take a language and chunk long audio themselves; Moonshine is English-only. */
+    multilingual: boolean;
 }
 
 const MOONSHINE_MODELS: Record<string, MoonshineModelConfig> = {
@@ -33,21 +44,46 @@ const MOONSHINE_MODELS: Record<string, MoonshineModelConfig> = {
         id: 'moonshine-tiny',
         name: 'Moonshine Tiny',
         path: 'onnx-community/moonshine-tiny-ONNX',
-        size: '~50MB'
+        size: '~30MB',
+        dtype: 'q8',
+        multilingual: false
     },
     'moonshine-base': {
         id: 'moonshine-base',
         name: 'Moonshine Base',
         path: 'onnx-community/moonshine-base-ONNX',
-        size: '~400MB'
+        size: '~65MB',
+        dtype: 'q8',
+        multilingual: false
+    },
+    'whisper-tiny': {
+        id: 'whisper-tiny',
+        name: 'Whisper Tiny',
+        path: 'onnx-community/whisper-tiny',
+        size: '~40MB',
+        dtype: 'q8',
+        multilingual: true
+    },
+    'whisper-base': {
+        id: 'whisper-base',
+        name: 'Whisper Base',
+        path: 'onnx-community/whisper-base',
+        size: '~80MB',
+        dtype: 'q8',
+        multilingual: true
     }
 };
 
+// Moonshine has no chunking of its own and drifts on long inputs, so longer audio is fed
+// to it in windows of this length.
+const MOONSHINE_WINDOW_SECONDS = 30;
+
 /**
- * MoonshineAdapter - Local speech-to-text using Moonshine models
+ * MoonshineAdapter - Local speech-to-text using Moonshine and Whisper models
  *
- * This adapter runs entirely locally in the browser using WebGPU/WASM,
- * with no API calls or internet required after model download.
+ * Runs entirely on this device with transformers.js on a CPU-only WASM runtime (see
+ * TransformersLoader). Model files come from the plugin folder, downloaded once from the
+ * Hugging Face hub, or from a folder the user points it at; audio is never sent anywhere.
  */
 export class MoonshineAdapter extends AIAdapter {
     private modelStatus: Map<string, MoonshineModelStatus> = new Map();
@@ -56,7 +92,11 @@ export class MoonshineAdapter extends AIAdapter {
     private isInitializing: boolean = false;
     private downloadProgress: number = 0;
 
-    constructor(settings: NeuroVoxSettings) {
+    constructor(
+        settings: NeuroVoxSettings,
+        private getModelStore: () => LocalModelStore,
+        private runtimeStore: LocalModelStore
+    ) {
         super(settings, AIProvider.Moonshine);
 
         // Initialize model status
@@ -110,13 +150,13 @@ export class MoonshineAdapter extends AIAdapter {
         throw new Error('Text generation not supported by Moonshine');
     }
 
-    protected parseTranscriptionResponse(response: MoonshineTranscriptionResponse | string): string {
-        // The transcription response from Moonshine is already a string
+    protected parseTranscriptionResponse(response: MoonshineTranscriptionResponse | string): TranscriptResult {
+        // The transcription response from Moonshine is already a string (run without timestamps)
         if (typeof response === 'string') {
-            return response;
+            return transcriptFromText(response);
         }
         if (response?.text) {
-            return response.text;
+            return transcriptFromText(response.text);
         }
         throw new Error('Invalid transcription response from Moonshine');
     }
@@ -125,6 +165,24 @@ export class MoonshineAdapter extends AIAdapter {
     // Override base class methods
     // ========================================
 
+    /** Local model: no key involved. */
+    public requiresApiKey(): boolean {
+        return false;
+    }
+
+    /**
+     * Any audio the browser decodes, of any length: it is decoded and windowed on the device.
+     * Plain text comes back, and there is no way to pass a glossary.
+     */
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return {
+            ...super.getDefaultCapabilities(model),
+            maxUploadBytes: Infinity,
+            inputFormats: undefined,
+            promptBiasing: false
+        };
+    }
+
     /**
      * Check if the adapter is ready for transcription
      */
@@ -135,7 +193,7 @@ export class MoonshineAdapter extends AIAdapter {
     }
 
     /**
-     * First use may download a model (up to ~400MB), which dwarfs the base HTTP budget;
+     * First use may download and load a model, which dwarfs the base HTTP budget;
      * the streaming drain must wait it out rather than dropping the segment.
      */
     public getTranscriptionTimeoutMs(): number {
@@ -145,7 +203,7 @@ export class MoonshineAdapter extends AIAdapter {
     /**
      * Transcribe audio using local Moonshine model
      */
-    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, model: string, signal?: AbortSignal): Promise<string> {
+    public async transcribeAudio(audioArrayBuffer: ArrayBuffer, model: string, signal?: AbortSignal): Promise<TranscriptResult> {
         Logger.log('[Moonshine] Starting transcription, audio size:', audioArrayBuffer.byteLength, 'model:', model);
         try {
             // Ensure the model is loaded
@@ -161,14 +219,13 @@ export class MoonshineAdapter extends AIAdapter {
             Logger.log('[Moonshine] Created audio blob, size:', audioBlob.size);
 
             // Use the transcriber to process the audio
-            const result = await this.transcribeBlob(audioBlob);
+            const result = await this.transcribeBlob(audioBlob, MOONSHINE_MODELS[model]);
             Logger.log('[Moonshine] Transcription result:', result);
 
             return this.parseTranscriptionResponse(result);
         } catch (error) {
             console.error('[Moonshine] Transcription error:', error);
-            const message = this.getErrorMessage(error);
-            throw new Error(`Failed to transcribe audio with Moonshine: ${message}`);
+            throw this.wrapError('Failed to transcribe audio with Moonshine', error);
         }
     }
 
@@ -225,23 +282,37 @@ export class MoonshineAdapter extends AIAdapter {
         this.isInitializing = true;
         this.modelStatus.set(modelId, MoonshineModelStatus.Downloading);
         this.downloadProgress = 0;
+        if (this.currentModel && this.currentModel !== modelId) {
+            this.modelStatus.set(this.currentModel, MoonshineModelStatus.Downloaded);
+        }
+        this.transcriber = null;
+        this.currentModel = null;
 
         try {
-            new Notice(`Loading Moonshine ${modelConfig.name} model (${modelConfig.size})... This may take a minute.`);
+            new Notice(`Loading ${modelConfig.name} model (${modelConfig.size})... This may take a minute.`);
 
-            // Use iframe-based loader to load transformers.js
-            // The iframe creates a true browser sandbox that avoids Electron's
-            // Node.js detection issues with onnxruntime-web
+            // Overall progress across the model's files, by bytes
+            const fileBytes = new Map<string, { loaded: number; total: number }>();
             this.transcriber = await createASRPipeline(
                 modelConfig.path,
                 {
+                    dtype: modelConfig.dtype,
+                    files: this.getModelStore(),
+                    runtime: this.runtimeStore,
                     progress_callback: (progress: TransformersProgressData) => {
-                        if (progress.status === 'progress' && progress.progress) {
-                            this.downloadProgress = Math.round(progress.progress);
+                        if (progress.status === 'progress' && progress.file && progress.total) {
+                            fileBytes.set(progress.file, { loaded: progress.loaded ?? 0, total: progress.total });
+                            let loaded = 0;
+                            let total = 0;
+                            fileBytes.forEach(bytes => {
+                                loaded += bytes.loaded;
+                                total += bytes.total;
+                            });
+                            this.downloadProgress = Math.round((loaded / total) * 100);
                         }
                         // Log progress for debugging
                         if (progress.status === 'download') {
-                            Logger.log(`Downloading: ${progress.file}`);
+                            Logger.log(`Loading: ${progress.file}`);
                         }
                     }
                 }
@@ -251,13 +322,13 @@ export class MoonshineAdapter extends AIAdapter {
             this.modelStatus.set(modelId, MoonshineModelStatus.Ready);
             this.downloadProgress = 100;
 
-            new Notice(`Moonshine ${modelConfig.name} model loaded successfully!`);
+            new Notice(`${modelConfig.name} model loaded successfully!`);
         } catch (error) {
             this.modelStatus.set(modelId, MoonshineModelStatus.Error);
             this.transcriber = null;
             this.currentModel = null;
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            console.error('Failed to load Moonshine model:', error);
+            console.error('Failed to load local model:', error);
             new Notice(`Failed to load model: ${errorMessage}`);
             throw error;
         } finally {
@@ -265,6 +336,54 @@ export class MoonshineAdapter extends AIAdapter {
         }
     }
 
+    /**
+     * Re-reads which models are on disk, for models that aren't loaded or loading. Call
+     * on startup and after the model folder changes.
+     */
+    public async refreshModelStatus(): Promise<void> {
+        let store: LocalModelStore;
+        try {
+            store = this.getModelStore();
+        } catch (error) {
+            console.warn('[Moonshine] Model folder unavailable:', error);
+            return;
+        }
+        for (const [modelId, config] of Object.entries(MOONSHINE_MODELS)) {
+            const status = this.getModelStatus(modelId);
+            if (status === MoonshineModelStatus.Ready || status === MoonshineModelStatus.Downloading) {
+                continue;
+            }
+            const onDisk = await store.hasModel(config.path).catch(() => false);
+            this.modelStatus.set(modelId, onDisk ? MoonshineModelStatus.Downloaded : MoonshineModelStatus.NotDownloaded);
+        }
+    }
+
+    /**
+     * Whether missing model files are downloaded into the plugin folder. False when a
+     * model folder is set: its files are used as they are.
+     */
+    public canDownloadModels(): boolean {
+        try {
+            return this.getModelStore().canDownload();
+        } catch {
+            return false;
+        }
+    }
+
+    /** Unloads a model and deletes its downloaded files. Files in a model folder are kept. */
+    public async deleteModel(modelId: string): Promise<void> {
+        const modelConfig = MOONSHINE_MODELS[modelId];
+        if (!modelConfig) {
+            throw new Error(`Unknown local model: ${modelId}`);
+        }
+        if (this.currentModel === modelId) {
+            await this.unloadModel();
+        }
+        const store = this.getModelStore();
+        await store.remove(modelConfig.path);
+        this.modelStatus.set(modelId, store.canDownload() ? MoonshineModelStatus.NotDownloaded : MoonshineModelStatus.Downloaded);
+    }
+
     /**
      * Check if transformers.js library is loaded
      */
@@ -275,7 +394,7 @@ export class MoonshineAdapter extends AIAdapter {
     /**
      * Transcribe a Blob using the loaded model
      */
-    private async transcribeBlob(audioBlob: Blob): Promise<string> {
+    private async transcribeBlob(audioBlob: Blob, modelConfig: MoonshineModelConfig): Promise<string> {
         if (!this.transcriber) {
             throw new Error('Transcriber not initialized');
         }
@@ -283,68 +402,32 @@ export class MoonshineAdapter extends AIAdapter {
         // Convert Blob to ArrayBuffer then to Float32Array for audio processing
         Logger.log('[Moonshine] Decoding audio blob...');
         const arrayBuffer = await audioBlob.arrayBuffer();
-        const audioData = await this.decodeAudioData(arrayBuffer);
+        const audioData = await decodeToMono(arrayBuffer, 16000);
         Logger.log('[Moonshine] Decoded audio, samples:', audioData.length, 'duration:', audioData.length / 16000, 'seconds');
 
         // Run transcription
         Logger.log('[Moonshine] Calling transcriber pipeline...');
-        const result = await this.transcriber(audioData, {
-            language: 'en',
-            return_timestamps: false
-        });
-        Logger.log('[Moonshine] Pipeline returned:', result);
-
-        return result.text || '';
-    }
-
-    /**
-     * Decode audio data from ArrayBuffer to Float32Array
-     */
-    private async decodeAudioData(arrayBuffer: ArrayBuffer): Promise<Float32Array> {
-        // Create an AudioContext for decoding
-        // window.webkitAudioContext is typed in types.ts global declaration
-        const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-        if (!AudioContextClass) {
-            throw new Error('AudioContext not supported in this browser');
+        if (modelConfig.multilingual) {
+            const language = this.getTranscriptionLanguage();
+            const result = await this.transcriber(audioData, {
+                chunk_length_s: 30,
+                stride_length_s: 5,
+                task: 'transcribe',
+                ...(language ? { language } : {})
+            });
+            Logger.log('[Moonshine] Pipeline returned:', result);
+            return result.text || '';
         }
-        const audioContext = new AudioContextClass({ sampleRate: 16000 });
 
-        try {
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-            // Get the first channel (mono)
-            const channelData = audioBuffer.getChannelData(0);
-
-            // If sample rate doesn't match, resample
-            if (audioBuffer.sampleRate !== 16000) {
-                return this.resampleAudio(channelData, audioBuffer.sampleRate, 16000);
-            }
-
-            return channelData;
-        } finally {
-            await audioContext.close();
+        const windowSamples = MOONSHINE_WINDOW_SECONDS * 16000;
+        const parts: string[] = [];
+        for (let start = 0; start < audioData.length; start += windowSamples) {
+            const result = await this.transcriber(audioData.subarray(start, start + windowSamples));
+            parts.push(result.text);
         }
-    }
+        Logger.log('[Moonshine] Pipeline returned:', parts);
 
-    /**
-     * Resample audio to target sample rate
-     */
-    private resampleAudio(audioData: Float32Array, fromRate: number, toRate: number): Float32Array {
-        const ratio = fromRate / toRate;
-        const newLength = Math.round(audioData.length / ratio);
-        const result = new Float32Array(newLength);
-
-        for (let i = 0; i < newLength; i++) {
-            const srcIndex = i * ratio;
-            const srcIndexFloor = Math.floor(srcIndex);
-            const srcIndexCeil = Math.min(srcIndexFloor + 1, audioData.length - 1);
-            const t = srcIndex - srcIndexFloor;
-
-            // Linear interpolation
-            result[i] = audioData[srcIndexFloor] * (1 - t) + audioData[srcIndexCeil] * t;
-        }
-
-        return result;
+        return parts.filter(Boolean).join(' ');
     }
 
     /**
@@ -366,14 +449,16 @@ export class MoonshineAdapter extends AIAdapter {
     }
 
     /**
-     * Unload the current model to free memory
+     * Unload the current model to free memory. Its files stay on disk.
      */
     public async unloadModel(): Promise<void> {
-        if (this.transcriber) {
-            // Transformers.js doesn't have explicit disposal, but we can null the reference
-            this.transcriber = null;
-            this.currentModel = null;
+        // Ending the worker is what releases the WASM memory
+        destroyTransformers();
+        if (this.currentModel) {
+            this.modelStatus.set(this.currentModel, MoonshineModelStatus.Downloaded);
         }
+        this.transcriber = null;
+        this.currentModel = null;
     }
 
     /**
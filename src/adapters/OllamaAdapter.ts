@@ -0,0 +1,120 @@
+import { AIAdapter, AIModel, AIProvider, TextGenerationOptions, toChatMessages } from './AIAdapter';
+import { NeuroVoxSettings } from '../settings/Settings';
+import { OllamaChatResponse, OllamaTagsResponse, TokenUsage } from '../types';
+
+/**
+ * Ollama runs language models on the user's own machine, so post-processing can happen
+ * without the transcript leaving it. Uses Ollama's native API (/api/chat, /api/tags)
+ * rather than its OpenAI shim so installed models are listed with their real names.
+ * Language only: Ollama has no transcription endpoint.
+ */
+export class OllamaAdapter extends AIAdapter {
+    constructor(settings: NeuroVoxSettings) {
+        super(settings, AIProvider.Ollama);
+    }
+
+    getApiKey(): string {
+        // Ollama has no authentication.
+        return '';
+    }
+
+    protected setApiKeyInternal(_key: string): void {
+        // No-op: Ollama has no authentication.
+    }
+
+    protected getApiBaseUrl(): string {
+        return this.settings.ollamaBaseUrl.trim().replace(/\/+$/, '');
+    }
+
+    protected getTextGenerationEndpoint(): string {
+        return '/api/chat';
+    }
+
+    protected getTranscriptionEndpoint(): string {
+        // Ollama does not provide audio transcription.
+        return '';
+    }
+
+    protected getModelListEndpoint(): string | null {
+        return '/api/tags';
+    }
+
+    protected async validateApiKeyImpl(): Promise<boolean> {
+        const response = await this.makeAPIRequest<OllamaTagsResponse>(
+            `${this.getApiBaseUrl()}/api/tags`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.models);
+    }
+
+    /** Checks that the server answers at the configured URL. */
+    public checkConnection(): Promise<boolean> {
+        return this.validateApiKeyImpl().catch(() => false);
+    }
+
+    /** /api/chat streams newline-delimited JSON rather than server-sent events. */
+    protected supportsTextStreaming(): boolean {
+        return false;
+    }
+
+    protected buildTextGenerationBody(
+        prompt: string,
+        model: string,
+        options?: TextGenerationOptions
+    ): Record<string, unknown> {
+        return {
+            model,
+            messages: toChatMessages(prompt, options),
+            stream: false,
+            options: {
+                num_predict: options?.maxTokens || 1000,
+                temperature: options?.temperature ?? 0.7,
+            },
+        };
+    }
+
+    protected parseTextGenerationResponse(response: OllamaChatResponse): string {
+        if (typeof response?.message?.content === 'string') {
+            return response.message.content;
+        }
+        throw new Error('Invalid response format from Ollama');
+    }
+
+    protected parseTokenUsage(response: OllamaChatResponse): TokenUsage {
+        return { promptTokens: response?.prompt_eval_count, completionTokens: response?.eval_count };
+    }
+
+    protected parseTranscriptionResponse(): never {
+        throw new Error('Transcription not supported by Ollama');
+    }
+
+    protected parseModelList(response: OllamaTagsResponse): AIModel[] {
+        if (!Array.isArray(response?.models)) return [];
+        return response.models
+            .map(m => ({
+                id: m.name,
+                name: m.details?.parameter_size ? `${m.name} (${m.details.parameter_size})` : m.name,
+                category: 'language' as const
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /** Local server: no key involved. */
+    public requiresApiKey(): boolean {
+        return false;
+    }
+
+    public isConfigured(): boolean {
+        return !!this.getApiBaseUrl();
+    }
+
+    public isReady(_category: 'transcription' | 'language' = 'transcription'): boolean {
+        return this.isConfigured();
+    }
+
+    protected getAuthHeaders(): Record<string, string> {
+        return {};
+    }
+}
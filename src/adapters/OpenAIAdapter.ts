@@ -1,6 +1,26 @@
-import { AIAdapter, AIProvider } from './AIAdapter';
+import { AIAdapter, AIProvider, ModelCapabilities } from './AIAdapter';
 import { NeuroVoxSettings } from '../settings/Settings';
-import { ChatCompletionResponse, TranscriptionResponse } from '../types';
+import { ChatCompletionResponse, ModelListResponse, TranscriptionResponse, TranscriptResult } from '../types';
+
+// The o-series and GPT-5 reasoning models, dated snapshots included. gpt-5-chat is a regular chat model.
+const REASONING_MODEL_PATTERN = /^(o\d|gpt-5)(?!.*-chat)/;
+
+/**
+ * Reasoning models cap their output with `max_completion_tokens`, run at the default
+ * temperature only, and take a reasoning effort (`minimal` from GPT-5 on). Matched by name,
+ * so models from the live catalog (and Azure deployments of them) are covered too; empty
+ * for other models.
+ */
+export function getReasoningCapabilities(model: string): Partial<ModelCapabilities> {
+    if (!REASONING_MODEL_PATTERN.test(model)) {
+        return {};
+    }
+    return {
+        temperature: false,
+        tokenLimitParameter: 'max_completion_tokens',
+        reasoningEfforts: model.startsWith('gpt-5') ? ['minimal', 'low', 'medium', 'high'] : ['low', 'medium', 'high']
+    };
+}
 
 export class OpenAIAdapter extends AIAdapter {
     private apiKey: string = '';
@@ -29,29 +49,28 @@ export class OpenAIAdapter extends AIAdapter {
         return '/audio/transcriptions';
     }
 
+    protected getTranscriptionModelListEndpoint(): string | null {
+        return '/models';
+    }
+
+    // The gpt-4o transcribe models have no translation mode; only Whisper does.
+    protected getTranslationEndpoint(model: string): string | null {
+        return model.startsWith('whisper') ? '/audio/translations' : null;
+    }
+
     protected async validateApiKeyImpl(): Promise<boolean> {
         if (!this.apiKey) {
             return false;
         }
 
-        try {
-            // Try a minimal completion request to validate the API key
-            await this.makeAPIRequest(
-                `${this.getApiBaseUrl()}/chat/completions`,
-                'POST',
-                {
-                    'Content-Type': 'application/json'
-                },
-                JSON.stringify({
-                    model: 'gpt-4o-mini',
-                    messages: [{ role: 'user', content: 'test' }],
-                    max_tokens: 1
-                })
-            );
-            return true;
-        } catch {
-            return false;
-        }
+        // /models is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
     }
 
     protected parseTextGenerationResponse(response: ChatCompletionResponse): string {
@@ -61,10 +80,15 @@ export class OpenAIAdapter extends AIAdapter {
         throw new Error('Invalid response format from OpenAI');
     }
 
-    protected parseTranscriptionResponse(response: TranscriptionResponse): string {
-        if (response?.text) {
-            return response.text;
-        }
-        throw new Error('Invalid transcription response format from OpenAI');
+    protected parseTranscriptionResponse(response: TranscriptionResponse): TranscriptResult {
+        return this.parseOpenAITranscription(response, 'OpenAI');
+    }
+
+    protected supportsVerboseTranscription(model: string): boolean {
+        return model.startsWith('whisper');
+    }
+
+    protected getDefaultCapabilities(model: string): ModelCapabilities {
+        return { ...super.getDefaultCapabilities(model), ...getReasoningCapabilities(model) };
     }
 }
@@ -43,18 +43,14 @@ export class OpenRouterAdapter extends AIAdapter {
             return false;
         }
 
-        try {
-            // /models is authenticated and free (no token spend).
-            const response = await this.makeAPIRequest<ModelListResponse>(
-                `${this.getApiBaseUrl()}/models`,
-                'GET',
-                {},
-                null
-            );
-            return Array.isArray(response?.data);
-        } catch {
-            return false;
-        }
+        // /models is authenticated and free (no token spend).
+        const response = await this.makeAPIRequest<ModelListResponse>(
+            `${this.getApiBaseUrl()}/models`,
+            'GET',
+            {},
+            null
+        );
+        return Array.isArray(response?.data);
     }
 
     protected parseTextGenerationResponse(response: ChatCompletionResponse): string {
@@ -64,7 +60,7 @@ export class OpenRouterAdapter extends AIAdapter {
         throw new Error('Invalid response format from OpenRouter');
     }
 
-    protected parseTranscriptionResponse(): string {
+    protected parseTranscriptionResponse(): never {
         throw new Error('Transcription not supported by OpenRouter');
     }
 
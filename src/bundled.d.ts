@@ -0,0 +1,21 @@
+// src/bundled.d.ts
+//
+// Imports resolved by the plugins in esbuild.config.mjs rather than by TypeScript.
+
+/** A worker entry point, bundled on its own and imported as its source text. */
+declare module 'inline-worker:*' {
+    const source: string;
+    export default source;
+}
+
+/** A package file too large to bundle, pinned by checksum; see PinnedFile. */
+declare module 'pinned-file:*' {
+    const file: import('./utils/PinnedFile').PinnedFile;
+    export default file;
+}
+
+/** ONNX Runtime's Emscripten glue module, embedded as source text. */
+declare module 'onnxruntime-web/dist/*.mjs' {
+    const source: string;
+    export default source;
+}
@@ -14,15 +14,33 @@ import { NeuroVoxSettingTab } from './settings/SettingTab';
 import { FloatingButton } from './ui/FloatingButton';
 import { ToolbarButton } from './ui/ToolbarButton';
 import { TimerModal } from './modals/TimerModal';
+import { PassphraseModal } from './modals/PassphraseModal';
 import { OpenAIAdapter } from './adapters/OpenAIAdapter';
 import { GroqAdapter } from './adapters/GroqAdapter';
 import { DeepgramAdapter } from './adapters/DeepgramAdapter';
 import { MoonshineAdapter } from './adapters/MoonshineAdapter';
 import { OpenRouterAdapter } from './adapters/OpenRouterAdapter';
 import { AssemblyAIAdapter } from './adapters/AssemblyAIAdapter';
+import { CustomAdapter } from './adapters/CustomAdapter';
+import { OllamaAdapter } from './adapters/OllamaAdapter';
+import { LocalProcessAdapter } from './adapters/LocalProcessAdapter';
+import { EchoAdapter } from './adapters/EchoAdapter';
+import { AnthropicAdapter } from './adapters/AnthropicAdapter';
+import { GeminiAdapter } from './adapters/GeminiAdapter';
+import { AzureAdapter } from './adapters/AzureAdapter';
+import { ElevenLabsAdapter } from './adapters/ElevenLabsAdapter';
 import { AIProvider, AIAdapter } from './adapters/AIAdapter';
 import { RecordingProcessor } from './utils/RecordingProcessor';
+import { PostProcessingStream } from './utils/transcription/TranscriptionService';
+import { ResultSource } from './types';
 import { SegmentStore } from './utils/audio/SegmentStore';
+import { UsageLedger } from './utils/usage/UsageLedger';
+import { BudgetGuard } from './utils/usage/BudgetGuard';
+import { getMediaDuration } from './utils/FileUtils';
+import { createModelStore, createRuntimeStore } from './utils/LocalModelStore';
+import { destroyTransformers } from './utils/TransformersLoader';
+import { SecretStore, extractLegacyApiKeys, getDefaultSecretStorage } from './utils/secrets/SecretStore';
+import { SecretMap } from './utils/secrets/SecretCrypto';
 
 export default class NeuroVoxPlugin extends Plugin {
     settings: NeuroVoxSettings;
@@ -37,15 +55,25 @@ export default class NeuroVoxPlugin extends Plugin {
     public events = new Events();
 
     public recordingProcessor: RecordingProcessor;
+    public usageLedger: UsageLedger;
+    public secrets: SecretStore;
+    // Plaintext keys found in data.json by loadSettings, for SecretStore.migrate.
+    private legacyApiKeys: SecretMap = {};
 
     async onload(): Promise<void> {
         try {
             // First load settings
             await this.loadSettings();
             
+            this.usageLedger = new UsageLedger(this.app.vault.adapter, `${this.manifest.dir}/usage.jsonl`);
+            this.secrets = new SecretStore(this);
+            await this.secrets.load();
+            await this.secrets.migrate(this.legacyApiKeys);
+            this.legacyApiKeys = {};
+
             // Then initialize everything that depends on settings
             this.initializeAIAdapters();
-            await this.validateApiKeys();
+            this.applyApiKeys();
             this.registerSettingsTab();
             this.registerCommands();
             this.registerEvents();
@@ -61,6 +89,9 @@ export default class NeuroVoxPlugin extends Plugin {
 
             // Clear segment temp files orphaned by a crash or force-quit mid-recording.
             void new SegmentStore(this.app.vault.adapter, `${this.manifest.dir}/segments-tmp`).sweep();
+
+            // Find local models downloaded in earlier sessions.
+            void (this.aiAdapters.get(AIProvider.Moonshine) as MoonshineAdapter).refreshModelStatus();
         } catch {
             new Notice("Failed to initialize NeuroVox plugin");
         }
@@ -93,15 +124,20 @@ export default class NeuroVoxPlugin extends Plugin {
     public async loadSettings(): Promise<void> {
         try {
             const data = await this.loadData() as Partial<NeuroVoxSettings> | null;
+            const saved = data && typeof data === 'object' ? data : {};
+            this.legacyApiKeys = extractLegacyApiKeys(saved);
 
             // Merge saved settings with defaults using type-safe spread
             // This ensures all default values are present, with saved values overriding
             this.settings = {
                 ...DEFAULT_SETTINGS,
-                ...(data && typeof data === 'object' ? data : {})
+                ...saved
             };
+            if (!saved.secretStorage) {
+                this.settings.secretStorage = getDefaultSecretStorage(this.app);
+            }
         } catch {
-            this.settings = { ...DEFAULT_SETTINGS };
+            this.settings = { ...DEFAULT_SETTINGS, secretStorage: getDefaultSecretStorage(this.app) };
             new Notice("Failed to load NeuroVox settings. Using defaults.");
         }
     }
@@ -120,71 +156,68 @@ export default class NeuroVoxPlugin extends Plugin {
         } catch {
             new Notice("Failed to save NeuroVox settings");
         }
-    }    private async validateApiKeys(): Promise<void> {
-        try {
-            // Set API keys from settings
-            const openaiAdapter = this.aiAdapters.get(AIProvider.OpenAI);
-            const groqAdapter = this.aiAdapters.get(AIProvider.Groq);
-            const deepgramAdapter = this.aiAdapters.get(AIProvider.Deepgram);
-            const openrouterAdapter = this.aiAdapters.get(AIProvider.OpenRouter);
-            const assemblyaiAdapter = this.aiAdapters.get(AIProvider.AssemblyAI);
-
-            if (openaiAdapter) {
-                openaiAdapter.setApiKey(this.settings.openaiApiKey);
-                await openaiAdapter.validateApiKey();
-            }
-
-            if (groqAdapter) {
-                groqAdapter.setApiKey(this.settings.groqApiKey);
-                await groqAdapter.validateApiKey();
-            }
-
-            if (deepgramAdapter) {
-                deepgramAdapter.setApiKey(this.settings.deepgramApiKey);
-                await deepgramAdapter.validateApiKey();
-            }
-
-            if (openrouterAdapter) {
-                openrouterAdapter.setApiKey(this.settings.openrouterApiKey);
-                await openrouterAdapter.validateApiKey();
-            }
+    }
 
-            if (assemblyaiAdapter) {
-                assemblyaiAdapter.setApiKey(this.settings.assemblyaiApiKey);
-                await assemblyaiAdapter.validateApiKey();
+    /**
+     * Hands each hosted provider its key from the secret store. Keys are validated on first
+     * use (AIAdapter.ensureValidated), not here: startup stays offline and costs nothing.
+     */
+    public applyApiKeys(): void {
+        for (const [provider, adapter] of this.aiAdapters) {
+            if (adapter.requiresApiKey()) {
+                adapter.setApiKey(this.secrets.get(provider));
             }
+        }
+    }
 
-            // Only show notice if validation fails
-            if (openaiAdapter && !openaiAdapter.isReady() && this.settings.openaiApiKey) {
-                new Notice('❌ OpenAI API key validation failed');
-            }
-            if (groqAdapter && !groqAdapter.isReady() && this.settings.groqApiKey) {
-                new Notice('❌ Groq API key validation failed');
-            }
-            if (deepgramAdapter && !deepgramAdapter.isReady() && this.settings.deepgramApiKey) {
-                new Notice('❌ Deepgram API key validation failed');
-            }
-            if (openrouterAdapter && !openrouterAdapter.isReady('language') && this.settings.openrouterApiKey) {
-                new Notice('❌ OpenRouter API key validation failed');
+    /**
+     * Asks for the passphrase until it unlocks the API keys or the user gives up. Resolves
+     * whether the keys are unlocked.
+     */
+    public async unlockApiKeys(): Promise<boolean> {
+        let message = 'Your API keys are encrypted. Enter the passphrase to use them this session.';
+        while (this.secrets.isLocked()) {
+            const passphrase = await PassphraseModal.ask(this.app, 'Unlock API keys', message, 'Unlock');
+            if (passphrase === null) {
+                return false;
             }
-            if (assemblyaiAdapter && !assemblyaiAdapter.isReady() && this.settings.assemblyaiApiKey) {
-                new Notice('❌ AssemblyAI API key validation failed');
+            if (await this.secrets.unlock(passphrase)) {
+                this.applyApiKeys();
+                return true;
             }
-        } catch {
-            // Silent fail for API key validation
+            message = 'Wrong passphrase. Try again.';
         }
-    }public initializeAIAdapters(): void {
+        return true;
+    }
+
+    public initializeAIAdapters(): void {
         try {
+            const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
             const adapters: Array<[AIProvider, AIAdapter]> = [
                 [AIProvider.OpenAI, new OpenAIAdapter(this.settings)],
                 [AIProvider.Groq, new GroqAdapter(this.settings)],
                 [AIProvider.Deepgram, new DeepgramAdapter(this.settings)],
-                [AIProvider.Moonshine, new MoonshineAdapter(this.settings)],
+                [AIProvider.Moonshine, new MoonshineAdapter(
+                    this.settings,
+                    () => createModelStore(this.app.vault.adapter, pluginDir, this.settings.localModelFolder),
+                    createRuntimeStore(this.app.vault.adapter, pluginDir)
+                )],
                 [AIProvider.OpenRouter, new OpenRouterAdapter(this.settings)],
-                [AIProvider.AssemblyAI, new AssemblyAIAdapter(this.settings)]
+                [AIProvider.AssemblyAI, new AssemblyAIAdapter(this.settings)],
+                [AIProvider.Custom, new CustomAdapter(this.settings, endpointId => this.secrets.get(endpointId))],
+                [AIProvider.Ollama, new OllamaAdapter(this.settings)],
+                [AIProvider.Anthropic, new AnthropicAdapter(this.settings)],
+                [AIProvider.Gemini, new GeminiAdapter(this.settings)],
+                [AIProvider.Azure, new AzureAdapter(this.settings)],
+                [AIProvider.ElevenLabs, new ElevenLabsAdapter(this.settings)],
+                [AIProvider.LocalProcess, new LocalProcessAdapter(this.settings)],
+                [AIProvider.Echo, new EchoAdapter(this.settings, this.app.vault.adapter)]
             ];
 
             this.aiAdapters = new Map<AIProvider, AIAdapter>(adapters);
+            for (const adapter of this.aiAdapters.values()) {
+                adapter.setUsageListener(record => this.usageLedger.record(record));
+            }
         } catch {
             throw new Error("Failed to initialize AI adapters");
         }
@@ -217,7 +250,21 @@ export default class NeuroVoxPlugin extends Plugin {
                     return;
                 }
                 new Notice(`🎵 Transcribing: ${activeFile.path}`);
-                await this.processExistingAudioFile(activeFile);
+                await this.processExistingAudioFile(activeFile, this.settings.translateToEnglish);
+            }
+        });
+
+        this.addCommand({
+            id: 'translate-audio',
+            name: 'Transcribe audio file and translate to English',
+            callback: async () => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (!activeFile || !this.isValidAudioFile(activeFile)) {
+                    new Notice('❌ Active file is not a valid audio file');
+                    return;
+                }
+                new Notice(`🎵 Translating: ${activeFile.path}`);
+                await this.processExistingAudioFile(activeFile, true);
             }
         });
 
@@ -235,6 +282,17 @@ export default class NeuroVoxPlugin extends Plugin {
                 return true;
             }
         });
+
+        this.addCommand({
+            id: 'unlock-api-keys',
+            name: 'Unlock API keys',
+            checkCallback: (checking: boolean) => {
+                if (!this.secrets.isLocked()) return false;
+                if (checking) return true;
+                void this.unlockApiKeys();
+                return true;
+            }
+        });
     }
 
     private isValidAudioFile(file: TFile | null): boolean {
@@ -268,18 +326,27 @@ export default class NeuroVoxPlugin extends Plugin {
         return mimeTypes[extension.toLowerCase()] || 'video/mp4';
     }
 
-    public async processExistingAudioFile(file: TFile): Promise<void> {
+    public async processExistingAudioFile(file: TFile, translate: boolean = false): Promise<void> {
         try {
             const adapter = this.aiAdapters.get(this.settings.transcriptionProvider);
             if (!adapter) {
                 throw new Error(`Transcription provider ${this.settings.transcriptionProvider} not found`);
             }
 
-            // Moonshine doesn't require an API key (local model)
-            if (this.settings.transcriptionProvider !== AIProvider.Moonshine && !adapter.getApiKey()) {
+            // Local and self-hosted providers (Moonshine, custom endpoints) don't need a key
+            if (adapter.requiresApiKey() && !adapter.getApiKey() && this.secrets.isLocked()) {
+                await this.unlockApiKeys();
+            }
+            if (adapter.requiresApiKey() && !adapter.getApiKey()) {
                 throw new Error(`API key not set for ${this.settings.transcriptionProvider}`);
             }
 
+            const duration = await getMediaDuration(this.app, file);
+            if (!await new BudgetGuard(this).confirmJob(duration, 'Transcribe audio file?')) {
+                new Notice('Transcription cancelled');
+                return;
+            }
+
             const timestamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
             const sanitizedName = file.basename.replace(/[\\/:*?"<>|]/g, '');
             const transcriptsFolder = this.settings.transcriptFolderPath || 'Transcripts';
@@ -324,7 +391,8 @@ export default class NeuroVoxPlugin extends Plugin {
                 blob,
                 newFile,
                 { line: initialContent.split('\n').length, ch: 0 },
-                file.path
+                file.path,
+                translate
             );
             new Notice('✨ Transcription completed successfully!');
             
@@ -454,32 +522,16 @@ export default class NeuroVoxPlugin extends Plugin {
             if (this.modalInstance) return;
             
             this.modalInstance = new TimerModal(this);
-            this.modalInstance.onStop = async (result: Blob | string) => {
-                if (typeof result === 'string') {
-                    // Streaming mode - transcription already done
-                    await this.recordingProcessor.processStreamingResult(
-                        result,
-                        activeFile,
-                        activeView.editor.getCursor()
-                    );
-                } else {
-                    // Legacy mode - need to transcribe
-                    const adapter = this.aiAdapters.get(this.settings.transcriptionProvider);
-                    if (!adapter) {
-                        throw new Error(`Transcription provider ${this.settings.transcriptionProvider} not found`);
-                    }
-
-                    // Moonshine doesn't require an API key (local model)
-                    if (this.settings.transcriptionProvider !== AIProvider.Moonshine && !adapter.getApiKey()) {
-                        throw new Error(`API key not set for ${this.settings.transcriptionProvider}`);
-                    }
-
-                    await this.recordingProcessor.processRecording(
-                        result,
-                        activeFile,
-                        activeView.editor.getCursor()
-                    );
-                }
+            this.modalInstance.onStop = async (result: string, language?: string, stream?: PostProcessingStream, sources?: ResultSource[]) => {
+                // The modal transcribes as it records, so only post-processing and insertion are left.
+                await this.recordingProcessor.processStreamingResult(
+                    result,
+                    activeFile,
+                    activeView.editor.getCursor(),
+                    language,
+                    stream,
+                    sources
+                );
             };
             
             const originalOnClose = this.modalInstance.onClose?.bind(this.modalInstance);
@@ -516,5 +568,6 @@ export default class NeuroVoxPlugin extends Plugin {
             // Silent fail on unload
         });
         this.cleanupUI();
+        destroyTransformers();
     }
 }
@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks a yes/no question before something costly. Resolves true only when the user
+ * confirms; closing the modal any other way counts as no.
+ */
+export class ConfirmModal extends Modal {
+    private confirmed = false;
+
+    private constructor(
+        app: App,
+        private title: string,
+        private message: string,
+        private confirmText: string,
+        private resolve: (confirmed: boolean) => void
+    ) {
+        super(app);
+    }
+
+    static ask(app: App, title: string, message: string, confirmText: string): Promise<boolean> {
+        return new Promise(resolve => {
+            new ConfirmModal(app, title, message, confirmText, resolve).open();
+        });
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(this.title);
+        this.contentEl.createEl('p', { text: this.message });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.confirmText)
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolve(this.confirmed);
+    }
+}
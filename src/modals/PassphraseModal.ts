@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for a passphrase. Resolves the entered text, or null when the modal is closed
+ * without submitting.
+ */
+export class PassphraseModal extends Modal {
+    private passphrase: string | null = null;
+
+    private constructor(
+        app: App,
+        private title: string,
+        private message: string,
+        private submitText: string,
+        private resolve: (passphrase: string | null) => void
+    ) {
+        super(app);
+    }
+
+    static ask(app: App, title: string, message: string, submitText: string): Promise<string | null> {
+        return new Promise(resolve => {
+            new PassphraseModal(app, title, message, submitText, resolve).open();
+        });
+    }
+
+    onOpen(): void {
+        this.titleEl.setText(this.title);
+        this.contentEl.createEl('p', { text: this.message });
+
+        let value = '';
+        const submit = () => {
+            if (!value) return;
+            this.passphrase = value;
+            this.close();
+        };
+
+        new Setting(this.contentEl)
+            .setName('Passphrase')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.onChange(input => { value = input; });
+                text.inputEl.addEventListener('keydown', event => {
+                    if (event.key === 'Enter') submit();
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.submitText)
+                .setCta()
+                .onClick(submit));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolve(this.passphrase);
+    }
+}
@@ -6,7 +6,12 @@ import NeuroVoxPlugin from '../main';
 import { StreamingTranscriptionService } from '../utils/transcription/StreamingTranscriptionService';
 import { splitWavBlob } from '../utils/audio/WavSplitter';
 import { VoiceActivityMonitor } from '../utils/audio/VoiceActivityMonitor';
-import { ChunkMetadata } from '../types';
+import { LiveProtocol, LiveTranscriptionSession } from '../utils/transcription/LiveTranscription';
+import { BudgetGuard } from '../utils/usage/BudgetGuard';
+import { AIAdapter } from '../adapters/AIAdapter';
+import { ChunkMetadata, ResultSource } from '../types';
+import { PostProcessingStream } from '../utils/transcription/TranscriptionService';
+import { describeChoice } from '../utils/transcription/ProviderFallback';
 
 interface TimerConfig {
     maxDuration: number;
@@ -33,6 +38,13 @@ export class TimerModal extends Modal {
     private segmentStartSeconds: number = 0;
     private isRotating: boolean = false;
     private voiceMonitor: VoiceActivityMonitor | null = null;
+    private translate: boolean;
+    // Set while live transcription runs; rotated segments are then discarded, not transcribed.
+    private liveSession: LiveTranscriptionSession | null = null;
+    // What live transcription settled before it dropped; segments transcribe the rest.
+    private livePrefix: string = '';
+    // Stops post-processing from the processing view's stop button.
+    private processingController: AbortController | null = null;
 
     // Rotate the recorder into bounded segments so no more than ~one segment of audio is held
     // in memory at a time. StereoAudioRecorder otherwise accumulates the entire recording in
@@ -52,11 +64,18 @@ export class TimerModal extends Modal {
 
     private readonly CONFIG: TimerConfig;
 
-    public onStop: (result: Blob | string) => void | Promise<void>;
+    /**
+     * Receives the transcript, already translated when the modal's toggle asked for it.
+     * `language` is the detected (or configured) language of a streamed transcript, when
+     * known. `stream` shows post-processing in the modal as it is generated. `sources` are
+     * the providers that transcribed it.
+     */
+    public onStop: (result: string, language?: string, stream?: PostProcessingStream, sources?: ResultSource[]) => void | Promise<void>;
 
     constructor(private plugin: NeuroVoxPlugin) {
         super(plugin.app);
         this.recordingManager = new AudioRecordingManager(plugin);
+        this.translate = plugin.settings.translateToEnglish;
 
         this.CONFIG = {
             maxDuration: 12 * 60,
@@ -171,8 +190,13 @@ export class TimerModal extends Modal {
 
             this.ui = new RecordingUI(container, {
                 onPause: () => this.handlePauseToggle(),
-                onStop: () => { void this.handleStop(); }
-            });
+                onStop: () => { void this.handleStop(); },
+                onTranslateToggle: (translate) => {
+                    this.translate = translate;
+                    this.streamingService?.setTranslate(translate);
+                },
+                onCancelProcessing: () => this.processingController?.abort()
+            }, this.translate);
 
             // Initialize recording with mobile-specific settings
             await this.initializeRecording();
@@ -227,15 +251,18 @@ export class TimerModal extends Modal {
                     // callback is needed; queued audio no longer lives in RAM.
                     this.streamingService = new StreamingTranscriptionService(this.plugin);
                 }
+                this.streamingService.setTranslate(this.translate);
 
                 this.recordingStartTime = Date.now();
                 this.chunkIndex = 0;
                 this.segmentStartSeconds = 0;
+                this.livePrefix = '';
 
                 // StereoAudioRecorder does not emit timeSlice chunks, so instead of relying on
                 // onDataAvailable we rotate the recorder ourselves (see maybeRotate/rotateSegment).
                 this.recordingManager.start();
                 this.startTimer();
+                this.startLiveTranscription();
                 this.startRotationMonitor();
             }
 
@@ -256,9 +283,17 @@ export class TimerModal extends Modal {
 
         const stream = this.recordingManager.getStream();
         if (stream) {
-            this.voiceMonitor = new VoiceActivityMonitor(stream);
+            // Live transcription streams the microphone from the same tap.
+            this.voiceMonitor = new VoiceActivityMonitor(stream, {
+                onAudio: this.liveSession
+                    ? (samples, sampleRate) => this.streamLiveAudio(samples, sampleRate)
+                    : undefined
+            });
             this.voiceMonitor.start();
         }
+        if (this.liveSession && !this.voiceMonitor?.isActive()) {
+            this.fallBackFromLive(new Error('Web Audio is not available'));
+        }
 
         // Check frequently; the actual rotation cadence is governed by maybeRotate().
         this.segmentIntervalId = window.setInterval(() => {
@@ -277,6 +312,87 @@ export class TimerModal extends Modal {
         }
     }
 
+    /**
+     * Starts streaming to the transcription provider's real-time API when live transcription
+     * is on. Live results show in the modal as they arrive; the connection opens in the
+     * background and any failure falls back to transcribing segments.
+     */
+    private startLiveTranscription(): void {
+        const { liveTranscription, transcriptionProvider } = this.plugin.settings;
+        const adapter = this.plugin.aiAdapters.get(transcriptionProvider);
+        // Streaming APIs transcribe only, so translated recordings take the segment path.
+        if (!liveTranscription || this.translate || !adapter) return;
+
+        const session = new LiveTranscriptionSession({
+            onUpdate: (finalText, interimText) => this.ui.updateLiveTranscript(finalText, interimText),
+            onDrop: error => this.fallBackFromLive(error)
+        });
+        this.liveSession = session;
+        this.ui.lockTranslate();
+        session.connect(this.openLiveProtocol(adapter)).catch(error => this.fallBackFromLive(error));
+    }
+
+    private async openLiveProtocol(adapter: AIAdapter): Promise<LiveProtocol> {
+        const { transcriptionProvider, transcriptionModel } = this.plugin.settings;
+        await new BudgetGuard(this.plugin).assertWithinBudget(transcriptionProvider);
+        const protocol = await adapter.createLiveProtocol(transcriptionModel);
+        if (!protocol) {
+            throw new Error(`${transcriptionProvider} has no live transcription`);
+        }
+        return protocol;
+    }
+
+    private streamLiveAudio(samples: Float32Array, sampleRate: number): void {
+        // Paused audio isn't recorded, so it isn't streamed either: that keeps live result
+        // times in step with recording time.
+        if (this.currentState === 'recording') {
+            this.liveSession?.sendAudio(samples, sampleRate);
+        }
+    }
+
+    /**
+     * Switches to transcribing segments after live transcription failed to connect or
+     * dropped. Segments rotated while live were discarded, so the live text up to the last
+     * rotation is kept and the audio since then, still in the recorder, goes the segment
+     * way. Words still interim when the connection dropped are lost if their audio was in
+     * a discarded segment.
+     */
+    private fallBackFromLive(error: unknown): void {
+        const session = this.liveSession;
+        if (!session) return;
+        this.liveSession = null;
+        this.livePrefix = session.getTranscriptUntil(this.segmentStartSeconds);
+        session.close();
+
+        console.error('[TimerModal] Live transcription failed:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`Live transcription stopped, transcribing in segments instead: ${message}`);
+    }
+
+    /** The live transcription provider, which streaming never swaps for a fallback. */
+    private getLiveSource(): ResultSource {
+        const { transcriptionProvider, transcriptionModel } = this.plugin.settings;
+        return { label: describeChoice({ provider: transcriptionProvider, model: transcriptionModel }), fallback: false };
+    }
+
+    /**
+     * Ends a connected live session and returns its transcript, or null when segments have
+     * to be transcribed instead (live transcription off, or it dropped now or earlier).
+     */
+    private async finishLiveTranscription(): Promise<string | null> {
+        const session = this.liveSession;
+        if (!session) return null;
+
+        try {
+            const transcript = await session.finish();
+            this.liveSession = null;
+            return transcript;
+        } catch (error) {
+            this.fallBackFromLive(error);
+            return null;
+        }
+    }
+
     /**
      * Decides whether to rotate now: rotate at a silence break once the current segment is at
      * least MIN_SEGMENT_SECONDS, or unconditionally once it reaches MAX_SEGMENT_SECONDS. If
@@ -313,7 +429,10 @@ export class TimerModal extends Modal {
             const blob = await this.recordingManager.rotate();
             this.segmentStartSeconds = end;
             Logger.log('[TimerModal] Rotated segment', this.chunkIndex, `${start}s-${end}s`, 'blob bytes:', blob?.size ?? 0);
-            if (blob) {
+            if (blob && this.liveSession) {
+                // Live transcription covers this audio; rotating only bounds memory.
+                this.chunkIndex++;
+            } else if (blob) {
                 await this.feedSegment(blob, start, end);
             }
         } catch (error) {
@@ -340,6 +459,7 @@ export class TimerModal extends Modal {
             size: blob.size
         };
         this.chunkIndex++;
+        this.ui.lockTranslate();
 
         const added = await this.streamingService.addChunk(blob, metadata);
         if (!added) {
@@ -406,7 +526,11 @@ export class TimerModal extends Modal {
                 throw new Error('Streaming service not initialized');
             }
 
-            if (finalBlob && finalBlob.size > 0) {
+            // A live session still connected holds the whole transcript; the recorded audio
+            // is only needed when there was none or it dropped.
+            const liveResult = await this.finishLiveTranscription();
+
+            if (liveResult === null && finalBlob && finalBlob.size > 0) {
                 // Branch on whether rotation produced segments (chunkIndex), not on whether
                 // the queue accepted them: if every enqueue fell back to direct
                 // transcription, the final blob is still only tail audio — splitting it as
@@ -426,8 +550,10 @@ export class TimerModal extends Modal {
                 }
             }
 
-            // Get transcription result from streaming service
-            const result = await this.streamingService.finishProcessing();
+            // Get transcription result from live transcription or the streaming service
+            const result = liveResult ?? [this.livePrefix, await this.streamingService.finishProcessing()]
+                .filter(text => text.trim().length > 0)
+                .join('\n\n');
 
             if (!result || result.trim().length === 0) {
                 throw new Error('No transcription result received');
@@ -436,7 +562,15 @@ export class TimerModal extends Modal {
             // Keep the modal visible while post-processing and note insertion complete.
             this.ui.showProcessing('processing');
             if (this.onStop) {
-                await this.onStop(result);
+                const language = liveResult === null ? this.streamingService.getDetectedLanguage() : undefined;
+                // The live provider wrote the whole transcript, or the part before it dropped.
+                const liveSources = liveResult !== null || this.livePrefix.trim().length > 0 ? [this.getLiveSource()] : [];
+                const sources = liveResult === null ? [...liveSources, ...this.streamingService.getSources()] : liveSources;
+                this.processingController = new AbortController();
+                await this.onStop(result, language, {
+                    onText: text => this.ui.updateProcessingPreview(text),
+                    signal: this.processingController.signal
+                }, sources);
             }
 
             this.ui.showComplete();
@@ -541,6 +675,8 @@ export class TimerModal extends Modal {
         try {
             this.pauseTimer();
             this.stopRotationMonitor();
+            this.liveSession?.close();
+            this.liveSession = null;
             this.recordingManager.cleanup();
             this.ui?.cleanup();
             
@@ -559,6 +695,8 @@ export class TimerModal extends Modal {
             this.isClosing = false;
             this.chunkIndex = 0;
             this.recordingStartTime = 0;
+            this.livePrefix = '';
+            this.processingController = null;
         }
     }
 
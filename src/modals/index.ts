@@ -1 +1,3 @@
 export * from './TimerModal';
+export * from './ConfirmModal';
+export * from './PassphraseModal';
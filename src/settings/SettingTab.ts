@@ -4,6 +4,7 @@ import { App, PluginSettingTab } from 'obsidian';
 import { ModelHookupAccordion } from './accordions/ModelHookupAccordion';
 import { RecordingAccordion } from './accordions/RecordingAccordion';
 import { PostProcessingAccordion } from './accordions/PostProcessingAccordion';
+import { UsageAccordion } from './accordions/UsageAccordion';
 import { AIAdapter, AIProvider } from '../adapters/AIAdapter';
 import NeuroVoxPlugin from '../main';
 
@@ -25,6 +26,7 @@ export class NeuroVoxSettingTab extends PluginSettingTab {
         const modelHookupContainer = containerEl.createDiv();
         const recordingContainer = containerEl.createDiv();
         const postProcessingContainer = containerEl.createDiv();
+        const usageContainer = containerEl.createDiv();
 
         // Helper to get adapter with runtime validation
         const getAdapter = (provider: AIProvider): AIAdapter => {
@@ -65,6 +67,7 @@ export class NeuroVoxSettingTab extends PluginSettingTab {
         modelHookupAccordion.render();
         this.recordingAccordion.render();
         this.postProcessingAccordion.render();
+        new UsageAccordion(usageContainer, this.plugin.settings, this.plugin).render();
     }
 
     getRecordingAccordion(): RecordingAccordion | null {
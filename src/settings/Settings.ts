@@ -1,6 +1,7 @@
 // src/settings/Settings.ts
 
 import { AIProvider } from '../adapters/AIAdapter';
+import { DEFAULT_PRICE_TABLE } from '../utils/usage/UsageReport';
 
 export enum AudioQuality {
     Low = 'low',
@@ -8,17 +9,96 @@ export enum AudioQuality {
     High = 'high'
 }
 
+/**
+ * How a custom endpoint expects its API key: `Authorization: Bearer <key>`, the bare key in a
+ * named header (e.g. `api-key`), or no auth at all (typical for LAN servers).
+ */
+export type CustomAuthScheme = 'bearer' | 'header' | 'none';
+
+/**
+ * A user-defined server that speaks the OpenAI `/audio/transcriptions` and/or
+ * `/chat/completions` shapes (faster-whisper-server, LM Studio, vLLM, ...).
+ */
+export interface CustomEndpoint {
+    id: string;
+    name: string;
+    baseUrl: string;
+    authScheme: CustomAuthScheme;
+    authHeaderName: string;
+    transcriptionModels: string[];
+    languageModels: string[];
+}
+
+/**
+ * Azure OpenAI deployment names per role. Azure addresses models by the deployment name the
+ * resource owner chose, so which deployment does transcription vs chat must be configured.
+ */
+export interface AzureDeployments {
+    transcription: string[];
+    language: string[];
+}
+
+/**
+ * Where API keys are kept (see SecretStore): in plaintext in the plugin settings, encrypted
+ * with the OS keychain on this device, in environment variables or a file outside the
+ * vault, or encrypted with a passphrase.
+ */
+export type SecretStorageMode = 'plaintext' | 'keychain' | 'environment' | 'passphrase';
+
+/**
+ * How a local Whisper binary is called: whisper.cpp's `whisper-cli`, or a faster-whisper CLI
+ * with openai-whisper's options. Doubles as the model id in the transcription picker.
+ */
+export type LocalWhisperEngine = 'whisper-cpp' | 'faster-whisper';
+
+/** How long a reasoning model thinks before it answers (OpenAI's `reasoning_effort`). */
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+/** A model on a specific provider, e.g. one entry of a fallback chain. */
+export interface ModelChoice {
+    provider: AIProvider;
+    model: string;
+}
+
+/** Most that may be spent with a provider per calendar month, in USD. */
+export interface ProviderBudget {
+    provider: AIProvider;
+    limit: number;
+}
+
 export type NeuroVoxSettings = {
-    // AI Providers
-    openaiApiKey: string;
-    groqApiKey: string;
-    deepgramApiKey: string;
-    openrouterApiKey: string;
-    assemblyaiApiKey: string;
+    // API keys, read and written through SecretStore
+    secretStorage: SecretStorageMode;
+    plaintextApiKeys: Record<string, string>; // 'plaintext' storage only
+    encryptedApiKeys: string; // 'passphrase' storage only
+    apiKeysFilePath: string; // 'environment' storage; optional NAME=value file outside the vault
+
+    // Custom OpenAI-compatible endpoints
+    customEndpoints: CustomEndpoint[];
+
+    // Local Ollama server (post-processing); empty = disabled
+    ollamaBaseUrl: string;
+
+    // Azure OpenAI
+    azureEndpoint: string;
+    azureApiVersion: string;
+    azureDeployments: AzureDeployments;
 
     // Local Models (Moonshine)
     moonshineModel: string;
     moonshineAutoLoad: boolean;
+    // Folder (in the vault, or absolute on desktop) holding model repos to load as they
+    // are; empty = download into the plugin folder
+    localModelFolder: string;
+
+    // Local Whisper binary (desktop); empty binary = disabled
+    localWhisperEngine: LocalWhisperEngine;
+    localWhisperBinary: string;
+    localWhisperModel: string; // model file for whisper.cpp, model name or folder for faster-whisper
+    localWhisperArgs: string; // appended to the command line
+
+    // Echo provider: vault folder with transcript/completion fixtures; empty = disabled
+    echoFixtureFolder: string;
 
     // Recording
     audioQuality: AudioQuality;
@@ -30,7 +110,17 @@ export type NeuroVoxSettings = {
     micButtonColor: string;
     transcriptionModel: string;
     transcriptionProvider: AIProvider;
+    transcriptionFallbacks: ModelChoice[]; // tried in order when the primary fails
     transcriptionCalloutFormat: string;
+    identifySpeakers: boolean;
+    translateToEnglish: boolean; // default for the per-recording choice
+    liveTranscription: boolean; // stream to Deepgram or AssemblyAI while recording
+    transcriptionLanguage: string; // ISO 639-1 code; empty = auto-detect
+    languageFrontmatterProperty: string; // empty = don't write frontmatter
+    modelsFrontmatterProperty: string; // lists the models that produced the note's content; empty = don't write
+    glossaryTerms: string; // one term per line or comma-separated
+    glossaryNotePath: string;
+    glossaryFolderPath: string; // note titles in this folder join the glossary
     showTimer: boolean;
     autoStopEnabled: boolean;
     autoStopDuration: number;
@@ -41,9 +131,16 @@ export type NeuroVoxSettings = {
     postProcessingMaxTokens: number;
     postProcessingModel: string;
     postProcessingProvider: AIProvider;
+    postProcessingFallbacks: ModelChoice[];
     postProcessingTemperature: number;
+    postProcessingReasoningEffort: ReasoningEffort;
     postProcessingCalloutFormat: string;
 
+    // Usage
+    usagePriceTable: string; // see parsePriceTable for the line format
+    monthlyBudgets: ProviderBudget[];
+    confirmCostAbove: number; // USD; ask before transcribing files estimated to cost more; 0 = never ask
+
     // Current Provider
     currentProvider: AIProvider;
 
@@ -56,16 +153,36 @@ export type NeuroVoxSettings = {
 };
 
 export const DEFAULT_SETTINGS: NeuroVoxSettings = {
-    // AI Providers
-    openaiApiKey: '',
-    groqApiKey: '',
-    deepgramApiKey: '',
-    openrouterApiKey: '',
-    assemblyaiApiKey: '',
+    // API keys; loadSettings picks the keychain where there is one
+    secretStorage: 'plaintext',
+    plaintextApiKeys: {},
+    encryptedApiKeys: '',
+    apiKeysFilePath: '',
+
+    // Custom OpenAI-compatible endpoints
+    customEndpoints: [],
+
+    // Local Ollama server (post-processing); empty = disabled
+    ollamaBaseUrl: '',
+
+    // Azure OpenAI
+    azureEndpoint: '',
+    azureApiVersion: '2024-10-21',
+    azureDeployments: { transcription: [], language: [] },
 
     // Local Models (Moonshine)
     moonshineModel: 'moonshine-tiny',
     moonshineAutoLoad: false,
+    localModelFolder: '',
+
+    // Local Whisper binary (desktop); empty binary = disabled
+    localWhisperEngine: 'whisper-cpp',
+    localWhisperBinary: '',
+    localWhisperModel: '',
+    localWhisperArgs: '',
+
+    // Echo provider: vault folder with transcript/completion fixtures; empty = disabled
+    echoFixtureFolder: '',
 
     // Recording
     audioQuality: AudioQuality.Medium,
@@ -77,7 +194,17 @@ export const DEFAULT_SETTINGS: NeuroVoxSettings = {
     micButtonColor: '#4B4B4B',
     transcriptionModel: 'whisper-1',
     transcriptionProvider: AIProvider.OpenAI,
+    transcriptionFallbacks: [],
     transcriptionCalloutFormat: '>[!info]- Transcription\n>![[{audioPath}]]\n>{transcription}',
+    identifySpeakers: false,
+    translateToEnglish: false,
+    liveTranscription: false,
+    transcriptionLanguage: '',
+    languageFrontmatterProperty: '',
+    modelsFrontmatterProperty: '',
+    glossaryTerms: '',
+    glossaryNotePath: '',
+    glossaryFolderPath: '',
     showTimer: true,
     autoStopEnabled: false,
     autoStopDuration: 5,
@@ -88,9 +215,16 @@ export const DEFAULT_SETTINGS: NeuroVoxSettings = {
     postProcessingMaxTokens: 500,
     postProcessingModel: 'gpt-4o-mini',
     postProcessingProvider: AIProvider.OpenAI,
+    postProcessingFallbacks: [],
     postProcessingTemperature: 0.7,
+    postProcessingReasoningEffort: 'medium',
     postProcessingCalloutFormat: '>[!note]- Post-Processing\n>{postProcessing}',
 
+    // Usage
+    usagePriceTable: DEFAULT_PRICE_TABLE,
+    monthlyBudgets: [],
+    confirmCostAbove: 1,
+
     // Current Provider
     currentProvider: AIProvider.OpenAI,
 
@@ -1,20 +1,33 @@
 // src/settings/accordions/ModelHookupAccordion.ts
 
 import { BaseAccordion } from "./BaseAccordion";
-import { NeuroVoxSettings } from "../Settings";
-import { Setting, Notice } from "obsidian";
-import { AIAdapter, AIProvider } from "../../adapters/AIAdapter";
+import { NeuroVoxSettings, CustomEndpoint, CustomAuthScheme, LocalWhisperEngine, SecretStorageMode } from "../Settings";
+import { Setting, Notice, Platform, TextComponent } from "obsidian";
+import { AIAdapter, AIProvider, clearDynamicModels } from "../../adapters/AIAdapter";
 import { MoonshineAdapter, MoonshineModelStatus } from "../../adapters/MoonshineAdapter";
+import { CustomAdapter } from "../../adapters/CustomAdapter";
+import { OllamaAdapter } from "../../adapters/OllamaAdapter";
+import { getEnvVariableName } from "../../utils/secrets/SecretStore";
+import { ConfirmModal } from "../../modals/ConfirmModal";
+import { PassphraseModal } from "../../modals/PassphraseModal";
 import NeuroVoxPlugin from "../../main";
 import { RecordingAccordion } from "./RecordingAccordion";
 import { PostProcessingAccordion } from "./PostProcessingAccordion";
 
+const KEY_STORAGE_DESCRIPTIONS: Record<SecretStorageMode, string> = {
+    keychain: "Encrypted by your operating system's keychain and kept on this device, outside the vault.",
+    passphrase: "Encrypted with your passphrase, so the vault can be synced safely. Asked for once per session.",
+    environment: "Read from environment variables such as NEUROVOX_OPENAI_API_KEY, or from a file outside the vault.",
+    plaintext: "Stored unencrypted in the plugin's data.json, where vault sync and git pick them up."
+};
+
 export class ModelHookupAccordion extends BaseAccordion {
     private recordingAccordion: RecordingAccordion | null = null;
     private postProcessingAccordion: PostProcessingAccordion | null = null;
     private moonshineStatusEl: HTMLElement | null = null;
     private moonshineButtonEl: HTMLButtonElement | null = null;
     private moonshineProgressEl: HTMLElement | null = null;
+    private customEndpointsEl: HTMLElement | null = null;
 
     constructor(
         containerEl: HTMLElement,
@@ -46,18 +59,19 @@ export class ModelHookupAccordion extends BaseAccordion {
     }
 
     render(): void {
+        this.createKeyStorageSection();
+
         const openaiSetting = new Setting(this.contentEl)
             .setName("OpenAI API key")
             .setDesc("Enter your OpenAI API key")
             .addText(text => {
                 text
                     .setPlaceholder("sk-...")
-                    .setValue(this.settings.openaiApiKey);
-                text.inputEl.type = "password";
+                    .setValue(this.plugin.secrets.get(AIProvider.OpenAI));
+                this.configureKeyField(text, AIProvider.OpenAI);
                 text.onChange(async (value: string) => {
                         const trimmedValue = value.trim();
-                        this.settings.openaiApiKey = trimmedValue;
-                        await this.plugin.saveSettings();
+                        await this.plugin.secrets.set(AIProvider.OpenAI, trimmedValue);
 
                         const adapter = this.getAdapter(AIProvider.OpenAI);
                         if (!adapter) {
@@ -79,6 +93,7 @@ export class ModelHookupAccordion extends BaseAccordion {
                         }
                     });
             });
+        this.addTestConnectionButton(openaiSetting, AIProvider.OpenAI);
 
         const groqSetting = new Setting(this.contentEl)
             .setName("Groq API key")
@@ -86,12 +101,11 @@ export class ModelHookupAccordion extends BaseAccordion {
             .addText(text => {
                 text
                     .setPlaceholder("gsk_...")
-                    .setValue(this.settings.groqApiKey);
-                text.inputEl.type = "password";
+                    .setValue(this.plugin.secrets.get(AIProvider.Groq));
+                this.configureKeyField(text, AIProvider.Groq);
                 text.onChange(async (value: string) => {
                         const trimmedValue = value.trim();
-                        this.settings.groqApiKey = trimmedValue;
-                        await this.plugin.saveSettings();
+                        await this.plugin.secrets.set(AIProvider.Groq, trimmedValue);
 
                         const adapter = this.getAdapter(AIProvider.Groq);
                         if (!adapter) {
@@ -113,6 +127,7 @@ export class ModelHookupAccordion extends BaseAccordion {
                         }
                     });
             });
+        this.addTestConnectionButton(groqSetting, AIProvider.Groq);
 
         const deepgramSetting = new Setting(this.contentEl)
             .setName("Deepgram API key")
@@ -120,12 +135,11 @@ export class ModelHookupAccordion extends BaseAccordion {
             .addText(text => {
                 text
                     .setPlaceholder("Enter your Deepgram API key...")
-                    .setValue(this.settings.deepgramApiKey);
-                text.inputEl.type = "password";
+                    .setValue(this.plugin.secrets.get(AIProvider.Deepgram));
+                this.configureKeyField(text, AIProvider.Deepgram);
                 text.onChange(async (value: string) => {
                         const trimmedValue = value.trim();
-                        this.settings.deepgramApiKey = trimmedValue;
-                        await this.plugin.saveSettings();
+                        await this.plugin.secrets.set(AIProvider.Deepgram, trimmedValue);
 
                         const adapter = this.getAdapter(AIProvider.Deepgram);
                         if (!adapter) {
@@ -147,6 +161,7 @@ export class ModelHookupAccordion extends BaseAccordion {
                         }
                     });
             });
+        this.addTestConnectionButton(deepgramSetting, AIProvider.Deepgram);
 
         const openrouterSetting = new Setting(this.contentEl)
             .setName("OpenRouter API key")
@@ -154,12 +169,11 @@ export class ModelHookupAccordion extends BaseAccordion {
             .addText(text => {
                 text
                     .setPlaceholder("sk-or-...")
-                    .setValue(this.settings.openrouterApiKey);
-                text.inputEl.type = "password";
+                    .setValue(this.plugin.secrets.get(AIProvider.OpenRouter));
+                this.configureKeyField(text, AIProvider.OpenRouter);
                 text.onChange(async (value: string) => {
                         const trimmedValue = value.trim();
-                        this.settings.openrouterApiKey = trimmedValue;
-                        await this.plugin.saveSettings();
+                        await this.plugin.secrets.set(AIProvider.OpenRouter, trimmedValue);
 
                         const adapter = this.getAdapter(AIProvider.OpenRouter);
                         if (!adapter) {
@@ -181,6 +195,75 @@ export class ModelHookupAccordion extends BaseAccordion {
                         }
                     });
             });
+        this.addTestConnectionButton(openrouterSetting, AIProvider.OpenRouter);
+
+        const anthropicSetting = new Setting(this.contentEl)
+            .setName("Anthropic API key")
+            .setDesc("Enter your Anthropic API key (used for post-processing)")
+            .addText(text => {
+                text
+                    .setPlaceholder("sk-ant-...")
+                    .setValue(this.plugin.secrets.get(AIProvider.Anthropic));
+                this.configureKeyField(text, AIProvider.Anthropic);
+                text.onChange(async (value: string) => {
+                        const trimmedValue = value.trim();
+                        await this.plugin.secrets.set(AIProvider.Anthropic, trimmedValue);
+
+                        const adapter = this.getAdapter(AIProvider.Anthropic);
+                        if (!adapter) {
+                            return;
+                        }
+
+                        adapter.setApiKey(trimmedValue);
+                        const isValid = await adapter.validateApiKey();
+
+                        if (isValid) {
+                            anthropicSetting.setDesc("✅ API key validated successfully");
+                            try {
+                                await this.refreshAccordions();
+                            } catch {
+                                anthropicSetting.setDesc("✅ API key valid, but failed to update model lists");
+                            }
+                        } else {
+                            anthropicSetting.setDesc("❌ Invalid API key. Please check your credentials.");
+                        }
+                    });
+            });
+        this.addTestConnectionButton(anthropicSetting, AIProvider.Anthropic);
+
+        const geminiSetting = new Setting(this.contentEl)
+            .setName("Gemini API key")
+            .setDesc("Enter your Gemini API key (used for transcription and post-processing)")
+            .addText(text => {
+                text
+                    .setPlaceholder("AIza...")
+                    .setValue(this.plugin.secrets.get(AIProvider.Gemini));
+                this.configureKeyField(text, AIProvider.Gemini);
+                text.onChange(async (value: string) => {
+                        const trimmedValue = value.trim();
+                        await this.plugin.secrets.set(AIProvider.Gemini, trimmedValue);
+
+                        const adapter = this.getAdapter(AIProvider.Gemini);
+                        if (!adapter) {
+                            return;
+                        }
+
+                        adapter.setApiKey(trimmedValue);
+                        const isValid = await adapter.validateApiKey();
+
+                        if (isValid) {
+                            geminiSetting.setDesc("✅ API key validated successfully");
+                            try {
+                                await this.refreshAccordions();
+                            } catch {
+                                geminiSetting.setDesc("✅ API key valid, but failed to update model lists");
+                            }
+                        } else {
+                            geminiSetting.setDesc("❌ Invalid API key. Please check your credentials.");
+                        }
+                    });
+            });
+        this.addTestConnectionButton(geminiSetting, AIProvider.Gemini);
 
         const assemblyaiSetting = new Setting(this.contentEl)
             .setName("AssemblyAI API key")
@@ -188,12 +271,11 @@ export class ModelHookupAccordion extends BaseAccordion {
             .addText(text => {
                 text
                     .setPlaceholder("Enter your AssemblyAI API key...")
-                    .setValue(this.settings.assemblyaiApiKey);
-                text.inputEl.type = "password";
+                    .setValue(this.plugin.secrets.get(AIProvider.AssemblyAI));
+                this.configureKeyField(text, AIProvider.AssemblyAI);
                 text.onChange(async (value: string) => {
                         const trimmedValue = value.trim();
-                        this.settings.assemblyaiApiKey = trimmedValue;
-                        await this.plugin.saveSettings();
+                        await this.plugin.secrets.set(AIProvider.AssemblyAI, trimmedValue);
 
                         const adapter = this.getAdapter(AIProvider.AssemblyAI);
                         if (!adapter) {
@@ -215,11 +297,634 @@ export class ModelHookupAccordion extends BaseAccordion {
                         }
                     });
             });
+        this.addTestConnectionButton(assemblyaiSetting, AIProvider.AssemblyAI);
+
+        const elevenlabsSetting = new Setting(this.contentEl)
+            .setName("ElevenLabs API key")
+            .setDesc("Enter your ElevenLabs API key (used for transcription)")
+            .addText(text => {
+                text
+                    .setPlaceholder("Enter your ElevenLabs API key...")
+                    .setValue(this.plugin.secrets.get(AIProvider.ElevenLabs));
+                this.configureKeyField(text, AIProvider.ElevenLabs);
+                text.onChange(async (value: string) => {
+                        const trimmedValue = value.trim();
+                        await this.plugin.secrets.set(AIProvider.ElevenLabs, trimmedValue);
+
+                        const adapter = this.getAdapter(AIProvider.ElevenLabs);
+                        if (!adapter) {
+                            return;
+                        }
+
+                        adapter.setApiKey(trimmedValue);
+                        const isValid = await adapter.validateApiKey();
+
+                        if (isValid) {
+                            elevenlabsSetting.setDesc("✅ API key validated successfully");
+                            try {
+                                await this.refreshAccordions();
+                            } catch {
+                                elevenlabsSetting.setDesc("✅ API key valid, but failed to update model lists");
+                            }
+                        } else {
+                            elevenlabsSetting.setDesc("❌ Invalid API key. Please check your credentials.");
+                        }
+                    });
+            });
+        this.addTestConnectionButton(elevenlabsSetting, AIProvider.ElevenLabs);
+
+        // Azure OpenAI resource and its deployments
+        this.createAzureSection();
+
+        // Local Ollama server for post-processing
+        this.createOllamaSection();
+
+        // Custom OpenAI-compatible endpoints (self-hosted Whisper, LM Studio, ...)
+        this.createCustomEndpointsSection();
 
         // Moonshine Local Model Section
-        // TEMPORARILY HIDDEN: local model feature is still in development and
-        // hidden from the UI for release. Re-enable by uncommenting the call below.
-        // this.createMoonshineSection();
+        this.createMoonshineSection();
+
+        // whisper.cpp / faster-whisper binary on this computer
+        if (Platform.isDesktopApp) {
+            this.createLocalWhisperSection();
+        }
+
+        // Echo stand-in provider for trying flows out offline
+        this.createEchoSection();
+    }
+
+    private rerender(): void {
+        this.contentEl.empty();
+        this.render();
+    }
+
+    private createKeyStorageSection(): void {
+        const secrets = this.plugin.secrets;
+        const mode = this.settings.secretStorage;
+
+        const storageSetting = new Setting(this.contentEl)
+            .setName("Key storage")
+            .setDesc(KEY_STORAGE_DESCRIPTIONS[mode])
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('keychain', "System keychain")
+                    .addOption('passphrase', "Encrypted with a passphrase")
+                    .addOption('environment', "Environment variables")
+                    .addOption('plaintext', "Plugin settings (plaintext)")
+                    .setValue(mode)
+                    .onChange(async (value: string) => {
+                        const next = value as SecretStorageMode;
+                        let passphrase: string | undefined;
+                        if (next === 'passphrase') {
+                            passphrase = await PassphraseModal.ask(
+                                this.plugin.app,
+                                "Choose a passphrase",
+                                "Your API keys will be encrypted with this passphrase and asked for once per session. It cannot be recovered if you forget it.",
+                                "Encrypt keys"
+                            ) ?? undefined;
+                        } else if (next === 'environment' && secrets.isWritable()) {
+                            const confirmed = await ConfirmModal.ask(
+                                this.plugin.app,
+                                "Read keys from the environment",
+                                "The API keys saved here will be deleted. Set them as environment variables or in a key file first.",
+                                "Delete saved keys"
+                            );
+                            if (!confirmed) {
+                                dropdown.setValue(mode);
+                                return;
+                            }
+                        }
+                        if (next === 'passphrase' && !passphrase) {
+                            dropdown.setValue(mode);
+                            return;
+                        }
+
+                        try {
+                            await secrets.switchMode(next, passphrase);
+                            this.plugin.applyApiKeys();
+                        } catch (error) {
+                            new Notice(`❌ Could not move API keys: ${error instanceof Error ? error.message : String(error)}`);
+                        }
+                        this.rerender();
+                    });
+            });
+
+        const unavailable = secrets.getUnavailableReason();
+        if (unavailable) {
+            storageSetting.setDesc(`⚠️ ${unavailable}`);
+        }
+        if (secrets.isLocked()) {
+            storageSetting.addButton(button => {
+                button
+                    .setButtonText("Unlock")
+                    .setCta()
+                    .onClick(async () => {
+                        if (await this.plugin.unlockApiKeys()) {
+                            this.rerender();
+                        }
+                    });
+            });
+        }
+
+        if (mode === 'environment') {
+            new Setting(this.contentEl)
+                .setName("Key file")
+                .setDesc("Optional file outside the vault with the same variables, one per line as in a .env file. Environment variables take precedence.")
+                .addText(text => {
+                    text
+                        .setPlaceholder("~/.config/neurovox/keys.env")
+                        .setValue(this.settings.apiKeysFilePath)
+                        .onChange(async (value: string) => {
+                            this.settings.apiKeysFilePath = value.trim();
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addButton(button => {
+                    button
+                        .setButtonText("Reload keys")
+                        .onClick(async () => {
+                            await secrets.load();
+                            this.plugin.applyApiKeys();
+                            this.rerender();
+                        });
+                });
+        }
+    }
+
+    /**
+     * Masks a key field, shows which environment variable supplies it in environment mode,
+     * and locks it while keys can't be saved from here.
+     */
+    private configureKeyField(text: TextComponent, name: string): void {
+        text.inputEl.type = "password";
+        if (this.settings.secretStorage === 'environment') {
+            text.setPlaceholder(getEnvVariableName(name));
+        }
+        text.setDisabled(!this.plugin.secrets.isWritable());
+    }
+
+    /**
+     * "Test connection" next to a provider's key: checks the connection now and, when it
+     * fails, shows the HTTP status and the provider's error message.
+     */
+    private addTestConnectionButton(setting: Setting, provider: AIProvider): void {
+        setting.addButton(button => {
+            button
+                .setButtonText("Test connection")
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    setting.setDesc("Testing connection...");
+                    try {
+                        const failure = await this.getAdapter(provider).testConnection();
+                        if (failure) {
+                            setting.setDesc(`❌ ${failure}`);
+                            return;
+                        }
+                        setting.setDesc("✅ Connection works");
+                        try {
+                            await this.refreshAccordions();
+                        } catch {
+                            setting.setDesc("✅ Connection works, but failed to update model lists");
+                        }
+                    } finally {
+                        button.setDisabled(false);
+                    }
+                });
+        });
+    }
+
+    private createAzureSection(): void {
+        this.contentEl.createEl('hr', { cls: 'neurovox-separator' });
+
+        const headerEl = this.contentEl.createDiv({ cls: 'neurovox-local-model-header' });
+        headerEl.createEl('h4', { text: '☁️ Azure OpenAI' });
+        headerEl.createEl('p', {
+            cls: 'neurovox-local-model-note',
+            text: 'Use Whisper and GPT deployments from your Azure OpenAI resource.'
+        });
+
+        // Key, endpoint and API version are validated together: any of them can break the connection.
+        const revalidate = async () => {
+            await this.plugin.saveSettings();
+
+            const adapter = this.getAdapter(AIProvider.Azure);
+            if (!adapter) {
+                return;
+            }
+
+            adapter.setApiKey(this.plugin.secrets.get(AIProvider.Azure));
+            if (!adapter.isConfigured()) {
+                azureSetting.setDesc("Enter the API key and resource endpoint");
+                return;
+            }
+
+            const isValid = await adapter.validateApiKey();
+            if (isValid) {
+                azureSetting.setDesc("✅ API key validated successfully");
+                try {
+                    await this.refreshAccordions();
+                } catch {
+                    azureSetting.setDesc("✅ API key valid, but failed to update model lists");
+                }
+            } else {
+                azureSetting.setDesc("❌ Invalid API key, endpoint or API version. Please check your credentials.");
+            }
+        };
+
+        const azureSetting = new Setting(this.contentEl)
+            .setName("Azure OpenAI API key")
+            .setDesc("Enter the key of your Azure OpenAI resource")
+            .addText(text => {
+                text
+                    .setPlaceholder("Enter your Azure OpenAI API key...")
+                    .setValue(this.plugin.secrets.get(AIProvider.Azure));
+                this.configureKeyField(text, AIProvider.Azure);
+                text.onChange(async (value: string) => {
+                    await this.plugin.secrets.set(AIProvider.Azure, value.trim());
+                    await revalidate();
+                });
+            });
+        this.addTestConnectionButton(azureSetting, AIProvider.Azure);
+
+        new Setting(this.contentEl)
+            .setName("Resource endpoint")
+            .setDesc("The endpoint shown for your resource in the Azure portal")
+            .addText(text => {
+                text
+                    .setPlaceholder("https://my-resource.openai.azure.com")
+                    .setValue(this.settings.azureEndpoint)
+                    .onChange(async (value: string) => {
+                        this.settings.azureEndpoint = value.trim();
+                        await revalidate();
+                    });
+            });
+
+        new Setting(this.contentEl)
+            .setName("API version")
+            .setDesc("Date-stamped API version sent with every request")
+            .addText(text => {
+                text
+                    .setPlaceholder("2024-10-21")
+                    .setValue(this.settings.azureApiVersion)
+                    .onChange(async (value: string) => {
+                        this.settings.azureApiVersion = value.trim();
+                        await revalidate();
+                    });
+            });
+
+        const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+        new Setting(this.contentEl)
+            .setName("Transcription deployments")
+            .setDesc("Comma-separated names of your Whisper or GPT transcription deployments. Add the model after an equals sign when a name doesn't show which one it serves.")
+            .addText(text => {
+                text
+                    .setPlaceholder("Whisper")
+                    .setValue(this.settings.azureDeployments.transcription.join(', '))
+                    .onChange(async (value: string) => {
+                        // Replace rather than mutate: the object may still be DEFAULT_SETTINGS'.
+                        this.settings.azureDeployments = { ...this.settings.azureDeployments, transcription: parseList(value) };
+                        await this.plugin.saveSettings();
+                        await this.refreshAccordions();
+                    });
+            });
+
+        new Setting(this.contentEl)
+            .setName("Chat deployments")
+            .setDesc("Comma-separated names of the GPT deployments used for post-processing. Add the model after an equals sign when a name doesn't show which one it serves.")
+            .addText(text => {
+                text
+                    .setPlaceholder("GPT-4o-mini")
+                    .setValue(this.settings.azureDeployments.language.join(', '))
+                    .onChange(async (value: string) => {
+                        this.settings.azureDeployments = { ...this.settings.azureDeployments, language: parseList(value) };
+                        await this.plugin.saveSettings();
+                        await this.refreshAccordions();
+                    });
+            });
+    }
+
+    private createOllamaSection(): void {
+        this.contentEl.createEl('hr', { cls: 'neurovox-separator' });
+
+        const headerEl = this.contentEl.createDiv({ cls: 'neurovox-local-model-header' });
+        headerEl.createEl('h4', { text: '🦙 Ollama' });
+        headerEl.createEl('p', {
+            cls: 'neurovox-local-model-note',
+            text: 'Run post-processing on your own machine. No API key needed; transcripts never leave the device.'
+        });
+
+        const ollamaSetting = new Setting(this.contentEl)
+            .setName("Ollama server URL")
+            .setDesc("Leave empty to disable. Installed models appear in the post-processing model list.")
+            .addText(text => {
+                text
+                    .setPlaceholder("http://localhost:11434")
+                    .setValue(this.settings.ollamaBaseUrl)
+                    .onChange(async (value: string) => {
+                        this.settings.ollamaBaseUrl = value.trim();
+                        clearDynamicModels(AIProvider.Ollama);
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addButton(button => {
+                button
+                    .setButtonText("Check")
+                    .onClick(async () => {
+                        const adapter = this.getAdapter(AIProvider.Ollama) as OllamaAdapter;
+                        if (!adapter.isConfigured()) {
+                            ollamaSetting.setDesc("❌ Enter the server URL first.");
+                            return;
+                        }
+
+                        const isReachable = await adapter.checkConnection();
+                        if (isReachable) {
+                            ollamaSetting.setDesc("✅ Ollama server reachable");
+                            try {
+                                await this.refreshAccordions();
+                            } catch {
+                                ollamaSetting.setDesc("✅ Server reachable, but failed to update model lists");
+                            }
+                        } else {
+                            ollamaSetting.setDesc("❌ Could not reach Ollama. Is it running at this URL?");
+                        }
+                    });
+            });
+    }
+
+    private createCustomEndpointsSection(): void {
+        this.contentEl.createEl('hr', { cls: 'neurovox-separator' });
+
+        const headerEl = this.contentEl.createDiv({ cls: 'neurovox-local-model-header' });
+        headerEl.createEl('h4', { text: '🌐 Custom endpoints' });
+        headerEl.createEl('p', {
+            cls: 'neurovox-local-model-note',
+            text: 'Servers that speak the OpenAI transcription or chat completions API, such as a self-hosted Whisper server or LM Studio.'
+        });
+
+        this.customEndpointsEl = this.contentEl.createDiv();
+        this.renderCustomEndpoints();
+
+        new Setting(this.contentEl)
+            .addButton(button => {
+                button
+                    .setButtonText("Add endpoint")
+                    .onClick(async () => {
+                        // Replace rather than push: on a fresh install the array is still the
+                        // one shared with DEFAULT_SETTINGS.
+                        this.settings.customEndpoints = [
+                            ...this.settings.customEndpoints,
+                            {
+                                id: `custom-${Date.now().toString(36)}`,
+                                name: `Endpoint ${this.settings.customEndpoints.length + 1}`,
+                                baseUrl: '',
+                                authScheme: 'bearer',
+                                authHeaderName: '',
+                                transcriptionModels: [],
+                                languageModels: []
+                            }
+                        ];
+                        await this.plugin.saveSettings();
+                        this.renderCustomEndpoints();
+                    });
+            });
+    }
+
+    private renderCustomEndpoints(): void {
+        if (!this.customEndpointsEl) return;
+        this.customEndpointsEl.empty();
+
+        for (const endpoint of this.settings.customEndpoints) {
+            this.renderCustomEndpoint(this.customEndpointsEl.createDiv({ cls: 'neurovox-custom-endpoint' }), endpoint);
+        }
+    }
+
+    private renderCustomEndpoint(containerEl: HTMLElement, endpoint: CustomEndpoint): void {
+        // Persist every edit, and refresh the model pickers when something they show changes.
+        const save = async (refreshModels: boolean) => {
+            await this.plugin.saveSettings();
+            if (refreshModels) {
+                await this.refreshAccordions();
+            }
+        };
+        const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+        const nameSetting = new Setting(containerEl)
+            .setName("Endpoint name")
+            .setDesc("Shown next to this endpoint's models in the model pickers")
+            .addText(text => {
+                text
+                    .setValue(endpoint.name)
+                    .onChange(async (value: string) => {
+                        endpoint.name = value.trim();
+                        await save(true);
+                    });
+            })
+            .addButton(button => {
+                button
+                    .setButtonText("Check")
+                    .onClick(async () => {
+                        const adapter = this.getAdapter(AIProvider.Custom) as CustomAdapter;
+                        const isValid = await adapter.validateEndpoint(endpoint);
+                        nameSetting.setDesc(isValid
+                            ? "✅ Endpoint reachable"
+                            : "❌ Could not reach the endpoint. Please check the base URL and credentials.");
+                    });
+            })
+            .addButton(button => {
+                button
+                    .setButtonText("Remove")
+                    .setWarning()
+                    .onClick(async () => {
+                        this.settings.customEndpoints = this.settings.customEndpoints.filter(e => e.id !== endpoint.id);
+                        if (this.plugin.secrets.isWritable()) {
+                            await this.plugin.secrets.set(endpoint.id, '');
+                        }
+                        await save(true);
+                        this.renderCustomEndpoints();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Base URL")
+            .setDesc("Everything before /audio/transcriptions or /chat/completions")
+            .addText(text => {
+                text
+                    .setPlaceholder("http://192.168.1.20:8000/v1")
+                    .setValue(endpoint.baseUrl)
+                    .onChange(async (value: string) => {
+                        endpoint.baseUrl = value.trim();
+                        await save(true);
+                    });
+                text.inputEl.addClass("neurovox-full-width");
+            });
+
+        new Setting(containerEl)
+            .setName("API key")
+            .setDesc("Leave empty if the server does not require one")
+            .addText(text => {
+                text.setValue(this.plugin.secrets.get(endpoint.id));
+                this.configureKeyField(text, endpoint.id);
+                text.onChange(async (value: string) => {
+                    await this.plugin.secrets.set(endpoint.id, value.trim());
+                });
+            });
+
+        new Setting(containerEl)
+            .setName("Auth scheme")
+            .setDesc("How the API key is sent")
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('bearer', "Authorization: bearer <key>")
+                    .addOption('header', "Custom header")
+                    .addOption('none', "No authentication")
+                    .setValue(endpoint.authScheme)
+                    .onChange(async (value: string) => {
+                        endpoint.authScheme = value as CustomAuthScheme;
+                        headerNameSetting.settingEl.toggleClass('neurovox-hidden', endpoint.authScheme !== 'header');
+                        await save(false);
+                    });
+            });
+        const headerNameSetting = new Setting(containerEl)
+            .setName("Auth header name")
+            .setDesc("Header that carries the bare API key")
+            .addText(text => {
+                text
+                    .setPlaceholder("API-key")
+                    .setValue(endpoint.authHeaderName)
+                    .onChange(async (value: string) => {
+                        endpoint.authHeaderName = value.trim();
+                        await save(false);
+                    });
+            });
+        headerNameSetting.settingEl.toggleClass('neurovox-hidden', endpoint.authScheme !== 'header');
+
+
+        new Setting(containerEl)
+            .setName("Transcription models")
+            .setDesc("Comma-separated model ids served at /audio/transcriptions")
+            .addText(text => {
+                text
+                    .setPlaceholder("Systran/faster-whisper-large-v3")
+                    .setValue(endpoint.transcriptionModels.join(', '))
+                    .onChange(async (value: string) => {
+                        endpoint.transcriptionModels = parseList(value);
+                        await save(true);
+                    });
+                text.inputEl.addClass("neurovox-full-width");
+            });
+
+        new Setting(containerEl)
+            .setName("Chat models")
+            .setDesc("Comma-separated model ids served at /chat/completions (used for post-processing)")
+            .addText(text => {
+                text
+                    .setPlaceholder("Qwen2.5-7b-instruct")
+                    .setValue(endpoint.languageModels.join(', '))
+                    .onChange(async (value: string) => {
+                        endpoint.languageModels = parseList(value);
+                        await save(true);
+                    });
+                text.inputEl.addClass("neurovox-full-width");
+            });
+    }
+
+    private createLocalWhisperSection(): void {
+        this.contentEl.createEl('hr', { cls: 'neurovox-separator' });
+
+        const headerEl = this.contentEl.createDiv({ cls: 'neurovox-local-model-header' });
+        headerEl.createEl('h4', { text: '💻 Local Whisper binary' });
+        headerEl.createEl('p', {
+            cls: 'neurovox-local-model-note',
+            text: 'Transcribe with whisper.cpp or a faster-whisper CLI installed on this computer. Free and fully offline; desktop only.'
+        });
+
+        // The pickers list the binary once it and its model are set
+        const refreshPickers = () => { void this.refreshAccordions(); };
+
+        new Setting(this.contentEl)
+            .setName("Engine")
+            .setDesc("Which command-line options the binary takes. faster-whisper covers whisper-ctranslate2 and faster-whisper-xxl.")
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('whisper-cpp', 'whisper.cpp (whisper-cli)')
+                    .addOption('faster-whisper', 'faster-whisper')
+                    .setValue(this.settings.localWhisperEngine)
+                    .onChange(async (value) => {
+                        this.settings.localWhisperEngine = value as LocalWhisperEngine;
+                        await this.plugin.saveSettings();
+                        refreshPickers();
+                    });
+            });
+
+        const binarySetting = new Setting(this.contentEl)
+            .setName("Binary")
+            .setDesc("Full path to the executable. Leave empty to disable.")
+            .addText(text => {
+                text
+                    .setPlaceholder("/usr/local/bin/whisper-cli")
+                    .setValue(this.settings.localWhisperBinary)
+                    .onChange(async (value) => {
+                        this.settings.localWhisperBinary = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.addEventListener("blur", refreshPickers);
+            });
+        this.addTestConnectionButton(binarySetting, AIProvider.LocalProcess);
+
+        new Setting(this.contentEl)
+            .setName("Model")
+            .setDesc("For whisper.cpp, the full path to a ggml model file. For faster-whisper, a model name such as small or large-v3.")
+            .addText(text => {
+                text
+                    .setPlaceholder("/models/ggml-base.en.bin")
+                    .setValue(this.settings.localWhisperModel)
+                    .onChange(async (value) => {
+                        this.settings.localWhisperModel = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.addEventListener("blur", refreshPickers);
+            });
+
+        new Setting(this.contentEl)
+            .setName("Extra arguments")
+            .setDesc("Added to the end of the command line, e.g. -t 8 for more threads. Quote values that contain spaces.")
+            .addText(text => {
+                text
+                    .setPlaceholder("-t 8")
+                    .setValue(this.settings.localWhisperArgs)
+                    .onChange(async (value) => {
+                        this.settings.localWhisperArgs = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    private createEchoSection(): void {
+        this.contentEl.createEl('hr', { cls: 'neurovox-separator' });
+
+        const headerEl = this.contentEl.createDiv({ cls: 'neurovox-local-model-header' });
+        headerEl.createEl('h4', { text: '🧪 Echo (testing)' });
+        headerEl.createEl('p', {
+            cls: 'neurovox-local-model-note',
+            text: 'A stand-in provider that answers from files in a vault folder: transcript.json or transcript.txt for transcriptions, completion.txt for post-processing. Without them it describes the audio and echoes the prompt. Nothing is sent anywhere.'
+        });
+
+        const echoSetting = new Setting(this.contentEl)
+            .setName("Fixture folder")
+            .setDesc("Leave empty to disable. Echo models appear in the model lists once it is set.")
+            .addText(text => {
+                text
+                    .setPlaceholder("NeuroVox/fixtures")
+                    .setValue(this.settings.echoFixtureFolder)
+                    .onChange(async (value) => {
+                        this.settings.echoFixtureFolder = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.addEventListener("blur", () => { void this.refreshAccordions(); });
+            });
+        this.addTestConnectionButton(echoSetting, AIProvider.Echo);
     }
 
     private createMoonshineSection(): void {
@@ -232,12 +937,13 @@ export class ModelHookupAccordion extends BaseAccordion {
 
         // Model selection
         new Setting(this.contentEl)
-            .setName("Moonshine model")
-            .setDesc("Select model size. Tiny is faster (~50 MB), base is more accurate (~400 MB).")
+            .setName("Local model")
+            .setDesc("Runs on this device, so recordings never leave it. Moonshine is faster but English-only; Whisper handles other languages.")
             .addDropdown(dropdown => {
+                MoonshineAdapter.getAvailableModels().forEach(model => {
+                    dropdown.addOption(model.id, `${model.name} (${model.size})`);
+                });
                 dropdown
-                    .addOption("moonshine-tiny", "Moonshine tiny (27m params)")
-                    .addOption("moonshine-base", "Moonshine base (62m params)")
                     .setValue(this.settings.moonshineModel)
                     .onChange(async (value) => {
                         this.settings.moonshineModel = value;
@@ -246,6 +952,27 @@ export class ModelHookupAccordion extends BaseAccordion {
                     });
             });
 
+        // Where model files come from
+        new Setting(this.contentEl)
+            .setName("Model folder")
+            .setDesc("Leave empty to download models into the plugin folder. Or enter a folder holding model repositories cloned from Hugging Face, in the vault or (on desktop) a full path; its files are used as they are and nothing is downloaded.")
+            .addText(text => {
+                text
+                    .setPlaceholder("Plugin folder")
+                    .setValue(this.settings.localModelFolder)
+                    .onChange(async (value) => {
+                        this.settings.localModelFolder = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.addEventListener("blur", () => {
+                    const adapter = this.getAdapter(AIProvider.Moonshine) as MoonshineAdapter;
+                    void adapter.refreshModelStatus().then(async () => {
+                        this.updateMoonshineUI();
+                        await this.refreshAccordions();
+                    });
+                });
+            });
+
         // Status and button
         const moonshineSetting = new Setting(this.contentEl)
             .setName("Model status");
@@ -256,16 +983,13 @@ export class ModelHookupAccordion extends BaseAccordion {
         this.moonshineProgressEl = this.contentEl.createDiv({ cls: 'neurovox-progress-container neurovox-hidden' });
         const progressBar = this.moonshineProgressEl.createDiv({ cls: 'neurovox-progress-bar' });
         progressBar.createDiv({ cls: 'neurovox-progress-fill' });
-        this.moonshineProgressEl.createDiv({ cls: 'neurovox-progress-text', text: 'Downloading...' });
+        this.moonshineProgressEl.createDiv({ cls: 'neurovox-progress-text', text: 'Loading...' });
 
         moonshineSetting.addButton(button => {
             this.moonshineButtonEl = button.buttonEl;
             button.onClick(() => this.handleMoonshineButton());
         });
 
-        // Add styles
-        this.addMoonshineStyles();
-
         // Initial UI update
         this.updateMoonshineUI();
     }
@@ -275,12 +999,17 @@ export class ModelHookupAccordion extends BaseAccordion {
         if (!adapter || !this.moonshineStatusEl || !this.moonshineButtonEl) return;
 
         const status = adapter.getModelStatus(this.settings.moonshineModel);
-        const modelName = this.settings.moonshineModel === 'moonshine-tiny' ? 'Tiny' : 'Base';
+        const modelName = MoonshineAdapter.getAvailableModels()
+            .find(model => model.id === this.settings.moonshineModel)?.name ?? this.settings.moonshineModel;
+        // With a model folder set, files are loaded from it and never downloaded or deleted
+        const canDownload = adapter.canDownloadModels();
 
         switch (status) {
             case MoonshineModelStatus.NotDownloaded:
-                this.moonshineStatusEl.textContent = `${modelName} model not downloaded`;
-                this.moonshineButtonEl.textContent = 'Download';
+                this.moonshineStatusEl.textContent = canDownload
+                    ? `${modelName} model not downloaded`
+                    : `${modelName} model not found in the model folder`;
+                this.moonshineButtonEl.textContent = canDownload ? 'Download' : 'Load';
                 this.moonshineButtonEl.removeClass('mod-warning');
                 this.moonshineButtonEl.addClass('mod-cta');
                 this.moonshineButtonEl.disabled = false;
@@ -288,15 +1017,24 @@ export class ModelHookupAccordion extends BaseAccordion {
                 break;
 
             case MoonshineModelStatus.Downloading:
-                this.moonshineStatusEl.textContent = `Downloading ${modelName} model...`;
-                this.moonshineButtonEl.textContent = 'Downloading...';
+                this.moonshineStatusEl.textContent = `Loading ${modelName} model...`;
+                this.moonshineButtonEl.textContent = 'Loading...';
                 this.moonshineButtonEl.disabled = true;
                 this.showProgress(adapter.getDownloadProgress());
                 break;
 
+            case MoonshineModelStatus.Downloaded:
+                this.moonshineStatusEl.textContent = `✅ ${modelName} model on disk, loads on first use`;
+                this.moonshineButtonEl.textContent = canDownload ? 'Delete' : 'Load';
+                this.moonshineButtonEl.toggleClass('mod-cta', !canDownload);
+                this.moonshineButtonEl.toggleClass('mod-warning', canDownload);
+                this.moonshineButtonEl.disabled = false;
+                this.hideProgress();
+                break;
+
             case MoonshineModelStatus.Ready:
-                this.moonshineStatusEl.textContent = `✅ ${modelName} model ready`;
-                this.moonshineButtonEl.textContent = 'Delete';
+                this.moonshineStatusEl.textContent = `✅ ${modelName} model loaded`;
+                this.moonshineButtonEl.textContent = canDownload ? 'Delete' : 'Unload';
                 this.moonshineButtonEl.removeClass('mod-cta');
                 this.moonshineButtonEl.addClass('mod-warning');
                 this.moonshineButtonEl.disabled = false;
@@ -319,36 +1057,45 @@ export class ModelHookupAccordion extends BaseAccordion {
         if (!adapter) return;
 
         const status = adapter.getModelStatus(this.settings.moonshineModel);
+        const onDisk = status === MoonshineModelStatus.Ready || status === MoonshineModelStatus.Downloaded;
 
-        if (status === MoonshineModelStatus.Ready) {
-            // Delete/unload the model
+        if (onDisk && adapter.canDownloadModels()) {
+            // Delete the downloaded files
+            try {
+                await adapter.deleteModel(this.settings.moonshineModel);
+                new Notice('Local model deleted');
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                new Notice(`Failed to delete model: ${message}`);
+            }
+            this.updateMoonshineUI();
+            await this.refreshAccordions();
+        } else if (status === MoonshineModelStatus.Ready) {
+            // Files in the model folder stay; just free the memory
             await adapter.unloadModel();
-            new Notice('Moonshine model unloaded');
+            new Notice('Local model unloaded');
             this.updateMoonshineUI();
             await this.refreshAccordions();
         } else {
             // Download/load the model
+            // Poll for progress updates
+            const progressInterval = window.setInterval(() => {
+                if (adapter.isDownloading()) {
+                    this.showProgress(adapter.getDownloadProgress());
+                }
+            }, 500);
             try {
+                const loading = adapter.ensureModelLoaded(this.settings.moonshineModel);
                 this.updateMoonshineUI();
+                await loading;
 
-                // Poll for progress updates
-                const progressInterval = window.setInterval(() => {
-                    if (adapter.isDownloading()) {
-                        this.showProgress(adapter.getDownloadProgress());
-                    }
-                }, 500);
-
-                await adapter.ensureModelLoaded(this.settings.moonshineModel);
-
-                window.clearInterval(progressInterval);
                 this.updateMoonshineUI();
                 await this.refreshAccordions();
-
-                new Notice('Moonshine model downloaded and ready!');
-            } catch (error) {
+            } catch {
+                // ensureModelLoaded has already shown the error
                 this.updateMoonshineUI();
-                const message = error instanceof Error ? error.message : 'Unknown error';
-                new Notice(`Failed to download model: ${message}`);
+            } finally {
+                window.clearInterval(progressInterval);
             }
         }
     }
@@ -361,18 +1108,11 @@ export class ModelHookupAccordion extends BaseAccordion {
         const text = this.moonshineProgressEl.querySelector('.neurovox-progress-text') as HTMLElement;
 
         if (fill) fill.style.width = `${percent}%`;
-        if (text) text.textContent = `Downloading... ${percent}%`;
+        if (text) text.textContent = `Loading... ${percent}%`;
     }
 
     private hideProgress(): void {
         if (!this.moonshineProgressEl) return;
         this.moonshineProgressEl.addClass('neurovox-hidden');
     }
-
-    private addMoonshineStyles(): void {
-        // No-op: the local-model styles now live in styles.css (Obsidian review
-        // guidelines discourage runtime <style> injection). Kept as a stub so the
-        // disabled createMoonshineSection() path still compiles for when the
-        // local-model feature is re-enabled.
-    }
 }
@@ -1,13 +1,25 @@
 // src/settings/accordions/PostProcessingAccordion.ts
 
 import { BaseAccordion } from "./BaseAccordion";
-import { NeuroVoxSettings } from "../Settings";
-import { Setting, TextComponent, TextAreaComponent, SliderComponent } from "obsidian";
-import { AIAdapter, AIModel, AIProvider, AIModels, getModelInfo } from "../../adapters/AIAdapter";
+import { NeuroVoxSettings, ReasoningEffort } from "../Settings";
+import { Setting, TextComponent, TextAreaComponent, SliderComponent, DropdownComponent } from "obsidian";
+import { AIAdapter, AIModel, AIProvider, AIModels, getModelInfo, pickReasoningEffort } from "../../adapters/AIAdapter";
 import NeuroVoxPlugin from "../../main";
 
-// Providers that support post-processing (language) and expose a /models catalog.
-const LANGUAGE_PROVIDERS = [AIProvider.OpenAI, AIProvider.Groq, AIProvider.OpenRouter];
+// Providers that support post-processing (language): hosted ones expose a /models catalog,
+// Ollama lists its installed models, Azure deployments and custom endpoints come from settings.
+// Echo answers from fixtures and is only offered once its folder is set.
+const LANGUAGE_PROVIDERS = [
+    AIProvider.OpenAI,
+    AIProvider.Groq,
+    AIProvider.OpenRouter,
+    AIProvider.Anthropic,
+    AIProvider.Gemini,
+    AIProvider.Azure,
+    AIProvider.Ollama,
+    AIProvider.Custom,
+    AIProvider.Echo
+];
 
 export class PostProcessingAccordion extends BaseAccordion {
     private modelInput: TextComponent | null = null;
@@ -16,6 +28,10 @@ export class PostProcessingAccordion extends BaseAccordion {
     private promptArea: TextAreaComponent | null = null;
     private maxTokensSlider: SliderComponent | null = null;
     private temperatureSlider: SliderComponent | null = null;
+    private temperatureSetting: Setting | null = null;
+    private reasoningSetting: Setting | null = null;
+    private reasoningDropdown: DropdownComponent | null = null;
+    private fallbackListEl: HTMLElement | null = null;
 
     // Maps a selectable model id -> its provider, rebuilt whenever the list refreshes.
     private modelLookup: Map<string, AIProvider> = new Map();
@@ -26,6 +42,7 @@ export class PostProcessingAccordion extends BaseAccordion {
         }
 
         await this.setupModelSelector();
+        this.renderFallbackModels();
 
         if (this.settings.postProcessingModel) {
             await this.updateMaxTokensLimit(this.settings.postProcessingModel)
@@ -48,10 +65,13 @@ export class PostProcessingAccordion extends BaseAccordion {
     render(): void {
         this.addEnableToggle();
         this.addModelSelection();
+        this.addFallbackModels();
         this.addPromptTemplate();
         this.addSummaryFormat();
         this.addMaxTokens();
         this.addTemperatureControl();
+        this.addReasoningEffortControl();
+        this.updateModelOptions();
     }
 
     private addEnableToggle(): void {
@@ -75,7 +95,7 @@ export class PostProcessingAccordion extends BaseAccordion {
 
         this.modelSetting = new Setting(this.contentEl)
             .setName("Post-processing model")
-            .setDesc("Type to search models from your configured providers (OpenAI, Groq, OpenRouter)")
+            .setDesc("Type to search models from your configured providers (OpenAI, Groq, OpenRouter, Anthropic, Gemini, Azure, Ollama, custom endpoints)")
             .addText(text => {
                 this.modelInput = text;
 
@@ -117,6 +137,7 @@ export class PostProcessingAccordion extends BaseAccordion {
                     await this.plugin.saveSettings();
                     await this.updateMaxTokensLimit(modelId);
                     this.updateSelectedModelDesc();
+                    this.updateModelOptions();
                 });
             });
     }
@@ -132,12 +153,11 @@ export class PostProcessingAccordion extends BaseAccordion {
         // Gather models from every configured language provider (live catalog when
         // available, static fallback otherwise).
         const fetches = LANGUAGE_PROVIDERS.map(async provider => {
-            const apiKey = this.settings[`${provider}ApiKey` as keyof NeuroVoxSettings];
-            if (!apiKey) {
+            const adapter = this.getAdapter(provider);
+            if (!adapter?.isConfigured()) {
                 return { provider, models: [] as AIModel[] };
             }
-            const adapter = this.getAdapter(provider);
-            const models = adapter ? await adapter.fetchLanguageModels() : [];
+            const models = await adapter.fetchLanguageModels();
             return { provider, models };
         });
 
@@ -183,6 +203,7 @@ export class PostProcessingAccordion extends BaseAccordion {
         }
 
         this.updateSelectedModelDesc();
+        this.updateModelOptions();
         await this.plugin.saveSettings();
     }
 
@@ -196,10 +217,66 @@ export class PostProcessingAccordion extends BaseAccordion {
         this.modelSetting.setDesc(
             id
                 ? `Type to search • Selected: ${id}`
-                : "Type to search models from your configured providers (OpenAI, Groq, OpenRouter)"
+                : "Type to search models from your configured providers (OpenAI, Groq, OpenRouter, Anthropic, Gemini, Azure, Ollama, custom endpoints)"
         );
     }
 
+    private addFallbackModels(): void {
+        new Setting(this.contentEl)
+            .setName("Fallback models")
+            .setDesc("Tried in order when the post-processing model fails with a server error, rate limit, timeout or missing key")
+            .addButton(button => button
+                .setButtonText("Add fallback")
+                .onClick(() => {
+                    // Replace rather than push: the array may still be DEFAULT_SETTINGS' own.
+                    this.settings.postProcessingFallbacks = [
+                        ...this.settings.postProcessingFallbacks,
+                        { provider: this.settings.postProcessingProvider, model: '' }
+                    ];
+                    this.renderFallbackModels();
+                }));
+
+        this.fallbackListEl = this.contentEl.createDiv();
+        this.renderFallbackModels();
+    }
+
+    /** One search box per fallback, sharing the main selector's datalist of models. */
+    private renderFallbackModels(): void {
+        const listEl = this.fallbackListEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        this.settings.postProcessingFallbacks.forEach((fallback, index) => {
+            new Setting(listEl)
+                .setName(`Fallback ${index + 1}`)
+                .addText(text => {
+                    text.inputEl.setAttribute("list", "neurovox-postprocessing-models");
+                    text.setPlaceholder("Search models…")
+                        .setValue(fallback.model)
+                        .onChange(async (value: string) => {
+                            const modelId = value.trim();
+                            const provider = this.getProviderFromModel(modelId);
+                            // As with the main selector, ignore search strings that aren't a model.
+                            if (!modelId || !provider) {
+                                return;
+                            }
+                            this.settings.postProcessingFallbacks = this.settings.postProcessingFallbacks.map((entry, i) =>
+                                i === index ? { provider, model: modelId } : entry
+                            );
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Remove fallback")
+                    .onClick(async () => {
+                        this.settings.postProcessingFallbacks = this.settings.postProcessingFallbacks.filter((_, i) => i !== index);
+                        await this.plugin.saveSettings();
+                        this.renderFallbackModels();
+                    }));
+        });
+    }
+
     private addPromptTemplate(): void {
         new Setting(this.contentEl)
             .setName("Post-processing template")
@@ -252,7 +329,7 @@ export class PostProcessingAccordion extends BaseAccordion {
     }
 
     private addTemperatureControl(): void {
-        new Setting(this.contentEl)
+        this.temperatureSetting = new Setting(this.contentEl)
             .setName("Post-processing creativity")
             .setDesc("Adjust the creativity level of the post-processing (0 = more focused, 1 = more creative)")
             .addSlider(slider => {
@@ -267,6 +344,40 @@ export class PostProcessingAccordion extends BaseAccordion {
             });
     }
 
+    private addReasoningEffortControl(): void {
+        this.reasoningSetting = new Setting(this.contentEl)
+            .setName("Reasoning effort")
+            .setDesc("How long the model thinks before answering. Lower is faster and cheaper; higher helps with long or messy transcripts")
+            .addDropdown(dropdown => {
+                this.reasoningDropdown = dropdown;
+                dropdown.onChange(async (value) => {
+                    this.settings.postProcessingReasoningEffort = value as ReasoningEffort;
+                    await this.plugin.saveSettings();
+                });
+            });
+    }
+
+    /**
+     * Shows the controls the selected model takes: temperature for regular models, reasoning
+     * effort (with the levels it accepts) for reasoning models.
+     */
+    private updateModelOptions(): void {
+        const modelId = this.settings.postProcessingModel;
+        const provider = modelId ? this.getProviderFromModel(modelId) : null;
+        const capabilities = provider ? this.getAdapter(provider)?.getCapabilities(modelId, "language") : undefined;
+        const efforts = capabilities?.reasoningEfforts ?? [];
+
+        this.temperatureSetting?.settingEl.toggle(capabilities?.temperature ?? true);
+        this.reasoningSetting?.settingEl.toggle(efforts.length > 0);
+        if (this.reasoningDropdown && efforts.length > 0) {
+            this.reasoningDropdown.selectEl.empty();
+            for (const effort of efforts) {
+                this.reasoningDropdown.addOption(effort, effort.charAt(0).toUpperCase() + effort.slice(1));
+            }
+            this.reasoningDropdown.setValue(pickReasoningEffort(efforts, this.settings.postProcessingReasoningEffort) ?? efforts[0]);
+        }
+    }
+
     private getProviderFromModel(modelId: string): AIProvider | null {
         // Prefer the live fetched lookup, then fall back to the static catalog.
         const fromLookup = this.modelLookup.get(modelId);
@@ -3,15 +3,32 @@
 import { BaseAccordion } from "./BaseAccordion";
 import { NeuroVoxSettings, AudioQuality } from "../Settings";
 import { Setting, DropdownComponent } from "obsidian";
-import { AIAdapter, AIProvider, AIModels } from "../../adapters/AIAdapter";
-// TEMPORARILY HIDDEN: local model feature is still in development. Re-enable
-// together with the Moonshine optgroup block in setupModelDropdown() below.
-// import { MoonshineAdapter, MoonshineModelStatus } from "../../adapters/MoonshineAdapter";
+import { AIAdapter, AIProvider, AIModels, getTranscriptionModelProvider, ModelCapabilities } from "../../adapters/AIAdapter";
+import { parseCustomModelId } from "../../adapters/CustomAdapter";
+import { parseAzureModelId } from "../../adapters/AzureAdapter";
+import { MoonshineAdapter, MoonshineModelStatus } from "../../adapters/MoonshineAdapter";
 import NeuroVoxPlugin from "../../main";
 
+// Cloud providers (require API keys), user-defined custom endpoints and the Echo stand-in
+// (once its fixture folder is set). Local models are listed separately.
+const TRANSCRIPTION_PROVIDERS = [
+    AIProvider.OpenAI,
+    AIProvider.Groq,
+    AIProvider.Deepgram,
+    AIProvider.AssemblyAI,
+    AIProvider.ElevenLabs,
+    AIProvider.Gemini,
+    AIProvider.Azure,
+    AIProvider.Custom,
+    AIProvider.Echo
+];
+
 export class RecordingAccordion extends BaseAccordion {
     private modelDropdown: DropdownComponent | null = null;
     private modelSetting: Setting | null = null;
+    private fallbackListEl: HTMLElement | null = null;
+    // Settings that only apply when the transcription model has the capability
+    private capabilitySettings: Array<{ setting: Setting; capability: keyof ModelCapabilities }> = [];
 
     constructor(
         containerEl: HTMLElement,
@@ -23,6 +40,8 @@ export class RecordingAccordion extends BaseAccordion {
     }
 
     render(): void {
+        this.capabilitySettings = [];
+
         // Recording Path
         this.createRecordingPathSetting();
         
@@ -44,8 +63,21 @@ export class RecordingAccordion extends BaseAccordion {
         // Add this before createTranscriptionModelSetting
         this.createTranscriptionFormatSetting();
 
+        this.createTranscriptionLanguageSetting();
+
+        this.createIdentifySpeakersSetting();
+
+        this.createTranslateSetting();
+
+        this.createLiveTranscriptionSetting();
+
+        this.createGlossarySetting();
+
         // Transcription Model Selection
         this.createTranscriptionModelSetting();
+
+        // Fallback models, tried when the selected one fails
+        this.createFallbackModelsSetting();
     }
 
     public createTranscriptPathSetting(): void {
@@ -119,6 +151,7 @@ export class RecordingAccordion extends BaseAccordion {
         }
 
         await this.setupModelDropdown(this.modelDropdown);
+        this.renderFallbackModels();
     }
 
     public createToolbarButtonSetting(): void {
@@ -166,7 +199,7 @@ export class RecordingAccordion extends BaseAccordion {
     public createTranscriptionFormatSetting(): void {
         new Setting(this.contentEl)
             .setName("Transcription format")
-            .setDesc("Customize the transcription callout format. Use {audioPath} for audio file path and {transcription} for the transcribed text")
+            .setDesc("Customize the transcription callout format. Use {audioPath} for audio file path, {transcription} for the transcribed text and {language} for its language")
             .addTextArea(text => {
                 text.setPlaceholder(">[!info]- Transcription\n>![[{audioPath}]]\n>{transcription}")
                     .setValue(this.settings.transcriptionCalloutFormat)
@@ -179,6 +212,131 @@ export class RecordingAccordion extends BaseAccordion {
             });
     }
 
+    public createTranscriptionLanguageSetting(): void {
+        const languageSetting = new Setting(this.contentEl)
+            .setName("Transcription language")
+            .setDesc("Two-letter language code such as en, de or es. Leave empty to auto-detect, which can pick the wrong language on short recordings")
+            .addText(text => {
+                text.setPlaceholder("Auto-detect")
+                    .setValue(this.settings.transcriptionLanguage)
+                    .onChange(async (value) => {
+                        this.settings.transcriptionLanguage = value.trim().toLowerCase();
+                        await this.plugin.saveSettings();
+                    });
+            });
+        this.capabilitySettings.push({ setting: languageSetting, capability: "languageHint" });
+
+        new Setting(this.contentEl)
+            .setName("Language property")
+            .setDesc("Frontmatter property that receives the transcript's language. Leave empty to leave frontmatter untouched")
+            .addText(text => {
+                text.setPlaceholder("Property name")
+                    .setValue(this.settings.languageFrontmatterProperty)
+                    .onChange(async (value) => {
+                        this.settings.languageFrontmatterProperty = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(this.contentEl)
+            .setName("Models property")
+            .setDesc("Frontmatter property that lists the models behind each transcript and summary, fallbacks included. Leave empty to leave frontmatter untouched")
+            .addText(text => {
+                text.setPlaceholder("Property name")
+                    .setValue(this.settings.modelsFrontmatterProperty)
+                    .onChange(async (value) => {
+                        this.settings.modelsFrontmatterProperty = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    public createGlossarySetting(): void {
+        const glossarySetting = new Setting(this.contentEl)
+            .setName("Glossary")
+            .setDesc("Names, jargon and product terms the transcription should spell correctly, one per line or comma-separated")
+            .addTextArea(text => {
+                text.setPlaceholder("One term per line")
+                    .setValue(this.settings.glossaryTerms)
+                    .onChange(async (value) => {
+                        this.settings.glossaryTerms = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 4;
+                text.inputEl.addClass("neurovox-full-width");
+            });
+
+        const noteSetting = new Setting(this.contentEl)
+            .setName("Glossary note")
+            .setDesc("A note whose lines or bullet points are added to the glossary")
+            .addText(text => {
+                text.setPlaceholder("Glossary")
+                    .setValue(this.settings.glossaryNotePath)
+                    .onChange(async (value) => {
+                        this.settings.glossaryNotePath = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        const folderSetting = new Setting(this.contentEl)
+            .setName("Glossary folder")
+            .setDesc("Titles of the notes in this folder, such as people or project notes, are added to the glossary")
+            .addText(text => {
+                text.setPlaceholder("People")
+                    .setValue(this.settings.glossaryFolderPath)
+                    .onChange(async (value) => {
+                        this.settings.glossaryFolderPath = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+        for (const setting of [glossarySetting, noteSetting, folderSetting]) {
+            this.capabilitySettings.push({ setting, capability: "promptBiasing" });
+        }
+    }
+
+    public createTranslateSetting(): void {
+        new Setting(this.contentEl)
+            .setName("Translate to English")
+            .setDesc("Start recordings with translation on. It can still be switched per recording, and the translate command always translates. Whisper models translate directly; other models are translated by the post-processing model")
+            .addToggle(toggle => {
+                toggle
+                    .setValue(this.settings.translateToEnglish)
+                    .onChange(async (value) => {
+                        this.settings.translateToEnglish = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    public createLiveTranscriptionSetting(): void {
+        new Setting(this.contentEl)
+            .setName("Live transcription")
+            .setDesc("Stream audio while recording and show the text as you speak, when the transcription model is a Deepgram or AssemblyAI one. Recordings with translation on are transcribed as usual. If the connection drops, the rest of the recording is transcribed in segments")
+            .addToggle(toggle => {
+                toggle
+                    .setValue(this.settings.liveTranscription)
+                    .onChange(async (value) => {
+                        this.settings.liveTranscription = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    public createIdentifySpeakersSetting(): void {
+        const speakersSetting = new Setting(this.contentEl)
+            .setName("Identify speakers")
+            .setDesc("Label who is speaking in the transcript (Deepgram, AssemblyAI and ElevenLabs). Long recordings are transcribed in segments, and labels are assigned per segment")
+            .addToggle(toggle => {
+                toggle
+                    .setValue(this.settings.identifySpeakers)
+                    .onChange(async (value) => {
+                        this.settings.identifySpeakers = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+        this.capabilitySettings.push({ setting: speakersSetting, capability: "diarization" });
+    }
+
     private createTranscriptionModelSetting(): void {
         if (this.modelSetting) {
             this.modelSetting.settingEl.remove();
@@ -198,63 +356,50 @@ export class RecordingAccordion extends BaseAccordion {
                         this.settings.transcriptionProvider = provider;
                         await this.plugin.saveSettings();
                     }
+                    this.updateCapabilityStates();
                 });
-            });
-    }    private async setupModelDropdown(dropdown: DropdownComponent): Promise<void> {
-        dropdown.selectEl.empty();
-        let hasValidProvider = false;
+            })
+            .addExtraButton(button => button
+                .setIcon("refresh-cw")
+                .setTooltip("Refresh model lists from the providers")
+                .onClick(() => void this.refreshModelCatalogs(true)));
 
-        // Cloud providers (require API keys)
-        for (const provider of [AIProvider.OpenAI, AIProvider.Groq, AIProvider.Deepgram, AIProvider.AssemblyAI]) {
-            const apiKey = this.settings[`${provider}ApiKey` as keyof NeuroVoxSettings];
-            if (apiKey) {
-                const adapter = this.getAdapter(provider);
-                if (adapter) {
-                    const models = adapter.getAvailableModels('transcription');
-                    if (models.length > 0) {
-                        hasValidProvider = true;
-                        const group = createEl("optgroup");
-                        group.label = `${provider.toUpperCase()} Models`;
-
-                        models.forEach(model => {
-                            const option = createEl("option");
-                            option.value = model.id;
-                            option.text = `${model.name}`;
-                            group.appendChild(option);
-                        });
-
-                        dropdown.selectEl.appendChild(group);
-                    }
-                }
-            }
+        void this.refreshModelCatalogs(false);
+    }
+
+    /**
+     * Fetches the transcription catalogs of configured providers, only expired ones unless
+     * forced, and redraws the pickers once any came in.
+     */
+    private async refreshModelCatalogs(force: boolean): Promise<void> {
+        const adapters = TRANSCRIPTION_PROVIDERS
+            .map(provider => this.getAdapter(provider))
+            .filter((adapter): adapter is AIAdapter =>
+                !!adapter?.isConfigured() && (force || adapter.isTranscriptionCatalogStale()));
+        if (adapters.length === 0) return;
+
+        await Promise.all(adapters.map(adapter => adapter.fetchTranscriptionModels(force)));
+        await this.refresh();
+    }
+
+    /** Greys out the settings the selected transcription model ignores. */
+    private updateCapabilityStates(): void {
+        const { transcriptionProvider, transcriptionModel } = this.settings;
+        const adapter = transcriptionModel ? this.getAdapter(transcriptionProvider) : undefined;
+        const capabilities = adapter?.getCapabilities(transcriptionModel);
+        const modelName = adapter?.getAvailableModels("transcription").find(model => model.id === transcriptionModel)?.name
+            ?? transcriptionModel;
+
+        for (const { setting, capability } of this.capabilitySettings) {
+            const supported = !capabilities || capabilities[capability] !== false;
+            setting.setDisabled(!supported);
+            setting.setTooltip(supported ? "" : `Not supported by ${modelName}`);
         }
+    }
 
-        // Moonshine local models (require download, not API key)
-        // TEMPORARILY HIDDEN: local model feature is still in development and
-        // hidden from the transcription-model dropdown for release. Re-enable by
-        // uncommenting the block below.
-        // const moonshineAdapter = this.getAdapter(AIProvider.Moonshine) as MoonshineAdapter | undefined;
-        // if (moonshineAdapter) {
-        //     const downloadedModels = AIModels[AIProvider.Moonshine].filter(model => {
-        //         const status = moonshineAdapter.getModelStatus(model.id);
-        //         return status === MoonshineModelStatus.Ready;
-        //     });
-        //
-        //     if (downloadedModels.length > 0) {
-        //         hasValidProvider = true;
-        //         const group = createEl("optgroup");
-        //         group.label = "LOCAL Models (No API)";
-        //
-        //         downloadedModels.forEach(model => {
-        //             const option = createEl("option");
-        //             option.value = model.id;
-        //             option.text = `${model.name}`;
-        //             group.appendChild(option);
-        //         });
-        //
-        //         dropdown.selectEl.appendChild(group);
-        //     }
-        // }
+    private async setupModelDropdown(dropdown: DropdownComponent): Promise<void> {
+        dropdown.selectEl.empty();
+        const hasValidProvider = this.populateModelOptions(dropdown);
 
         if (!hasValidProvider) {
             dropdown.addOption("none", "No models available - add an API key");
@@ -280,15 +425,143 @@ export class RecordingAccordion extends BaseAccordion {
             }
         }
 
+        this.updateCapabilityStates();
         await this.plugin.saveSettings();
     }
 
-    public getProviderFromModel(modelId: string): AIProvider | null {
-        for (const [provider, models] of Object.entries(AIModels)) {
-            if (models.some(model => model.id === modelId)) {
-                return provider as AIProvider;
+    private createFallbackModelsSetting(): void {
+        new Setting(this.contentEl)
+            .setName("Fallback models")
+            .setDesc("Tried in order when the transcription model fails with a server error, rate limit, timeout or missing key")
+            .addButton(button => button
+                .setButtonText("Add fallback")
+                .onClick(() => {
+                    // Replace rather than push: the array may still be DEFAULT_SETTINGS' own.
+                    this.settings.transcriptionFallbacks = [
+                        ...this.settings.transcriptionFallbacks,
+                        { provider: this.settings.transcriptionProvider, model: '' }
+                    ];
+                    this.renderFallbackModels();
+                }));
+
+        this.fallbackListEl = this.contentEl.createDiv();
+        this.renderFallbackModels();
+    }
+
+    private renderFallbackModels(): void {
+        const listEl = this.fallbackListEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        this.settings.transcriptionFallbacks.forEach((fallback, index) => {
+            new Setting(listEl)
+                .setName(`Fallback ${index + 1}`)
+                .addDropdown(dropdown => {
+                    dropdown.addOption("", "Select a model");
+                    this.populateModelOptions(dropdown);
+                    dropdown.setValue(fallback.model);
+                    dropdown.onChange(async (value) => {
+                        const provider = this.getProviderFromModel(value);
+                        this.settings.transcriptionFallbacks = this.settings.transcriptionFallbacks.map((entry, i) =>
+                            i === index ? { provider: provider ?? entry.provider, model: provider ? value : '' } : entry
+                        );
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Remove fallback")
+                    .onClick(async () => {
+                        this.settings.transcriptionFallbacks = this.settings.transcriptionFallbacks.filter((_, i) => i !== index);
+                        await this.plugin.saveSettings();
+                        this.renderFallbackModels();
+                    }));
+        });
+    }
+
+    /**
+     * Adds an option group per configured transcription provider. Returns false when no
+     * provider has models to offer.
+     */
+    private populateModelOptions(dropdown: DropdownComponent): boolean {
+        let hasValidProvider = false;
+
+        for (const provider of TRANSCRIPTION_PROVIDERS) {
+            const adapter = this.getAdapter(provider);
+            if (adapter?.isConfigured()) {
+                const models = adapter.getAvailableModels('transcription');
+                if (models.length > 0) {
+                    hasValidProvider = true;
+                    const group = createEl("optgroup");
+                    group.label = `${provider.toUpperCase()} Models`;
+
+                    models.forEach(model => {
+                        const option = createEl("option");
+                        option.value = model.id;
+                        option.text = `${model.name}`;
+                        group.appendChild(option);
+                    });
+
+                    dropdown.selectEl.appendChild(group);
+                }
+            }
+        }
+
+        // Moonshine local models (require download, not API key)
+        const moonshineAdapter = this.getAdapter(AIProvider.Moonshine) as MoonshineAdapter | undefined;
+        if (moonshineAdapter) {
+            const downloadedModels = AIModels[AIProvider.Moonshine].filter(model => {
+                const status = moonshineAdapter.getModelStatus(model.id);
+                return status === MoonshineModelStatus.Ready || status === MoonshineModelStatus.Downloaded;
+            });
+
+            if (downloadedModels.length > 0) {
+                hasValidProvider = true;
+                const group = createEl("optgroup");
+                group.label = "LOCAL Models (No API)";
+
+                downloadedModels.forEach(model => {
+                    const option = createEl("option");
+                    option.value = model.id;
+                    option.text = `${model.name}`;
+                    group.appendChild(option);
+                });
+
+                dropdown.selectEl.appendChild(group);
+            }
+        }
+
+        // Whisper binary on this computer (desktop only)
+        const localProcessAdapter = this.getAdapter(AIProvider.LocalProcess);
+        if (localProcessAdapter?.isConfigured()) {
+            const models = localProcessAdapter.getAvailableModels('transcription');
+            if (models.length > 0) {
+                hasValidProvider = true;
+                const group = createEl("optgroup");
+                group.label = "LOCAL Binary (No API)";
+
+                models.forEach(model => {
+                    const option = createEl("option");
+                    option.value = model.id;
+                    option.text = `${model.name}`;
+                    group.appendChild(option);
+                });
+
+                dropdown.selectEl.appendChild(group);
             }
         }
-        return null;
+
+        return hasValidProvider;
+    }
+
+    public getProviderFromModel(modelId: string): AIProvider | null {
+        // Custom endpoint models and Azure deployments are defined in settings, not the static catalog.
+        if (parseCustomModelId(modelId)) {
+            return AIProvider.Custom;
+        }
+        if (parseAzureModelId(modelId)) {
+            return AIProvider.Azure;
+        }
+        return getTranscriptionModelProvider(modelId);
     }
 }
@@ -0,0 +1,199 @@
+// src/settings/accordions/UsageAccordion.ts
+
+import { BaseAccordion } from "./BaseAccordion";
+import { NeuroVoxSettings } from "../Settings";
+import { Setting } from "obsidian";
+import { AIProvider } from "../../adapters/AIAdapter";
+import { MonthlySpend, parsePriceTable, summarizeUsage } from "../../utils/usage/UsageReport";
+import NeuroVoxPlugin from "../../main";
+
+// Local providers cost nothing, so they can't have a cap.
+const CAPPABLE_PROVIDERS = Object.values(AIProvider).filter(
+    provider => provider !== AIProvider.Moonshine
+        && provider !== AIProvider.Ollama
+        && provider !== AIProvider.LocalProcess
+        && provider !== AIProvider.Echo
+);
+
+export class UsageAccordion extends BaseAccordion {
+    private reportEl: HTMLElement | null = null;
+    private budgetListEl: HTMLElement | null = null;
+
+    constructor(
+        containerEl: HTMLElement,
+        public settings: NeuroVoxSettings,
+        public plugin: NeuroVoxPlugin
+    ) {
+        super(
+            containerEl,
+            "💰 Usage",
+            "Estimated spend per provider per month, from every transcription and post-processing call."
+        );
+    }
+
+    render(): void {
+        new Setting(this.contentEl)
+            .setName("Spend by month")
+            .setDesc("Successful calls to hosted providers, priced with the table below. Local models are not recorded.")
+            .addExtraButton(button => button
+                .setIcon("refresh-cw")
+                .setTooltip("Refresh")
+                .onClick(() => void this.renderReport()));
+
+        this.reportEl = this.contentEl.createDiv();
+        void this.renderReport();
+
+        this.addBudgets();
+        this.addConfirmThreshold();
+        this.addPriceTable();
+    }
+
+    private addBudgets(): void {
+        new Setting(this.contentEl)
+            .setName("Monthly caps")
+            .setDesc("Once a provider's estimated spend this month reaches its cap, its calls are skipped: the next fallback model is used, or the call fails when there is none. Add a cheaper or local fallback to keep working.")
+            .addButton(button => button
+                .setButtonText("Add cap")
+                .onClick(() => {
+                    const used = new Set(this.settings.monthlyBudgets.map(budget => budget.provider));
+                    const provider = CAPPABLE_PROVIDERS.find(p => !used.has(p));
+                    if (!provider) return;
+                    // Replace rather than push: the array may still be DEFAULT_SETTINGS' own.
+                    this.settings.monthlyBudgets = [...this.settings.monthlyBudgets, { provider, limit: 10 }];
+                    void this.plugin.saveSettings();
+                    this.renderBudgets();
+                }));
+
+        this.budgetListEl = this.contentEl.createDiv();
+        this.renderBudgets();
+    }
+
+    private renderBudgets(): void {
+        const listEl = this.budgetListEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        this.settings.monthlyBudgets.forEach((budget, index) => {
+            const update = async (change: Partial<typeof budget>) => {
+                this.settings.monthlyBudgets = this.settings.monthlyBudgets.map((entry, i) =>
+                    i === index ? { ...entry, ...change } : entry
+                );
+                await this.plugin.saveSettings();
+            };
+
+            new Setting(listEl)
+                .addDropdown(dropdown => {
+                    for (const provider of CAPPABLE_PROVIDERS) {
+                        dropdown.addOption(provider, provider);
+                    }
+                    dropdown.setValue(budget.provider)
+                        .onChange(value => update({ provider: value as AIProvider }));
+                })
+                .addText(text => {
+                    text.inputEl.type = "number";
+                    text.inputEl.min = "0";
+                    text.setPlaceholder("USD")
+                        .setValue(String(budget.limit))
+                        .onChange(async (value: string) => {
+                            const limit = Number(value);
+                            if (value.trim() && Number.isFinite(limit) && limit >= 0) {
+                                await update({ limit });
+                            }
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Remove cap")
+                    .onClick(async () => {
+                        this.settings.monthlyBudgets = this.settings.monthlyBudgets.filter((_, i) => i !== index);
+                        await this.plugin.saveSettings();
+                        this.renderBudgets();
+                    }));
+        });
+    }
+
+    private addConfirmThreshold(): void {
+        new Setting(this.contentEl)
+            .setName("Confirm costly files")
+            .setDesc("Ask before transcribing an audio or video file estimated to cost more than this many USD, or one that would go over a cap. Set to 0 to ask only about caps.")
+            .addText(text => {
+                text.inputEl.type = "number";
+                text.inputEl.min = "0";
+                text.setValue(String(this.settings.confirmCostAbove))
+                    .onChange(async (value: string) => {
+                        const amount = Number(value);
+                        if (value.trim() && Number.isFinite(amount) && amount >= 0) {
+                            this.settings.confirmCostAbove = amount;
+                            await this.plugin.saveSettings();
+                        }
+                    });
+            });
+    }
+
+    private addPriceTable(): void {
+        new Setting(this.contentEl)
+            .setName("Prices")
+            .setDesc("One model per line: provider, model, then USD per audio minute, or USD per million input and output tokens. Check your providers' pricing pages; these are estimates.")
+            .addTextArea(text => {
+                text.setValue(this.settings.usagePriceTable)
+                    .onChange(async (value) => {
+                        this.settings.usagePriceTable = value;
+                        await this.plugin.saveSettings();
+                        await this.renderReport();
+                    });
+                text.inputEl.rows = 8;
+                text.inputEl.addClass("neurovox-full-width");
+            });
+    }
+
+    private async renderReport(): Promise<void> {
+        const reportEl = this.reportEl;
+        if (!reportEl) return;
+
+        const rows = summarizeUsage(
+            await this.plugin.usageLedger.load(),
+            parsePriceTable(this.settings.usagePriceTable)
+        );
+
+        reportEl.empty();
+        if (rows.length === 0) {
+            reportEl.createDiv({ cls: "setting-item-description", text: "No provider calls recorded yet." });
+            return;
+        }
+
+        const table = reportEl.createEl("table", { cls: "neurovox-usage-table" });
+        const headerRow = table.createEl("thead").createEl("tr");
+        for (const [label, numeric] of [
+            ["Month", false], ["Provider", false], ["Calls", true], ["Audio", true], ["Tokens", true], ["Estimated cost", true]
+        ] as const) {
+            headerRow.createEl("th", { text: label, cls: numeric ? "is-numeric" : undefined });
+        }
+
+        const body = table.createEl("tbody");
+        for (const row of rows) {
+            const tr = body.createEl("tr");
+            tr.createEl("td", { text: row.month });
+            tr.createEl("td", { text: row.provider });
+            tr.createEl("td", { text: String(row.calls), cls: "is-numeric" });
+            tr.createEl("td", { text: row.audioSeconds ? `${(row.audioSeconds / 60).toFixed(1)} min` : "–", cls: "is-numeric" });
+            tr.createEl("td", { text: this.formatTokens(row), cls: "is-numeric" });
+            tr.createEl("td", { text: this.formatCost(row), cls: "is-numeric" });
+        }
+    }
+
+    private formatTokens(row: MonthlySpend): string {
+        if (!row.promptTokens && !row.completionTokens) return "–";
+        return `${row.promptTokens.toLocaleString()} in / ${row.completionTokens.toLocaleString()} out`;
+    }
+
+    /**
+     * Calls without a price are counted, not guessed at, so a total that leaves them out
+     * says how many it left out.
+     */
+    private formatCost(row: MonthlySpend): string {
+        const cost = `$${row.cost.toFixed(2)}`;
+        if (row.unpricedCalls === 0) return cost;
+        if (row.unpricedCalls === row.calls) return "Price unknown";
+        return `${cost} + ${row.unpricedCalls} ${row.unpricedCalls === 1 ? "call" : "calls"} at unknown price`;
+    }
+}
@@ -10,6 +10,21 @@ import { ToolbarButton } from './ui/ToolbarButton';
 // API Response Types
 // =============================================================================
 
+/**
+ * One server-sent event of a streamed chat completion (`stream: true`). The text arrives in
+ * `delta`s; usage comes in a final chunk when asked for with `stream_options` (Groq reports
+ * it under `x_groq`). Some providers (OpenRouter) send errors mid-stream as chunks too.
+ */
+export interface ChatCompletionChunk {
+    choices?: Array<{
+        delta?: { content?: string | null };
+        finish_reason?: string | null;
+    }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    x_groq?: { usage?: { prompt_tokens?: number; completion_tokens?: number } };
+    error?: { message?: string };
+}
+
 /**
  * OpenAI/Groq Chat Completion Response
  */
@@ -34,10 +49,19 @@ export interface ChatCompletionResponse {
 }
 
 /**
- * OpenAI/Groq Transcription Response
+ * OpenAI/Groq Transcription Response. `json` returns text only; `verbose_json` (Whisper models)
+ * adds the detected language, duration and timed segments.
  */
 export interface TranscriptionResponse {
     text: string;
+    language?: string;
+    duration?: number;
+    segments?: Array<{
+        id?: number;
+        start: number;
+        end: number;
+        text: string;
+    }>;
 }
 
 /**
@@ -54,6 +78,8 @@ export interface DeepgramTranscriptionResponse {
     };
     results: {
         channels: Array<{
+            /** Present when `detect_language=true`. */
+            detected_language?: string;
             alternatives: Array<{
                 transcript: string;
                 confidence: number;
@@ -62,6 +88,10 @@ export interface DeepgramTranscriptionResponse {
                     start: number;
                     end: number;
                     confidence: number;
+                    /** Present when punctuation/smart formatting is enabled. */
+                    punctuated_word?: string;
+                    /** Zero-based speaker index, present when `diarize=true`. */
+                    speaker?: number;
                 }>;
             }>;
         }>;
@@ -78,6 +108,43 @@ export interface DeepgramProjectsResponse {
     }>;
 }
 
+/**
+ * Deepgram model catalog (GET /v1/models). Each model is listed once per language and
+ * version, so canonical names repeat.
+ */
+export interface DeepgramModelsResponse {
+    stt?: Array<{
+        name: string;
+        canonical_name: string;
+        architecture: string;
+        languages?: string[];
+        version?: string;
+        /** Whether the model serves pre-recorded (batch) audio. */
+        batch?: boolean;
+        streaming?: boolean;
+    }>;
+}
+
+/**
+ * Deepgram live streaming message (wss /v1/listen). Only `Results` messages carry text.
+ */
+export interface DeepgramLiveMessage {
+    type: string;
+    /** Start and length of the audio the result covers, in seconds from the stream start. */
+    start?: number;
+    duration?: number;
+    /** False for interim results, which a later result for the same audio replaces. */
+    is_final?: boolean;
+    channel?: {
+        alternatives: Array<{
+            transcript: string;
+            confidence: number;
+        }>;
+    };
+    /** Present on `Error` messages. */
+    description?: string;
+}
+
 /**
  * Moonshine/Transformers.js Transcription Response
  */
@@ -100,6 +167,53 @@ export interface AssemblyAITranscriptionResponse {
     status: 'queued' | 'processing' | 'completed' | 'error';
     text?: string;
     error?: string;
+    confidence?: number;
+    language_code?: string;
+    /** Word timings are in milliseconds. */
+    words?: Array<{
+        text: string;
+        start: number;
+        end: number;
+        confidence: number;
+        speaker?: string | null;
+    }>;
+    /** Length of the audio in seconds, once the job has completed. */
+    audio_duration?: number | null;
+    /** Speaker turns, present when the job was created with `speaker_labels: true`. */
+    utterances?: Array<{
+        text: string;
+        start: number;
+        end: number;
+        speaker: string;
+    }> | null;
+}
+
+/**
+ * AssemblyAI temporary token for browser streaming (GET /v3/token on the streaming host)
+ */
+export interface AssemblyAIStreamingTokenResponse {
+    token: string;
+    expires_in_seconds: number;
+}
+
+/**
+ * AssemblyAI Universal-Streaming message (wss /v3/ws). `Turn` messages carry the text of
+ * the current turn so far; the turn is settled once `end_of_turn` is set.
+ */
+export interface AssemblyAILiveMessage {
+    type?: 'Begin' | 'Turn' | 'Termination';
+    transcript?: string;
+    end_of_turn?: boolean;
+    /** Set on the repeat of an ended turn that has punctuation and casing applied. */
+    turn_is_formatted?: boolean;
+    /** Word timings are in milliseconds from the stream start. */
+    words?: Array<{
+        text: string;
+        start: number;
+        end: number;
+        word_is_final: boolean;
+    }>;
+    error?: string;
 }
 
 /**
@@ -109,6 +223,8 @@ export interface AssemblyAITranscriptionResponse {
 export interface ModelListEntry {
     id: string;
     name?: string;
+    /** Anthropic's human-readable model name. */
+    display_name?: string;
     context_length?: number;
     architecture?: {
         input_modalities?: string[];
@@ -120,6 +236,104 @@ export interface ModelListResponse {
     data: ModelListEntry[];
 }
 
+/**
+ * Anthropic Messages API response (POST /v1/messages)
+ */
+export interface AnthropicMessagesResponse {
+    id: string;
+    type: string;
+    role: string;
+    model: string;
+    content: Array<{
+        type: string;
+        text?: string;
+    }>;
+    stop_reason: string | null;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+/**
+ * ElevenLabs Scribe speech-to-text response (POST /v1/speech-to-text).
+ * `words` also contains `spacing` and `audio_event` entries between the spoken words.
+ */
+export interface ElevenLabsTranscriptionResponse {
+    language_code?: string;
+    language_probability?: number;
+    text: string;
+    words?: Array<{
+        text: string;
+        start?: number;
+        end?: number;
+        type: 'word' | 'spacing' | 'audio_event';
+        speaker_id?: string;
+    }>;
+}
+
+/**
+ * Gemini generateContent response (POST /models/{model}:generateContent)
+ */
+export interface GeminiGenerateContentResponse {
+    candidates?: Array<{
+        content?: {
+            role?: string;
+            parts?: Array<{ text?: string }>;
+        };
+        finishReason?: string;
+    }>;
+    promptFeedback?: {
+        blockReason?: string;
+    };
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        totalTokenCount?: number;
+    };
+}
+
+/**
+ * Gemini model list (GET /models); names are prefixed with `models/`.
+ */
+export interface GeminiModelListResponse {
+    models: Array<{
+        name: string;
+        displayName?: string;
+        inputTokenLimit?: number;
+        outputTokenLimit?: number;
+        supportedGenerationMethods?: string[];
+    }>;
+    nextPageToken?: string;
+}
+
+/**
+ * Ollama native chat response (POST /api/chat with stream: false)
+ */
+export interface OllamaChatResponse {
+    model: string;
+    message?: {
+        role: string;
+        content: string;
+    };
+    done: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+/**
+ * Ollama local model list (GET /api/tags)
+ */
+export interface OllamaTagsResponse {
+    models: Array<{
+        name: string;
+        model?: string;
+        details?: {
+            parameter_size?: string;
+        };
+    }>;
+}
+
 /**
  * Transformers.js progress callback data
  */
@@ -167,18 +381,6 @@ interface GPU {
     requestAdapter(): Promise<GPUAdapter | null>;
 }
 
-/**
- * Transformers.js module interface (for dynamic loading)
- */
-interface TransformersModule {
-    pipeline: (
-        task: string,
-        model: string,
-        options?: Record<string, unknown>
-    ) => Promise<(audio: Float32Array, options?: Record<string, unknown>) => Promise<{ text: string }>>;
-    env: Record<string, unknown>;
-}
-
 /**
  * Extended Window interface for browser compatibility
  */
@@ -186,7 +388,6 @@ declare global {
     interface Window {
         webkitAudioContext?: typeof AudioContext;
         gc?: () => void;
-        Transformers?: TransformersModule;
     }
 
     interface Navigator {
@@ -221,10 +422,72 @@ export interface ChunkMetadata {
 
 export interface TranscriptionChunk {
     metadata: ChunkMetadata;
-    transcript: string;
+    transcript: TranscriptResult;
     processed: boolean;
 }
 
+/**
+ * A transcribed word. Times are in seconds from the start of the transcribed audio.
+ */
+export interface TranscriptWord {
+    text: string;
+    start: number;
+    end: number;
+    confidence?: number;
+    speaker?: string;
+}
+
+/**
+ * A timed stretch of transcript (provider segment, sentence or utterance), in seconds from
+ * the start of the transcribed audio.
+ */
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+    speaker?: string;
+}
+
+/**
+ * Result of one transcription call. `segments` is empty when the provider reports no timing
+ * (e.g. gpt-4o-transcribe, Gemini); consumers then fall back to the audio's own position.
+ */
+export interface TranscriptResult {
+    text: string;
+    segments: TranscriptSegment[];
+    words?: TranscriptWord[];
+    language?: string;
+    confidence?: number;
+    /** Length of the transcribed audio in seconds, when the provider reports it. */
+    duration?: number;
+    /** Which provider produced it; set by TranscriptionService. */
+    source?: ResultSource;
+}
+
+/** The provider and model that produced a transcript or post-processing result. */
+export interface ResultSource {
+    /** e.g. `groq (whisper-large-v3)` */
+    label: string;
+    /** True when the primary failed and a fallback produced the result. */
+    fallback: boolean;
+}
+
+/** Tokens a generation call consumed, as the provider reported them. */
+export interface TokenUsage {
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+/** One provider call in the usage ledger. */
+export interface UsageRecord extends TokenUsage {
+    /** ISO timestamp of the call. */
+    date: string;
+    provider: AIProvider;
+    model: string;
+    /** Seconds of audio sent for transcription. */
+    audioSeconds?: number;
+}
+
 export interface StreamingCallbacks {
     onProgress?: (processed: number, total: number) => void;
 }
@@ -461,7 +461,9 @@ export class FloatingButton {
             await this.plugin.recordingProcessor.processRecording(
                 blob,
                 activeView.file,
-                activeView.editor.getCursor()
+                activeView.editor.getCursor(),
+                undefined,
+                this.plugin.settings.translateToEnglish
             );
         } catch {
             new Notice('Failed to stop recording');
@@ -7,6 +7,9 @@ export type ProcessingStage = 'transcribing' | 'processing';
 export interface RecordingUIHandlers {
     onPause: () => void;
     onStop: () => void;
+    onTranslateToggle: (translate: boolean) => void;
+    /** Stops post-processing that is still being generated. */
+    onCancelProcessing: () => void;
 }
 
 /**
@@ -19,9 +22,14 @@ export class RecordingUI {
     private timerText: HTMLElement;
     private pauseButton: TouchableButton;
     private stopButton: TouchableButton;
+    private translateButton: TouchableButton;
+    private translate: boolean;
     private waveContainer: HTMLElement;
+    private liveTranscriptEl: HTMLElement;
     private processingTitle: HTMLElement;
     private processingIcon: HTMLElement;
+    private processingPreviewEl: HTMLElement;
+    private cancelProcessingButton: HTMLButtonElement;
     private completeIcon: HTMLElement;
     private currentState: RecordingState = 'inactive';
     // Timer for the transient green check shown between the transcribing and
@@ -30,8 +38,10 @@ export class RecordingUI {
 
     constructor(
         private container: HTMLElement,
-        private handlers: RecordingUIHandlers
+        private handlers: RecordingUIHandlers,
+        translate: boolean = false
     ) {
+        this.translate = translate;
         this.initializeComponents();
         
         // Cleanup on page unload to prevent memory leaks
@@ -59,6 +69,7 @@ export class RecordingUI {
 
         this.createTimerDisplay();
         this.createWaveform();
+        this.createLiveTranscript();
         this.createControls();
     }
 
@@ -120,6 +131,34 @@ export class RecordingUI {
             ariaLabel: 'Stop Recording',
             onClick: () => this.handlers.onStop()
         });
+
+        // Translate-to-English toggle for this recording
+        this.translateButton = new TouchableButton({
+            container: controls,
+            text: '',
+            icon: 'languages',
+            classes: ['neurovox-timer-button', 'neurovox-translate-button'],
+            ariaLabel: 'Translate to English',
+            onClick: () => {
+                this.translate = !this.translate;
+                this.updateTranslateButton();
+                this.handlers.onTranslateToggle(this.translate);
+            }
+        });
+        this.updateTranslateButton();
+    }
+
+    private updateTranslateButton(): void {
+        this.translateButton.buttonEl.toggleClass('is-active', this.translate);
+        this.translateButton.buttonEl.setAttribute('aria-pressed', String(this.translate));
+    }
+
+    /**
+     * Freezes the translate choice once audio has been sent for transcription, so one
+     * recording is not part translated and part not.
+     */
+    public lockTranslate(): void {
+        this.translateButton.buttonEl.disabled = true;
     }
 
     private createWaveform(): void {
@@ -134,6 +173,32 @@ export class RecordingUI {
         }
     }
 
+    private createLiveTranscript(): void {
+        // Empty (and hidden by CSS) unless live transcription is running.
+        this.liveTranscriptEl = this.recordingView.createDiv({
+            cls: 'neurovox-live-transcript'
+        });
+        this.liveTranscriptEl.setAttribute('aria-live', 'polite');
+    }
+
+    /**
+     * Shows the live transcript: the settled text, followed by the interim tail that the
+     * provider may still revise.
+     */
+    public updateLiveTranscript(finalText: string, interimText: string): void {
+        this.liveTranscriptEl.empty();
+        if (finalText) {
+            this.liveTranscriptEl.createSpan({ text: finalText });
+        }
+        if (interimText) {
+            this.liveTranscriptEl.createSpan({
+                cls: 'neurovox-live-interim',
+                text: finalText ? ` ${interimText}` : interimText
+            });
+        }
+        this.liveTranscriptEl.scrollTop = this.liveTranscriptEl.scrollHeight;
+    }
+
     private createProcessingView(): void {
         this.processingView = this.container.createDiv({
             cls: 'neurovox-processing-view'
@@ -176,6 +241,29 @@ export class RecordingUI {
             cls: 'neurovox-processing-title',
             text: 'Transcribing'
         });
+
+        // Post-processing text as it streams in; empty (and hidden by CSS) otherwise.
+        // Kept out of the view's announcements, which would otherwise re-read it per token.
+        this.processingPreviewEl = this.processingView.createDiv({
+            cls: 'neurovox-processing-preview'
+        });
+        this.processingPreviewEl.setAttribute('aria-live', 'off');
+
+        this.cancelProcessingButton = this.processingView.createEl('button', {
+            cls: 'neurovox-processing-stop',
+            text: 'Stop generating'
+        });
+        this.cancelProcessingButton.hide();
+        this.cancelProcessingButton.addEventListener('click', () => {
+            this.cancelProcessingButton.disabled = true;
+            this.handlers.onCancelProcessing();
+        });
+    }
+
+    /** Shows the post-processing text generated so far. */
+    public updateProcessingPreview(text: string): void {
+        this.processingPreviewEl.setText(text);
+        this.processingPreviewEl.scrollTop = this.processingPreviewEl.scrollHeight;
     }
 
     public showRecording(): void {
@@ -191,8 +279,13 @@ export class RecordingUI {
         this.container.addClass('is-processing-view');
         this.pauseButton.buttonEl.disabled = true;
         this.stopButton.buttonEl.disabled = true;
+        this.translateButton.buttonEl.disabled = true;
         this.clearStageCheckTimer();
 
+        this.processingPreviewEl.empty();
+        this.cancelProcessingButton.toggle(stage === 'processing');
+        this.cancelProcessingButton.disabled = false;
+
         if (stage === 'transcribing') {
             this.container.setAttribute('data-processing-stage', 'transcribing');
             this.processingTitle.setText('Transcribing');
@@ -213,6 +306,7 @@ export class RecordingUI {
 
     public showComplete(): void {
         this.clearStageCheckTimer();
+        this.cancelProcessingButton.hide();
         this.container.removeClass('is-recording-view', 'is-processing-view');
         this.container.addClass('is-complete-view');
         this.container.setAttribute('data-processing-stage', 'complete');
@@ -268,6 +362,7 @@ export class RecordingUI {
         // Clean up buttons
         this.pauseButton?.cleanup();
         this.stopButton?.cleanup();
+        this.translateButton?.cleanup();
 
         // Clear container
         this.container.empty();
@@ -3,7 +3,8 @@
 import { MarkdownView, Notice } from 'obsidian';
 import NeuroVoxPlugin from '../main';
 import { TimerModal } from '../modals/TimerModal';
-import { PluginData } from '../types';
+import { PluginData, ResultSource } from '../types';
+import { PostProcessingStream } from '../utils/transcription/TranscriptionService';
 /**
  * ToolbarButton handles the creation and functionality of the toolbar microphone button.
  */
@@ -47,15 +48,9 @@ export class ToolbarButton {
             const cursorPosition = editor.getCursor();
 
             const modal = new TimerModal(this.plugin);
-            modal.onStop = async (result: Blob | string) => {
-                // Handle both streaming (string) and legacy (Blob) results
-                if (typeof result === 'string') {
-                    // Streaming mode - transcription already done
-                    await this.plugin.recordingProcessor.processStreamingResult(result, activeFile, cursorPosition);
-                } else {
-                    // Legacy mode - need to transcribe
-                    await this.plugin.recordingProcessor.processRecording(result, activeFile, cursorPosition);
-                }
+            modal.onStop = async (result: string, language?: string, stream?: PostProcessingStream, sources?: ResultSource[]) => {
+                // The modal transcribes as it records, so only post-processing and insertion are left.
+                await this.plugin.recordingProcessor.processStreamingResult(result, activeFile, cursorPosition, language, stream, sources);
             };
             modal.open();
         } else {
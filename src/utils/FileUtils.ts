@@ -1,6 +1,11 @@
 import { App, TFile, TFolder, normalizePath } from 'obsidian';
 import { NeuroVoxSettings } from '../settings/Settings';
 
+/** Node's and Electron's require. Only the desktop app has it. */
+export function desktopRequire<T>(id: string): T {
+    return (window as unknown as { require: (id: string) => T }).require(id);
+}
+
 /**
  * Ensures that the directory exists, creating it if necessary
  * @returns The normalized folder path
@@ -31,6 +36,26 @@ export async function ensureDirectoryExists(app: App, folderPath: string): Promi
     return normalizedPath;
 }
 
+/**
+ * Length of an audio or video file in seconds, read from its metadata by a media element
+ * without decoding the audio. Null when the format isn't playable here, the length isn't
+ * recorded (MediaRecorder WebM) or reading it takes longer than `timeoutMs`.
+ */
+export function getMediaDuration(app: App, file: TFile, timeoutMs: number = 10_000): Promise<number | null> {
+    return new Promise(resolve => {
+        const media = createEl('audio', { attr: { preload: 'metadata' } });
+        const finish = (duration: number | null) => {
+            window.clearTimeout(timer);
+            media.removeAttribute('src');
+            resolve(duration);
+        };
+        const timer = window.setTimeout(() => finish(null), timeoutMs);
+        media.addEventListener('loadedmetadata', () => finish(Number.isFinite(media.duration) ? media.duration : null), { once: true });
+        media.addEventListener('error', () => finish(null), { once: true });
+        media.src = app.vault.getResourcePath(file);
+    });
+}
+
 /**
  * Saves an audio file to the specified location within the app's file system.
  */
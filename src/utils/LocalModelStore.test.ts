@@ -0,0 +1,55 @@
+// src/utils/LocalModelStore.test.ts
+//
+// Tests for the on-device model store: downloaded files land under `<dir>/<repo>/<file>`
+// and only count as a model once marked complete, and a user's model folder is read as
+// it is, never written to or deleted from.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryAdapter } from '../../test/memory-adapter';
+import { LocalModelStore } from './LocalModelStore';
+
+const REPO = 'onnx-community/moonshine-tiny-ONNX';
+
+function bytes(...values: number[]): ArrayBuffer {
+    return new Uint8Array(values).buffer;
+}
+
+describe('LocalModelStore', () => {
+    it('downloads into the plugin folder and reports the model once complete', async () => {
+        const adapter = new MemoryAdapter();
+        const store = new LocalModelStore(adapter, '.obsidian/plugins/neurovox/models/');
+        assert.equal(store.canDownload(), true);
+        assert.equal(await store.read(`${REPO}/config.json`), null);
+
+        await store.write(`${REPO}/onnx/encoder_model_quantized.onnx`, bytes(1, 2, 3));
+        assert.ok(adapter.dirs.has(`.obsidian/plugins/neurovox/models/${REPO}/onnx`));
+        assert.deepEqual(
+            new Uint8Array((await store.read(`${REPO}/onnx/encoder_model_quantized.onnx`))!),
+            new Uint8Array([1, 2, 3])
+        );
+        // A download cut short leaves files but no model.
+        assert.equal(await store.hasModel(REPO), false);
+
+        await store.markComplete(REPO);
+        assert.equal(await store.hasModel(REPO), true);
+
+        await store.remove(REPO);
+        assert.equal(await store.hasModel(REPO), false);
+        assert.equal(adapter.files.size, 0);
+    });
+
+    it("reads a user's model folder without writing to it", async () => {
+        const adapter = new MemoryAdapter();
+        adapter.files.set(`Models/${REPO}/config.json`, bytes(123));
+        const store = new LocalModelStore(adapter, 'Models', true);
+
+        assert.equal(store.canDownload(), false);
+        assert.equal(await store.hasModel(REPO), true);
+        assert.equal(await store.hasModel('onnx-community/whisper-base'), false);
+        await assert.rejects(store.write(`${REPO}/tokenizer.json`, bytes(1)), /read-only/);
+
+        await store.remove(REPO);
+        assert.ok(adapter.files.has(`Models/${REPO}/config.json`));
+    });
+});
@@ -0,0 +1,151 @@
+// src/utils/LocalModelStore.ts
+
+import { normalizePath, Platform } from 'obsidian';
+import { desktopRequire } from './FileUtils';
+
+/**
+ * The subset of Obsidian's DataAdapter that LocalModelStore needs. Narrowed so tests
+ * and folders outside the vault can supply their own implementation.
+ */
+export interface ModelStoreAdapter {
+    exists(path: string): Promise<boolean>;
+    mkdir(path: string): Promise<void>;
+    readBinary(path: string): Promise<ArrayBuffer>;
+    writeBinary(path: string, data: ArrayBuffer): Promise<void>;
+    rmdir(path: string, recursive: boolean): Promise<void>;
+}
+
+// Written next to a model's files once every file it needs has been downloaded, so a
+// half-finished download isn't reported as ready after a restart.
+const COMPLETE_MARKER = '.neurovox-complete';
+
+/**
+ * On-device model files, laid out the way the Hugging Face hub names them:
+ * `<dir>/<repo>/<file>`, e.g. `models/onnx-community/moonshine-tiny-ONNX/onnx/encoder_model_quantized.onnx`.
+ *
+ * The default store lives in the plugin folder and is filled by downloading each file
+ * once. A store over a folder the user picked is read-only: the files are expected to be
+ * there already (a clone of the model repo), and nothing is downloaded.
+ */
+export class LocalModelStore {
+    private dir: string;
+
+    constructor(
+        private adapter: ModelStoreAdapter,
+        dir: string,
+        private readOnly: boolean = false
+    ) {
+        this.dir = dir.replace(/[\\/]+$/, '');
+    }
+
+    /** Whether missing files may be downloaded into this store. */
+    canDownload(): boolean {
+        return !this.readOnly;
+    }
+
+    /** A model file's contents, or null when it isn't in the store. */
+    async read(file: string): Promise<ArrayBuffer | null> {
+        const path = this.pathOf(file);
+        if (!(await this.adapter.exists(path))) {
+            return null;
+        }
+        return this.adapter.readBinary(path);
+    }
+
+    async write(file: string, data: ArrayBuffer): Promise<void> {
+        if (this.readOnly) {
+            throw new Error('The local model folder is read-only');
+        }
+        const path = this.pathOf(file);
+        await this.ensureDir(path.slice(0, path.lastIndexOf('/')));
+        await this.adapter.writeBinary(path, data);
+    }
+
+    /**
+     * Whether a model's files are all on disk. A user's folder has no marker; there the
+     * model counts as present once its config is.
+     */
+    async hasModel(repo: string): Promise<boolean> {
+        const file = this.readOnly ? 'config.json' : COMPLETE_MARKER;
+        return this.adapter.exists(this.pathOf(`${repo}/${file}`));
+    }
+
+    /** Records that every file of a model has been downloaded. */
+    async markComplete(repo: string): Promise<void> {
+        if (this.readOnly) return;
+        await this.write(`${repo}/${COMPLETE_MARKER}`, new ArrayBuffer(0));
+    }
+
+    /** Deletes a downloaded model. Files in a user's folder are left alone. */
+    async remove(repo: string): Promise<void> {
+        if (this.readOnly) return;
+        const path = this.pathOf(repo);
+        if (await this.adapter.exists(path)) {
+            await this.adapter.rmdir(path, true);
+        }
+    }
+
+    private pathOf(file: string): string {
+        return `${this.dir}/${file}`;
+    }
+
+    private async ensureDir(path: string): Promise<void> {
+        let current = '';
+        for (const part of path.split('/')) {
+            current = current ? `${current}/${part}` : part;
+            if (!(await this.adapter.exists(current))) {
+                await this.adapter.mkdir(current);
+            }
+        }
+    }
+}
+
+/**
+ * The store for the local model folder setting: `models/` in the plugin folder when the
+ * setting is empty, otherwise the user's folder, in the vault or (on desktop) anywhere
+ * on disk.
+ */
+export function createModelStore(vaultAdapter: ModelStoreAdapter, pluginDir: string, folder: string): LocalModelStore {
+    const path = folder.trim();
+    if (!path) {
+        return new LocalModelStore(vaultAdapter, `${pluginDir}/models`);
+    }
+    if (!isAbsolutePath(path)) {
+        return new LocalModelStore(vaultAdapter, normalizePath(path), true);
+    }
+    if (!Platform.isDesktopApp) {
+        throw new Error('A model folder outside the vault is only available on desktop');
+    }
+    return new LocalModelStore(createNodeModelAdapter(), path, true);
+}
+
+/** The plugin folder's `runtime/`, where the on-device runtime's downloaded binary is kept. */
+export function createRuntimeStore(vaultAdapter: ModelStoreAdapter, pluginDir: string): LocalModelStore {
+    return new LocalModelStore(vaultAdapter, `${pluginDir}/runtime`);
+}
+
+/** Whether a folder setting names a path outside the vault (`/…`, `C:\…`, `\\server\…`). */
+function isAbsolutePath(path: string): boolean {
+    return /^([a-zA-Z]:[\\/]|[\\/])/.test(path);
+}
+
+/** Reads files anywhere on disk, through Node's fs. The folder is never written to. */
+function createNodeModelAdapter(): ModelStoreAdapter {
+    const { promises: fs } = desktopRequire<{
+        promises: {
+            access(path: string): Promise<void>;
+            readFile(path: string): Promise<Uint8Array>;
+        };
+    }>('fs');
+    const readOnly = () => Promise.reject(new Error('The local model folder is read-only'));
+    return {
+        exists: path => fs.access(path).then(() => true, () => false),
+        readBinary: async path => {
+            const data = await fs.readFile(path);
+            return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+        },
+        mkdir: readOnly,
+        writeBinary: readOnly,
+        rmdir: readOnly
+    };
+}
@@ -0,0 +1,68 @@
+// src/utils/PinnedFile.test.ts
+//
+// Tests for files pinned by checksum: downloaded once into the store and read from there
+// afterwards, a stale copy is replaced, and a download with the wrong contents is refused.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { FakeServer } from '../../test/fake-server';
+import { MemoryAdapter } from '../../test/memory-adapter';
+import { LocalModelStore } from './LocalModelStore';
+import { loadPinnedFile, PinnedFile } from './PinnedFile';
+
+const CONTENTS = 'runtime-binary';
+const URL_PATTERN = /cdn\.example\.com\/runtime\.wasm$/;
+const FILE: PinnedFile = {
+    name: 'runtime.wasm',
+    url: 'https://cdn.example.com/runtime.wasm',
+    sha256: createHash('sha256').update(CONTENTS).digest('hex')
+};
+
+function decode(data: ArrayBuffer): string {
+    return new TextDecoder().decode(data);
+}
+
+describe('loadPinnedFile', () => {
+    it('downloads the file once and reads it from the store afterwards', async () => {
+        const server = new FakeServer().on('GET', URL_PATTERN, { text: CONTENTS }).install();
+        try {
+            const adapter = new MemoryAdapter();
+            const store = new LocalModelStore(adapter, 'plugin/runtime');
+
+            assert.equal(decode(await loadPinnedFile(FILE, store)), CONTENTS);
+            assert.equal(decode(await loadPinnedFile(FILE, store)), CONTENTS);
+            assert.equal(server.requests.length, 1);
+            assert.ok(adapter.files.has('plugin/runtime/runtime.wasm'));
+        } finally {
+            server.uninstall();
+        }
+    });
+
+    it('replaces a copy left by another version', async () => {
+        const server = new FakeServer().on('GET', URL_PATTERN, { text: CONTENTS }).install();
+        try {
+            const adapter = new MemoryAdapter();
+            const store = new LocalModelStore(adapter, 'plugin/runtime');
+            await store.write(FILE.name, new TextEncoder().encode('older-binary').buffer);
+
+            assert.equal(decode(await loadPinnedFile(FILE, store)), CONTENTS);
+            assert.equal(decode(adapter.files.get('plugin/runtime/runtime.wasm')!), CONTENTS);
+        } finally {
+            server.uninstall();
+        }
+    });
+
+    it('refuses a download that is not the pinned file', async () => {
+        const server = new FakeServer().on('GET', URL_PATTERN, { text: 'something-else' }).install();
+        try {
+            const adapter = new MemoryAdapter();
+            const store = new LocalModelStore(adapter, 'plugin/runtime');
+
+            await assert.rejects(loadPinnedFile(FILE, store), /not the expected file/);
+            assert.equal(adapter.files.size, 0);
+        } finally {
+            server.uninstall();
+        }
+    });
+});
@@ -0,0 +1,47 @@
+// src/utils/PinnedFile.ts
+
+import { requestUrl } from 'obsidian';
+import type { LocalModelStore } from './LocalModelStore';
+
+/**
+ * A file the build pins by content rather than ships: where to download it from and the
+ * SHA-256 it must have. Only a copy with that checksum is ever used.
+ */
+export interface PinnedFile {
+    name: string;
+    url: string;
+    sha256: string;
+}
+
+/** The store's copy of a pinned file, or null when it has none or a different one. */
+export async function readPinnedFile(file: PinnedFile, store: LocalModelStore): Promise<ArrayBuffer | null> {
+    const data = await store.read(file.name);
+    return data && await sha256(data) === file.sha256 ? data : null;
+}
+
+/**
+ * A pinned file from the store, downloaded and saved there first when it's missing. A
+ * copy left by another plugin version doesn't match, so it is downloaded again.
+ */
+export async function loadPinnedFile(file: PinnedFile, store: LocalModelStore): Promise<ArrayBuffer> {
+    const stored = await readPinnedFile(file, store);
+    if (stored) {
+        return stored;
+    }
+
+    const response = await requestUrl({ url: file.url, throw: false });
+    if (response.status !== 200) {
+        throw new Error(`Could not download ${file.name}: HTTP ${response.status}`);
+    }
+    const data = response.arrayBuffer;
+    if (await sha256(data) !== file.sha256) {
+        throw new Error(`The downloaded ${file.name} is not the expected file`);
+    }
+    await store.write(file.name, data);
+    return data;
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
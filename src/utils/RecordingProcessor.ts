@@ -1,18 +1,11 @@
 import { Notice, TFile, EditorPosition } from 'obsidian';
 import NeuroVoxPlugin from '../main';
 import { AudioProcessor } from './audio/AudioProcessor';
-import { TranscriptionService } from './transcription/TranscriptionService';
+import { PostProcessingResult, PostProcessingStream, TranscriptionService } from './transcription/TranscriptionService';
 import { DocumentInserter } from './document/DocumentInserter';
 import { ProcessingState } from './state/ProcessingState';
-import { AIAdapter, AIProvider } from '../adapters/AIAdapter';
-
-/**
- * Configuration for the processing pipeline
- */
-interface ProcessingConfig {
-    maxRetries: number;
-    retryDelay: number;
-}
+import { withRetry } from './RetryPolicy';
+import { ResultSource } from '../types';
 
 /**
  * Handles the processing of audio recordings by coordinating between specialized modules:
@@ -28,11 +21,6 @@ export class RecordingProcessor {
     private readonly transcriptionService: TranscriptionService;
     private readonly documentInserter: DocumentInserter;
 
-    private readonly config: ProcessingConfig = {
-        maxRetries: 3,
-        retryDelay: 1000
-    };
-
     private constructor(private plugin: NeuroVoxPlugin) {
         this.processingState = new ProcessingState();
         this.audioProcessor = new AudioProcessor(plugin);
@@ -51,7 +39,9 @@ export class RecordingProcessor {
         audioBlob: Blob,
         activeFile: TFile,
         cursorPosition: EditorPosition,
-        audioFilePath?: string
+        audioFilePath?: string,
+        translate: boolean = false,
+        stream?: PostProcessingStream
     ): Promise<void> {
         if (this.processingState.getIsProcessing()) {
             throw new Error('Recording is already in progress.');
@@ -66,19 +56,12 @@ export class RecordingProcessor {
             const audioResult = await this.audioProcessor.processAudio(audioBlob, audioFilePath);
             this.processingState.completeStep();
 
-            // Update progress if chunks were processed
-            if (audioResult.processedChunks && audioResult.totalChunks) {
-                this.processingState.updateProgress(
-                    audioResult.processedChunks,
-                    audioResult.totalChunks
-                );
-            }
-
-            // Transcribe the audio
+            // Transcribe the audio; failed requests are retried inside transcribeContent
             this.processingState.startStep('Transcription');
-            const audioBuffer = await audioResult.audioBlob.arrayBuffer();
-            const result = await this.executeWithRetry(() => 
-                this.transcriptionService.transcribeContent(audioBuffer)
+            const result = await this.transcriptionService.transcribeContent(
+                audioResult.segments ?? await audioResult.audioBlob.arrayBuffer(),
+                translate,
+                stream
             );
             this.processingState.completeStep();
 
@@ -88,7 +71,10 @@ export class RecordingProcessor {
                 {
                     transcription: result.transcription,
                     postProcessing: result.postProcessing,
-                    audioFilePath: audioResult.finalPath
+                    audioFilePath: audioResult.finalPath,
+                    language: result.language,
+                    transcriptionSources: result.transcriptionSource && [result.transcriptionSource],
+                    postProcessingSource: result.postProcessingSource
                 },
                 activeFile,
                 cursorPosition
@@ -110,7 +96,10 @@ export class RecordingProcessor {
     public async processStreamingResult(
         transcriptionResult: string,
         activeFile: TFile,
-        cursorPosition: EditorPosition
+        cursorPosition: EditorPosition,
+        language?: string,
+        stream?: PostProcessingStream,
+        transcriptionSources?: ResultSource[]
     ): Promise<void> {
         if (this.processingState.getIsProcessing()) {
             throw new Error('Recording is already in progress.');
@@ -124,11 +113,12 @@ export class RecordingProcessor {
             this.processingState.startStep('Content Processing');
 
             // Generate post-processing if enabled
-            let postProcessing: string | undefined;
+            let postProcessing: PostProcessingResult | undefined;
             if (this.plugin.settings.generatePostProcessing) {
                 this.processingState.startStep('Post-processing');
-                postProcessing = await this.executeWithRetry(() =>
-                    this.generatePostProcessing(transcriptionResult)
+                postProcessing = await withRetry(() =>
+                    this.transcriptionService.generatePostProcessing(transcriptionResult, stream),
+                    stream?.signal
                 );
                 this.processingState.completeStep();
             }
@@ -138,7 +128,10 @@ export class RecordingProcessor {
             await this.documentInserter.insertContent(
                 {
                     transcription: transcriptionResult,
-                    postProcessing
+                    postProcessing: postProcessing?.text,
+                    postProcessingSource: postProcessing?.source,
+                    transcriptionSources,
+                    language
                     // No audioFilePath for streaming mode
                 },
                 activeFile,
@@ -155,67 +148,6 @@ export class RecordingProcessor {
         }
     }
 
-    /**
-     * Generates post-processing content using the configured AI adapter
-     */
-    private async generatePostProcessing(transcription: string): Promise<string> {
-        const adapter = this.getAdapter(
-            this.plugin.settings.postProcessingProvider,
-            'language'
-        );
-
-        const prompt = `${this.plugin.settings.postProcessingPrompt}\n\n${transcription}`;
-        
-        return adapter.generateResponse(
-            prompt,
-            this.plugin.settings.postProcessingModel,
-            {
-                maxTokens: this.plugin.settings.postProcessingMaxTokens,
-                temperature: this.plugin.settings.postProcessingTemperature
-            }
-        );
-    }
-
-    /**
-     * Gets and validates the appropriate AI adapter
-     */
-    private getAdapter(provider: AIProvider, category: 'transcription' | 'language'): AIAdapter {
-        const adapter = this.plugin.aiAdapters.get(provider);
-        if (!adapter) {
-            throw new Error(`${provider} adapter not found`);
-        }
-
-        if (!adapter.isReady(category)) {
-            const apiKey = adapter.getApiKey();
-            if (!apiKey) {
-                throw new Error(`${provider} API key is not configured`);
-            }
-            throw new Error(
-                `${provider} adapter is not ready for ${category}. Please check your settings and model availability.`
-            );
-        }
-
-        return adapter;
-    }
-
-    /**
-     * Executes an operation with retry logic
-     */
-    private async executeWithRetry<T>(
-        operation: () => Promise<T>,
-        retryCount = 0
-    ): Promise<T> {
-        try {
-            return await operation();
-        } catch (error) {
-            if (retryCount < this.config.maxRetries) {
-                await new Promise(resolve => window.setTimeout(resolve, this.config.retryDelay));
-                return this.executeWithRetry(operation, retryCount + 1);
-            }
-            throw error;
-        }
-    }
-
     /**
      * Handles error display
      */
@@ -0,0 +1,85 @@
+// src/utils/RetryPolicy.test.ts
+//
+// Tests for the retry policy shared by RecordingProcessor and streaming segments:
+//  - which failures are retried, and which fail straight away;
+//  - delays: the provider's Retry-After / rate-limit reset headers when sent,
+//    otherwise jittered exponential backoff;
+//  - withRetry gives up after the policy's retries and on fatal errors.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { APIRequestError, NetworkError, parseRetryAfterMs } from '../adapters/AIAdapter';
+import { getRetryDelay, isRetryable, withRetry } from './RetryPolicy';
+
+// withRetry() waits with window timers.
+(globalThis as unknown as { window: unknown }).window = globalThis;
+
+const fastPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+describe('isRetryable', () => {
+    it('retries rate limits, server errors and lost connections only', () => {
+        assert.equal(isRetryable(new APIRequestError('HTTP 429', 429)), true);
+        assert.equal(isRetryable(new APIRequestError('HTTP 502', 502)), true);
+        assert.equal(isRetryable(new NetworkError('net::ERR_CONNECTION_RESET')), true);
+        assert.equal(isRetryable(new APIRequestError('HTTP 401', 401)), false);
+        assert.equal(isRetryable(new APIRequestError('HTTP 400', 400)), false);
+        assert.equal(isRetryable(new Error('Timed out after 120s')), false);
+    });
+});
+
+describe('retry delays', () => {
+    const now = Date.UTC(2026, 0, 1);
+
+    it('reads Retry-After as seconds or a date, before any reset header', () => {
+        assert.equal(parseRetryAfterMs({ 'Retry-After': '12', 'x-ratelimit-reset-requests': '1m' }, now), 12_000);
+        assert.equal(parseRetryAfterMs({ 'retry-after': new Date(now + 5_000).toUTCString() }, now), 5_000);
+    });
+
+    it('reads reset headers as durations or timestamps, taking the longest', () => {
+        assert.equal(parseRetryAfterMs({ 'x-ratelimit-reset-requests': '1m2.5s', 'x-ratelimit-reset-tokens': '250ms' }, now), 62_500);
+        assert.equal(parseRetryAfterMs({ 'x-ratelimit-reset': String(now / 1000 + 30) }, now), 30_000);
+        assert.equal(parseRetryAfterMs({ 'content-type': 'application/json' }, now), undefined);
+    });
+
+    it('honours the requested delay, giving up when it exceeds the longest wait', () => {
+        assert.equal(getRetryDelay(new APIRequestError('HTTP 429', 429, 10_000), 0), 10_000);
+        assert.equal(getRetryDelay(new APIRequestError('HTTP 429', 429, 3_600_000), 0), null);
+    });
+
+    it('backs off exponentially with jitter in the upper half of each step', () => {
+        const error = new APIRequestError('HTTP 503', 503);
+        const policy = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+        assert.equal(getRetryDelay(error, 0, policy, () => 0), 500);
+        assert.equal(getRetryDelay(error, 2, policy, () => 1), 4000);
+        assert.equal(getRetryDelay(error, 4, policy, () => 1), 5000);
+    });
+});
+
+describe('withRetry', () => {
+    it('retries until the operation succeeds', async () => {
+        let attempts = 0;
+        const result = await withRetry(async () => {
+            if (++attempts < 3) throw new APIRequestError('HTTP 429', 429);
+            return 'done';
+        }, undefined, fastPolicy);
+
+        assert.equal(result, 'done');
+        assert.equal(attempts, 3);
+    });
+
+    it('fails at once on an error a retry would not fix', async () => {
+        let attempts = 0;
+        await assert.rejects(withRetry(async () => {
+            attempts++;
+            throw new APIRequestError('HTTP 401: invalid key', 401);
+        }, undefined, fastPolicy), /invalid key/);
+        assert.equal(attempts, 1);
+    });
+
+    it('throws the last failure once the retries are used up', async () => {
+        let attempts = 0;
+        await assert.rejects(withRetry(async () => {
+            throw new APIRequestError(`HTTP 503: attempt ${++attempts}`, 503);
+        }, undefined, fastPolicy), /attempt 3/);
+    });
+});
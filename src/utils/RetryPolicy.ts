@@ -0,0 +1,99 @@
+import { APIRequestError, NetworkError } from '../adapters/AIAdapter';
+
+export interface RetryPolicy {
+    /** Retries after the first attempt. */
+    maxRetries: number;
+    /** Backoff ceiling before the first retry; doubles with each retry after it. */
+    baseDelayMs: number;
+    /**
+     * Longest wait before a retry, for backoff and server-requested delays alike. A provider
+     * that asks for longer (a daily quota, say) fails now instead of stalling the recording.
+     */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000
+};
+
+// Besides 5xx: request timeout, "too early" and rate limiting.
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+/**
+ * Whether the same request may succeed if sent again: server errors, the statuses above and
+ * requests that never got a response. Other 4xx (a bad key, an unsupported file) fail the
+ * same way every time, and errors raised locally — timeouts, aborts, missing configuration —
+ * are left to the caller.
+ */
+export function isRetryable(error: unknown): boolean {
+    if (error instanceof APIRequestError) {
+        return error.status >= 500 || RETRYABLE_STATUSES.has(error.status);
+    }
+    return error instanceof NetworkError;
+}
+
+/**
+ * Milliseconds to wait before retry number `retry` (0 for the first), or null to give up.
+ * A delay the provider asked for is honoured as given; otherwise the wait is exponential
+ * backoff with equal jitter, so segments that were rate limited together don't all retry
+ * in the same instant.
+ */
+export function getRetryDelay(
+    error: unknown,
+    retry: number,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    random: () => number = Math.random
+): number | null {
+    if (error instanceof APIRequestError && error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+    return ceiling / 2 + random() * (ceiling / 2);
+}
+
+/** Longest time an operation can take under the policy, given the budget of one attempt. */
+export function getRetryBudgetMs(attemptMs: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+    return (policy.maxRetries + 1) * attemptMs + policy.maxRetries * policy.maxDelayMs;
+}
+
+/**
+ * Runs `operation`, retrying failures that isRetryable() accepts until the policy's retries
+ * are used up. Aborting `signal` cancels a pending wait; the last failure is then thrown.
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await operation();
+        } catch (error) {
+            const delay = retry < policy.maxRetries && isRetryable(error) && !signal?.aborted
+                ? getRetryDelay(error, retry, policy)
+                : null;
+            if (delay === null) {
+                throw error;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[NeuroVox] Retrying in ${Math.round(delay / 1000)}s (${retry + 1}/${policy.maxRetries}): ${message}`);
+            await wait(delay, signal, error instanceof Error ? error : new Error(message));
+        }
+    }
+}
+
+function wait(ms: number, signal: AbortSignal | undefined, lastError: Error): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            window.clearTimeout(timer);
+            reject(lastError);
+        };
+        const timer = window.setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
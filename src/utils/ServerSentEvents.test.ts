@@ -0,0 +1,48 @@
+// src/utils/ServerSentEvents.test.ts
+//
+// Tests for the server-sent event reader: events are completed however the chunks split
+// them, in any line-ending style, and comments and fields other than `data` are skipped.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ServerSentEventParser, readServerSentEvents } from './ServerSentEvents';
+
+describe('ServerSentEventParser', () => {
+    it('completes events split anywhere across chunks', () => {
+        const parser = new ServerSentEventParser();
+        assert.deepEqual(parser.push('data: {"a"'), []);
+        assert.deepEqual(parser.push(':1}\n'), []);
+        assert.deepEqual(parser.push('\ndata: [DO'), ['{"a":1}']);
+        assert.deepEqual(parser.push('NE]\n\n'), ['[DONE]']);
+    });
+
+    it('joins multi-line data and skips comments and other fields', () => {
+        const parser = new ServerSentEventParser();
+        const events = parser.push(': keep-alive\r\n\r\nevent: message\r\nid: 7\r\ndata: first\r\ndata:second\r\n\r\n');
+        assert.deepEqual(events, ['first\nsecond']);
+    });
+
+    it('completes an unterminated last event on flush', () => {
+        const parser = new ServerSentEventParser();
+        assert.deepEqual(parser.push('data: tail'), []);
+        assert.deepEqual(parser.flush(), ['tail']);
+    });
+});
+
+describe('readServerSentEvents', () => {
+    it('decodes characters split between chunks', async () => {
+        const bytes = new TextEncoder().encode('data: café\n\ndata: done');
+        const split = bytes.indexOf(0xc3) + 1;
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes.slice(0, split));
+                controller.enqueue(bytes.slice(split));
+                controller.close();
+            }
+        });
+
+        const events: string[] = [];
+        await readServerSentEvents(body, data => events.push(data));
+        assert.deepEqual(events, ['café', 'done']);
+    });
+});
@@ -0,0 +1,67 @@
+// src/utils/ServerSentEvents.ts
+
+/**
+ * Splits a server-sent event stream into the `data` payloads of its events as chunks arrive.
+ * Chunks may end anywhere, even mid-line. An event ends at a blank line, and multi-line data
+ * is joined with newlines. Comments (`: keep-alive`) and the other fields are skipped.
+ */
+export class ServerSentEventParser {
+    private buffer = '';
+    private data: string[] = [];
+
+    /** Feeds the next chunk of text; returns the payloads of the events it completed. */
+    push(text: string): string[] {
+        this.buffer += text;
+        const lines = this.buffer.split(/\r\n|\r|\n/);
+        // The last piece is an unfinished line (or empty after a line break).
+        this.buffer = lines.pop() ?? '';
+
+        const events: string[] = [];
+        for (const line of lines) {
+            if (line === '') {
+                if (this.data.length > 0) {
+                    events.push(this.data.join('\n'));
+                    this.data = [];
+                }
+            } else if (line.startsWith('data:')) {
+                this.data.push(line.slice(5).replace(/^ /, ''));
+            }
+        }
+        return events;
+    }
+
+    /** Ends the stream, completing an event the server didn't close with a blank line. */
+    flush(): string[] {
+        return this.push('\n\n');
+    }
+}
+
+/**
+ * Sends a request whose response is read as it arrives. requestUrl only returns whole
+ * responses, so this is the plugin's one use of fetch; unlike requestUrl it is subject to
+ * CORS, and rejects when the endpoint doesn't allow the request.
+ */
+export function openEventStream(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+}
+
+/** Reads a response body as server-sent events, handing each event's payload to onData. */
+export async function readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+    onData: (data: string) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new ServerSentEventParser();
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parser.push(decoder.decode(value, { stream: true })).forEach(onData);
+        }
+        parser.push(decoder.decode()).forEach(onData);
+        parser.flush().forEach(onData);
+    } finally {
+        reader.releaseLock();
+    }
+}
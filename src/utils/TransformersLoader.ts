@@ -1,108 +1,190 @@
 // src/utils/TransformersLoader.ts
 
 /**
- * Local-model (transformers.js) loader — TEMPORARILY DISABLED for release.
+ * On-device speech recognition with transformers.js, run in a Web Worker.
  *
- * The previous implementation loaded transformers.js v3 from a CDN inside a
- * sandboxed iframe, injected via a dynamically-created `<script type="module">`
- * element. The Obsidian plugin review guidelines disallow that pattern
- * ("dynamic <script> element creation" / loading and executing arbitrary
- * external code), so the implementation has been removed while the on-device
- * (Moonshine) transcription feature is still in development.
+ * The worker (TransformersWorker.ts) is bundled into main.js, so no `<script>` is
+ * injected and no code is loaded from elsewhere. The ONNX Runtime WASM binary is too large
+ * to bundle: it is pinned by checksum at build time, taken from the user's model folder
+ * when it is there, and otherwise downloaded once into the plugin folder the first time a
+ * model loads, then handed to the worker. Model files never come from the worker's own
+ * network stack either: it asks this side for each one, and this side reads it from a
+ * LocalModelStore (the plugin folder or the user's model folder). Files missing from the
+ * plugin folder are downloaded once from the Hugging Face hub and written back to it; with
+ * a user's folder, missing files fail the load.
  *
- * This stub preserves the module's exported surface so the rest of the code
- * (MoonshineAdapter) keeps compiling; every entry point cleanly reports that
- * local models are unavailable. The original iframe-based implementation is
- * preserved in git history — restore it together with a review-compliant
- * on-device runtime (no external <script>/CDN loading) and re-expose the UI in
- * ModelHookupAccordion / RecordingAccordion when the feature is ready.
+ * One model is loaded at a time. Loading another, or unloading, ends the worker, which
+ * is the only way to hand the WASM heap back.
  */
 
+import workerSource from 'inline-worker:./TransformersWorker';
+import ortWasm from 'pinned-file:onnxruntime-web/dist/ort-wasm-simd-threaded.wasm';
 import type { TransformersProgressData } from '../types';
+import type { LocalModelStore } from './LocalModelStore';
+import { loadPinnedFile, readPinnedFile } from './PinnedFile';
 
-const LOCAL_MODEL_DISABLED_MSG =
-    'On-device (local) transcription is not available in this build.';
+/** Messages to the worker. */
+export type TransformersWorkerRequest =
+    | { type: 'load'; id: number; model: string; dtype: string; allowDownload: boolean; wasmBinary: ArrayBuffer }
+    | { type: 'transcribe'; id: number; audio: Float32Array; options: Record<string, unknown> }
+    | { type: 'file'; id: number; data: ArrayBuffer | null };
+
+/** Messages from the worker. `read-file` and `write-file` carry `<repo>/<file>` paths. */
+export type TransformersWorkerMessage =
+    | { type: 'done'; id: number; text?: string }
+    | { type: 'failed'; id: number; message: string }
+    | { type: 'progress'; progress: TransformersProgressData }
+    | { type: 'read-file'; id: number; file: string }
+    | { type: 'write-file'; file: string; data: ArrayBuffer };
 
-/**
- * Export types for external use
- */
 export interface ASRPipeline {
     (audio: Float32Array, options?: Record<string, unknown>): Promise<{ text: string }>;
 }
 
-/**
- * Load the model — disabled.
- */
-export async function loadModel(
-    modelPath: string,
-    onProgress?: (progress: TransformersProgressData) => void
-): Promise<void> {
-    void modelPath;
-    void onProgress;
-    throw new Error(LOCAL_MODEL_DISABLED_MSG);
+export interface ASRPipelineOptions {
+    /** Weight precision, e.g. 'q8' for the quantized ONNX files. */
+    dtype: string;
+    files: LocalModelStore;
+    /** Where the ONNX Runtime binary is kept once downloaded. */
+    runtime: LocalModelStore;
+    progress_callback?: (progress: TransformersProgressData) => void;
 }
 
-/**
- * Transcribe audio using a local model — disabled.
- */
-export async function transcribeAudio(
-    audioData: Float32Array,
-    modelPath: string,
-    options?: Record<string, unknown>
-): Promise<string> {
-    void audioData;
-    void modelPath;
-    void options;
-    throw new Error(LOCAL_MODEL_DISABLED_MSG);
+interface PendingRequest {
+    resolve: (text: string | undefined) => void;
+    reject: (error: Error) => void;
 }
 
+let worker: Worker | null = null;
+let workerUrl: string | null = null;
+let loadedModel: string | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
 /**
- * Whether a local model runtime is loaded — always false while disabled.
+ * Loads a model in a fresh worker and resolves a pipeline that transcribes 16 kHz mono
+ * audio with it. Resolves once every model file is in the store and the ONNX sessions are
+ * created.
  */
-export function isTransformersLoaded(): boolean {
-    return false;
+export async function createASRPipeline(modelPath: string, options: ASRPipelineOptions): Promise<ASRPipeline> {
+    destroyTransformers();
+    const wasmBinary = await readPinnedFile(ortWasm, options.files) ?? await loadPinnedFile(ortWasm, options.runtime);
+    const target = startWorker();
+    const writes = new Set<Promise<void>>();
+    const writeErrors: Error[] = [];
+
+    target.onmessage = (event: MessageEvent<TransformersWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'done':
+            case 'failed':
+                settle(message);
+                return;
+            case 'progress':
+                options.progress_callback?.(message.progress);
+                return;
+            case 'read-file':
+                options.files.read(message.file).then(
+                    data => target.postMessage({ type: 'file', id: message.id, data }, data ? [data] : []),
+                    () => target.postMessage({ type: 'file', id: message.id, data: null })
+                );
+                return;
+            case 'write-file': {
+                const write = options.files.write(message.file, message.data)
+                    .catch((error: Error) => { writeErrors.push(error); })
+                    .finally(() => writes.delete(write));
+                writes.add(write);
+                return;
+            }
+        }
+    };
+
+    await request(target, {
+        type: 'load',
+        id: nextRequestId++,
+        model: modelPath,
+        dtype: options.dtype,
+        allowDownload: options.files.canDownload(),
+        wasmBinary
+    }, [wasmBinary]);
+    await Promise.all(writes);
+    if (writeErrors.length > 0) {
+        destroyTransformers();
+        throw new Error(`Could not save the model files: ${writeErrors[0].message}`);
+    }
+    await options.files.markComplete(modelPath);
+    loadedModel = modelPath;
+
+    return async (audio, pipelineOptions = {}) => {
+        if (worker !== target) {
+            throw new Error('The local model was unloaded');
+        }
+        // Copied so the caller's buffer isn't detached by the transfer.
+        const copy = audio.slice();
+        const text = await request(target, {
+            type: 'transcribe',
+            id: nextRequestId++,
+            audio: copy,
+            options: pipelineOptions
+        }, [copy.buffer]);
+        return { text: text ?? '' };
+    };
 }
 
-/**
- * Preload the local model runtime — no-op while disabled.
- */
-export function preloadTransformers(): void {
-    // no-op: local model support is disabled for release
+/** Whether a worker with a loaded model is running. */
+export function isTransformersLoaded(): boolean {
+    return worker !== null && loadedModel !== null;
 }
 
-/**
- * Clean up the local model runtime — no-op while disabled.
- */
+/** Ends the worker, freeing the model, and fails anything still waiting on it. */
 export function destroyTransformers(): void {
-    // no-op: local model support is disabled for release
+    worker?.terminate();
+    worker = null;
+    loadedModel = null;
+    if (workerUrl) {
+        URL.revokeObjectURL(workerUrl);
+        workerUrl = null;
+    }
+    for (const { reject } of pending.values()) {
+        reject(new Error('The local model was unloaded'));
+    }
+    pending.clear();
 }
 
-/**
- * Legacy export used by MoonshineAdapter — disabled.
- */
-export async function createASRPipeline(
-    modelPath: string,
-    options?: {
-        dtype?: string;
-        device?: string;
-        progress_callback?: (progress: TransformersProgressData) => void;
-    }
-): Promise<ASRPipeline> {
-    void modelPath;
-    void options;
-    throw new Error(LOCAL_MODEL_DISABLED_MSG);
+function startWorker(): Worker {
+    workerUrl = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+    const target = new Worker(workerUrl, { name: 'neurovox-transformers' });
+    target.onerror = event => {
+        event.preventDefault();
+        fail(target, new Error(event.message || 'The local model worker crashed'));
+    };
+    worker = target;
+    return target;
 }
 
-/**
- * Legacy export — disabled.
- */
-export async function loadTransformers(): Promise<unknown> {
-    throw new Error(LOCAL_MODEL_DISABLED_MSG);
+function request(target: Worker, message: TransformersWorkerRequest, transfer: Transferable[] = []): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+        pending.set(message.id, { resolve, reject });
+        target.postMessage(message, transfer);
+    });
 }
 
-/**
- * Legacy export — disabled.
- */
-export async function getPipeline(): Promise<unknown> {
-    throw new Error(LOCAL_MODEL_DISABLED_MSG);
+function settle(message: Extract<TransformersWorkerMessage, { id: number; type: 'done' | 'failed' }>): void {
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === 'done') {
+        request.resolve(message.text);
+    } else {
+        request.reject(new Error(message.message));
+    }
+}
+
+function fail(target: Worker, error: Error): void {
+    if (worker !== target) return;
+    for (const { reject } of pending.values()) {
+        reject(error);
+    }
+    pending.clear();
+    destroyTransformers();
 }
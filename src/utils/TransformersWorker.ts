@@ -0,0 +1,134 @@
+// src/utils/TransformersWorker.ts
+
+/**
+ * Worker side of TransformersLoader. Built into a string by the inline-worker plugin in
+ * esbuild.config.mjs and started from a blob URL, so transformers.js and ONNX Runtime
+ * run off the UI thread and without Electron's Node globals (which would send them down
+ * their Node.js code paths).
+ *
+ * The runtime is CPU-only WASM. Its Emscripten glue is bundled in and imported from a blob
+ * URL; its binary comes with the load request, from the main thread's copy in the plugin
+ * folder. One thread is used because Obsidian isn't cross-origin isolated. Model files go through
+ * transformers.js' custom cache, which asks the main thread for them; only files the
+ * store doesn't have are fetched from the hub, and only when downloads are allowed.
+ */
+
+import { env, pipeline } from '@huggingface/transformers';
+import type { AutomaticSpeechRecognitionPipeline } from '@huggingface/transformers';
+import ortWasmGlue from 'onnxruntime-web/dist/ort-wasm-simd-threaded.mjs';
+import type { TransformersProgressData } from '../types';
+import type { TransformersWorkerMessage, TransformersWorkerRequest } from './TransformersLoader';
+
+/** The parts of DedicatedWorkerGlobalScope used here (the DOM lib types `self` as Window). */
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<TransformersWorkerRequest>) => void) | null;
+    postMessage(message: TransformersWorkerMessage, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const wasm = env.backends.onnx.wasm;
+if (wasm) {
+    // transformers.js points wasmPaths at its CDN on import. Replaced by the bundled glue,
+    // and given the binary on load, ONNX Runtime has nothing left to fetch.
+    wasm.wasmPaths = { mjs: URL.createObjectURL(new Blob([ortWasmGlue], { type: 'text/javascript' })) };
+    wasm.numThreads = 1;
+    wasm.proxy = false;
+}
+
+env.useBrowserCache = false;
+env.useCustomCache = true;
+env.customCache = {
+    match: (key: string) => readModelFile(key),
+    put: (key: string, response: Response) => writeModelFile(key, response)
+};
+
+let transcriber: AutomaticSpeechRecognitionPipeline | null = null;
+let nextFileRequestId = 0;
+const fileRequests = new Map<number, (data: ArrayBuffer | null) => void>();
+
+scope.onmessage = event => {
+    const request = event.data;
+    switch (request.type) {
+        case 'file':
+            fileRequests.get(request.id)?.(request.data);
+            fileRequests.delete(request.id);
+            return;
+        case 'load':
+            void reply(request.id, () => load(request.model, request.dtype, request.allowDownload, request.wasmBinary));
+            return;
+        case 'transcribe':
+            void reply(request.id, () => transcribe(request.audio, request.options));
+            return;
+    }
+};
+
+async function reply(id: number, run: () => Promise<string | undefined>): Promise<void> {
+    try {
+        scope.postMessage({ type: 'done', id, text: await run() });
+    } catch (error) {
+        scope.postMessage({ type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+async function load(model: string, dtype: string, allowDownload: boolean, wasmBinary: ArrayBuffer): Promise<undefined> {
+    if (wasm) {
+        wasm.wasmBinary = wasmBinary;
+    }
+    // Without downloads, transformers.js needs "local models" on to get past the cache
+    // miss and report the file as missing, rather than refusing the configuration.
+    env.allowRemoteModels = allowDownload;
+    env.allowLocalModels = !allowDownload;
+    try {
+        transcriber = await pipeline<'automatic-speech-recognition'>('automatic-speech-recognition', model, {
+            device: 'wasm',
+            dtype: dtype as 'q8',
+            progress_callback: (progress: unknown) => {
+                scope.postMessage({ type: 'progress', progress: progress as TransformersProgressData });
+            }
+        });
+    } catch (error) {
+        // transformers.js names the local path it would have fetched, not the file
+        const missing = error instanceof Error && /not found locally at "\/models\/([^"]+)"/.exec(error.message);
+        throw missing ? new Error(`${missing[1]} is missing from the model folder`) : error;
+    }
+    return undefined;
+}
+
+async function transcribe(audio: Float32Array, options: Record<string, unknown>): Promise<string> {
+    if (!transcriber) {
+        throw new Error('No local model is loaded');
+    }
+    const output = await transcriber(audio, options);
+    return (Array.isArray(output) ? output.map(part => part.text).join(' ') : output.text).trim();
+}
+
+/**
+ * `<repo>/<file>` from a cache key. Only hub URLs are answered; transformers.js also
+ * probes a local path first, which misses.
+ */
+function toModelFile(key: string): string | null {
+    const [repo, file] = key.startsWith(env.remoteHost)
+        ? key.slice(env.remoteHost.length).replace(/^\/+/, '').split('/resolve/main/')
+        : [];
+    return repo && file ? `${repo}/${file}` : null;
+}
+
+function readModelFile(key: string): Promise<Response | undefined> {
+    const file = toModelFile(key);
+    if (!file) {
+        return Promise.resolve(undefined);
+    }
+    const id = nextFileRequestId++;
+    return new Promise(resolve => {
+        fileRequests.set(id, data => resolve(data ? new Response(data) : undefined));
+        scope.postMessage({ type: 'read-file', id, file });
+    });
+}
+
+async function writeModelFile(key: string, response: Response): Promise<void> {
+    const file = toModelFile(key);
+    if (!file) return;
+    const data = await response.arrayBuffer();
+    scope.postMessage({ type: 'write-file', file, data }, [data]);
+}
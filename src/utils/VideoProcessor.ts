@@ -3,6 +3,8 @@ import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
 import NeuroVoxPlugin from '../main';
 import { RecordingProcessor } from './RecordingProcessor';
+import { BudgetGuard } from './usage/BudgetGuard';
+import { getMediaDuration } from './FileUtils';
 
 export class VideoProcessor {
     private static instance: VideoProcessor | null = null;
@@ -37,6 +39,13 @@ export class VideoProcessor {
 
         try {
             this.isProcessing = true;
+
+            const duration = await getMediaDuration(this.plugin.app, file);
+            if (!await new BudgetGuard(this.plugin).confirmJob(duration, 'Transcribe video?')) {
+                new Notice('Transcription cancelled');
+                return;
+            }
+
             new Notice('🎥 Starting video processing...');
 
             // Create output markdown file
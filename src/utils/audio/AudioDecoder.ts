@@ -0,0 +1,102 @@
+// src/utils/audio/AudioDecoder.ts
+
+/**
+ * Decodes any audio format the browser can play to mono samples at `sampleRate`. On-device
+ * models all expect 16 kHz mono, whatever the recording was made at.
+ */
+export async function decodeToMono(arrayBuffer: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+    // window.webkitAudioContext is typed in types.ts global declaration
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) {
+        throw new Error('AudioContext not supported in this browser');
+    }
+    const audioContext = new AudioContextClass({ sampleRate });
+
+    try {
+        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+        // Get the first channel (mono)
+        const channelData = audioBuffer.getChannelData(0);
+
+        // If sample rate doesn't match, resample
+        if (audioBuffer.sampleRate !== sampleRate) {
+            return resample(channelData, audioBuffer.sampleRate, sampleRate);
+        }
+
+        return channelData;
+    } finally {
+        await audioContext.close();
+    }
+}
+
+/** Linear-interpolation resampling; good enough for speech recognition. */
+export function resample(audioData: Float32Array, fromRate: number, toRate: number): Float32Array {
+    const ratio = fromRate / toRate;
+    const newLength = Math.round(audioData.length / ratio);
+    const result = new Float32Array(newLength);
+
+    for (let i = 0; i < newLength; i++) {
+        const srcIndex = i * ratio;
+        const srcIndexFloor = Math.floor(srcIndex);
+        const srcIndexCeil = Math.min(srcIndexFloor + 1, audioData.length - 1);
+        const t = srcIndex - srcIndexFloor;
+
+        result[i] = audioData[srcIndexFloor] * (1 - t) + audioData[srcIndexCeil] * t;
+    }
+
+    return result;
+}
+
+/** A mono 16-bit PCM WAV file of the samples, clamped to [-1, 1]. */
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeText = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) {
+            view.setUint8(offset + i, text.charCodeAt(i));
+        }
+    };
+
+    writeText(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    view.setUint32(16, 16, true);              // PCM fmt chunk size
+    view.setUint16(20, 1, true);               // audio format = PCM
+    view.setUint16(22, 1, true);               // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);  // byte rate
+    view.setUint16(32, 2, true);               // block align
+    view.setUint16(34, 16, true);              // bits per sample
+    writeText(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+    return buffer;
+}
+
+/**
+ * The format of encoded audio as a file extension, read from its leading bytes, or null when
+ * unrecognised. Audio buffers carry no MIME type, and a recorder's label can be wrong.
+ */
+export function detectAudioFormat(arrayBuffer: ArrayBuffer): string | null {
+    const bytes = new Uint8Array(arrayBuffer, 0, Math.min(12, arrayBuffer.byteLength));
+    const text = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+    if (text(0, 4) === 'RIFF' && text(8, 12) === 'WAVE') return 'wav';
+    if (text(0, 4) === 'FORM' && /^AIF[FC]$/.test(text(8, 12))) return 'aiff';
+    if (text(0, 4) === 'OggS') return 'ogg';
+    if (text(0, 4) === 'fLaC') return 'flac';
+    if (text(4, 8) === 'ftyp') return 'm4a';
+    if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+    if (text(0, 3) === 'ID3') return 'mp3';
+    if (bytes[0] === 0xff) {
+        // ADTS (AAC) and MPEG audio frames share the sync bits; ADTS has layer 0.
+        if ((bytes[1] & 0xf6) === 0xf0) return 'aac';
+        if ((bytes[1] & 0xe0) === 0xe0) return 'mp3';
+    }
+    return null;
+}
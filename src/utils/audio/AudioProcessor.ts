@@ -1,7 +1,24 @@
 import NeuroVoxPlugin from '../../main';
 import { AudioFileManager } from './AudioFileManager';
 import { AudioQuality } from '../../settings/Settings';
-import { AIProvider } from '../../adapters/AIAdapter';
+import { ModelCapabilities } from '../../adapters/AIAdapter';
+import { getTranscriptionChain } from '../transcription/ProviderFallback';
+import { decodeToMono, encodeWav } from './AudioDecoder';
+import { splitWavBlob, WavSegment } from './WavSplitter';
+
+const WAV_HEADER_BYTES = 44;
+
+// MIME subtypes whose usual file extension differs.
+const MIME_SUBTYPE_FORMATS: Record<string, string> = {
+    'mpeg': 'mp3',
+    'mp4': 'm4a',
+    'x-m4a': 'm4a',
+    'x-wav': 'wav',
+    'wave': 'wav',
+    'vnd.wave': 'wav',
+    'x-flac': 'flac',
+    'x-aiff': 'aiff'
+};
 
 /**
  * Processes audio files including chunking, concatenation, and storage
@@ -10,8 +27,11 @@ import { AIProvider } from '../../adapters/AIAdapter';
 export class AudioProcessor {
     private readonly audioFileManager: AudioFileManager;
 
-    // Maximum audio size before skipping chunking (25MB)
-    private readonly MAX_AUDIO_SIZE_BYTES = 25 * 1024 * 1024;
+    // Converted audio is 16 kHz mono WAV: what speech models work at, and 32KB per second
+    private readonly UPLOAD_SAMPLE_RATE = 16000;
+
+    // Lowest bitrate a recording plausibly has (8 kbps); smaller files are too short to hit a length limit
+    private readonly MIN_BYTES_PER_SECOND = 1000;
 
     // Audio quality settings (sample rates in Hz)
     private readonly SAMPLE_RATES = {
@@ -32,10 +52,12 @@ export class AudioProcessor {
     }
 
     /**
-     * Processes an audio blob, handling large files by chunking if necessary
+     * Saves an audio blob and prepares it for the transcription model. Audio the model can't
+     * take as is, because of its size, length or format, is converted to 16 kHz mono WAV and
+     * split into segments that fit.
      * @param audioBlob The audio blob to process
      * @param audioFilePath Optional path to save the audio file
-     * @returns Object containing paths to audio files and concatenated blob
+     * @returns Path of the saved audio, and the segments to transcribe when it was split or converted
      */
     public async processAudio(
         audioBlob: Blob,
@@ -43,21 +65,19 @@ export class AudioProcessor {
     ): Promise<{
         finalPath: string;
         audioBlob: Blob;
-        processedChunks?: number;
-        totalChunks?: number;
+        segments?: WavSegment[];
     }> {
         try {
-            const fileSizeMB = audioBlob.size / (1024 * 1024);
-            const provider = this.plugin.settings.transcriptionProvider;
-            
-            // Check provider capabilities
-            if (this.canProviderHandleFile(provider, audioBlob.size)) {
-                const finalPath = audioFilePath || await this.audioFileManager.saveAudioFile(audioBlob);
+            const finalPath = audioFilePath || await this.audioFileManager.saveAudioFile(audioBlob);
+            const [primary] = getTranscriptionChain(this.plugin.settings);
+            const capabilities = primary
+                ? this.plugin.aiAdapters.get(primary.provider)?.getCapabilities(primary.model)
+                : undefined;
+
+            if (!capabilities || this.canProviderHandleFile(capabilities, audioBlob)) {
                 return { finalPath, audioBlob };
-            } else {
-                throw new Error(this.getLargeFileErrorMessage(provider, fileSizeMB));
             }
-
+            return { finalPath, audioBlob, segments: await this.fitToModel(audioBlob, capabilities) };
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
             throw new Error(`Failed to process audio: ${message}`);
@@ -81,41 +101,44 @@ export class AudioProcessor {
     }
 
     /**
-     * Checks if the provider can handle the given file size
+     * Checks if the model takes the file as is. Durations aren't known before decoding, so
+     * files small enough that they can't run past the model's length limit pass unchecked.
      */
-    private canProviderHandleFile(provider: AIProvider, fileSize: number): boolean {
-        const MAX_SIZE_25MB = 25 * 1024 * 1024;
-        const MAX_SIZE_2GB = 2 * 1024 * 1024 * 1024;
-        
-        switch (provider) {
-            case AIProvider.Deepgram:
-                return fileSize <= MAX_SIZE_2GB; // 2GB limit
-            case AIProvider.OpenAI:
-            case AIProvider.Groq:
-                return fileSize <= MAX_SIZE_25MB; // 25MB limit
-            default:
-                return fileSize <= MAX_SIZE_25MB; // Conservative default
-        }
+    private canProviderHandleFile(capabilities: ModelCapabilities, audioBlob: Blob): boolean {
+        const format = getAudioFormat(audioBlob.type);
+        const formatAccepted = !capabilities.inputFormats || !format || capabilities.inputFormats.includes(format);
+        const withinDuration = capabilities.maxDurationSeconds === undefined
+            || audioBlob.size <= capabilities.maxDurationSeconds * this.MIN_BYTES_PER_SECOND;
+        return formatAccepted && withinDuration && audioBlob.size <= capabilities.maxUploadBytes;
     }
 
     /**
-     * Generates a helpful error message for files that are too large
+     * Converts the audio to 16 kHz mono WAV, which every provider takes, and splits it into
+     * segments within the model's size and length limits.
      */
-    private getLargeFileErrorMessage(provider: AIProvider, fileSizeMB: number): string {
-        const fileSize = fileSizeMB.toFixed(1);
-        
-        switch (provider) {
-            case AIProvider.OpenAI:
-                return `File too large (${fileSize}MB) for OpenAI. Switch to Deepgram for large files.`;
-                       
-            case AIProvider.Groq:
-                return `File too large (${fileSize}MB) for Groq. Switch to Deepgram for large files.`;
-                       
-            case AIProvider.Deepgram:
-                return `File too large (${fileSize}MB). Split the audio file into smaller segments.`;
-                       
-            default:
-                return `File too large (${fileSize}MB). Switch to Deepgram for large files.`;
+    private async fitToModel(audioBlob: Blob, capabilities: ModelCapabilities): Promise<WavSegment[]> {
+        const samples = await decodeToMono(await audioBlob.arrayBuffer(), this.UPLOAD_SAMPLE_RATE);
+        const wav = new Blob([encodeWav(samples, this.UPLOAD_SAMPLE_RATE)], { type: 'audio/wav' });
+        const durationSeconds = samples.length / this.UPLOAD_SAMPLE_RATE;
+        const segmentSeconds = Math.min(
+            Math.floor((capabilities.maxUploadBytes - WAV_HEADER_BYTES) / (this.UPLOAD_SAMPLE_RATE * 2)),
+            capabilities.maxDurationSeconds ?? Infinity
+        );
+
+        if (durationSeconds <= segmentSeconds) {
+            return [{ blob: wav, index: 0, offsetMs: 0, durationMs: Math.round(durationSeconds * 1000) }];
+        }
+        const segments = await splitWavBlob(wav, segmentSeconds);
+        if (!segments) {
+            throw new Error('Could not split the converted audio');
         }
+        return segments;
     }
 }
+
+/** The format of a blob's MIME type as a file extension (`audio/webm;codecs=opus` is `webm`), or null when unknown. */
+export function getAudioFormat(mimeType: string): string | null {
+    const subtype = /^(?:audio|video)\/([\w.+-]+)/i.exec(mimeType)?.[1]?.toLowerCase();
+    if (!subtype) return null;
+    return MIME_SUBTYPE_FORMATS[subtype] ?? subtype;
+}
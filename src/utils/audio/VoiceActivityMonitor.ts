@@ -5,29 +5,65 @@ export interface VoiceActivityOptions {
     silenceThreshold?: number;
     /** How often to sample the input level, in ms. */
     sampleIntervalMs?: number;
+    /**
+     * Receives the raw microphone samples (mono, at `sampleRate`) in blocks of a few thousand
+     * while monitoring, e.g. to stream them for live transcription.
+     */
+    onAudio?: (samples: Float32Array, sampleRate: number) => void;
 }
 
+// Runs on the audio rendering thread. Batches the 128-sample render quanta into larger
+// blocks so the main thread gets ~10 messages a second instead of several hundred.
+const AUDIO_TAP_PROCESSOR = 'neurovox-audio-tap';
+const AUDIO_TAP_SOURCE = `
+class AudioTap extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.block = new Float32Array(4096);
+        this.length = 0;
+    }
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (channel) {
+            for (let i = 0; i < channel.length; i++) {
+                this.block[this.length++] = channel[i];
+                if (this.length === this.block.length) {
+                    this.port.postMessage(this.block.slice());
+                    this.length = 0;
+                }
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('${AUDIO_TAP_PROCESSOR}', AudioTap);
+`;
+
 /**
  * Lightweight voice-activity / silence detector over a MediaStream.
  *
  * Taps the mic with a Web Audio AnalyserNode (separate from the recorder) and tracks how long
  * the input has been below a silence threshold. Used to rotate recording segments at natural
- * pauses instead of arbitrary time boundaries, so segment splits fall between words.
+ * pauses instead of arbitrary time boundaries, so segment splits fall between words. It can
+ * also hand the raw samples to a listener (`onAudio`) for live transcription to stream.
  */
 export class VoiceActivityMonitor {
     private audioContext: AudioContext | null = null;
     private analyser: AnalyserNode | null = null;
     private source: MediaStreamAudioSourceNode | null = null;
+    private tap: AudioWorkletNode | null = null;
     private intervalId: number | null = null;
     private buffer: Uint8Array = new Uint8Array(0);
     private lastVoiceTime: number = 0;
 
     private readonly threshold: number;
     private readonly sampleInterval: number;
+    private readonly onAudio?: (samples: Float32Array, sampleRate: number) => void;
 
     constructor(private stream: MediaStream, options: VoiceActivityOptions = {}) {
         this.threshold = options.silenceThreshold ?? 0.015;
         this.sampleInterval = options.sampleIntervalMs ?? 100;
+        this.onAudio = options.onAudio;
     }
 
     start(): void {
@@ -44,10 +80,45 @@ export class VoiceActivityMonitor {
         // Intentionally not connected to destination — analysis only, no playback/echo.
         this.source.connect(this.analyser);
 
+        if (this.onAudio) {
+            void this.startAudioTap(this.audioContext, this.source, this.onAudio);
+        }
+
         this.lastVoiceTime = Date.now();
         this.intervalId = window.setInterval(() => this.sample(), this.sampleInterval);
     }
 
+    /**
+     * Taps the raw samples off the same source with an AudioWorklet. Loading the worklet is
+     * asynchronous, so the first few hundred milliseconds may be missed; a failure leaves
+     * silence detection running without the tap.
+     */
+    private async startAudioTap(
+        context: AudioContext,
+        source: MediaStreamAudioSourceNode,
+        listener: (samples: Float32Array, sampleRate: number) => void
+    ): Promise<void> {
+        const url = URL.createObjectURL(new Blob([AUDIO_TAP_SOURCE], { type: 'application/javascript' }));
+        try {
+            await context.audioWorklet.addModule(url);
+            // Stopped while the module was loading.
+            if (this.audioContext !== context) return;
+
+            this.tap = new AudioWorkletNode(context, AUDIO_TAP_PROCESSOR, {
+                numberOfInputs: 1,
+                numberOfOutputs: 0
+            });
+            this.tap.port.onmessage = (event: MessageEvent<Float32Array>) => {
+                listener(event.data, context.sampleRate);
+            };
+            source.connect(this.tap);
+        } catch (error) {
+            console.error('[VoiceActivityMonitor] Audio tap unavailable:', error);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
     private sample(): void {
         if (!this.analyser) return;
 
@@ -82,6 +153,11 @@ export class VoiceActivityMonitor {
         }
         try { this.source?.disconnect(); } catch { /* noop */ }
         try { this.analyser?.disconnect(); } catch { /* noop */ }
+        if (this.tap) {
+            this.tap.port.onmessage = null;
+            try { this.tap.disconnect(); } catch { /* noop */ }
+            this.tap = null;
+        }
         try { void this.audioContext?.close(); } catch { /* noop */ }
         this.source = null;
         this.analyser = null;
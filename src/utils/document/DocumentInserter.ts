@@ -1,5 +1,6 @@
 import { EditorPosition, Notice, TFile } from 'obsidian';
 import NeuroVoxPlugin from '../../main';
+import { ResultSource } from '../../types';
 
 /**
  * Content to be inserted into a document
@@ -8,6 +9,14 @@ export interface InsertContent {
     transcription: string;
     postProcessing?: string;
     audioFilePath?: string;
+    /** Transcript language, for the {language} placeholder and the frontmatter property. */
+    language?: string;
+    /**
+     * Providers that produced each part: listed in the models frontmatter property, and
+     * named in the note itself when a fallback stood in.
+     */
+    transcriptionSources?: ResultSource[];
+    postProcessingSource?: ResultSource;
 }
 
 /**
@@ -31,6 +40,7 @@ export class DocumentInserter {
         try {
             const formattedContent = this.formatContent(content);
             await this.insertAtPosition(formattedContent, file, position);
+            await this.recordFrontmatter(content, file);
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
             new Notice(`Content insertion failed: ${message}`);
@@ -77,7 +87,8 @@ export class DocumentInserter {
         // Format transcription content
         let formattedContent = format
             .replace('{audioPath}', content.audioFilePath || '')
-            .replace('{transcription}', content.transcription);
+            .replace('{language}', content.language || '')
+            .replace('{transcription}', content.transcription + this.formatFallbackNote('Transcribed', content.transcriptionSources));
 
         // Only use callout formatting if the format includes callout syntax
         const useTranscriptionCallout = this.isCalloutFormat(format);
@@ -89,7 +100,7 @@ export class DocumentInserter {
             const usePostCallout = this.isCalloutFormat(postFormat);
             
             let postContent = postFormat
-                .replace('{postProcessing}', content.postProcessing);
+                .replace('{postProcessing}', content.postProcessing + this.formatFallbackNote('Generated', content.postProcessingSource && [content.postProcessingSource]));
             
             postContent = this.formatLines(postContent, usePostCallout);
             formattedContent += '\n---\n' + postContent + '\n\n';
@@ -98,6 +109,54 @@ export class DocumentInserter {
         return formattedContent + '\n';
     }
 
+    /**
+     * Names the providers that stood in as fallbacks for (part of) a result, so the note
+     * shows that the primary failed. Empty when the primary answered throughout.
+     */
+    private formatFallbackNote(verb: string, sources: ResultSource[] = []): string {
+        const fallbacks = sources.filter(source => source.fallback).map(source => source.label);
+        return fallbacks.length > 0
+            ? `\n\n*${verb} with ${fallbacks.join(', ')} because the primary provider failed*`
+            : '';
+    }
+
+    /**
+     * Writes the configured frontmatter properties. The language keeps an existing value: a
+     * note with several recordings takes the language of the first. The models property
+     * gathers every model that produced content in the note, primary or fallback, once each.
+     */
+    private async recordFrontmatter(content: InsertContent, file: TFile): Promise<void> {
+        const languageProperty = this.plugin.settings.languageFrontmatterProperty.trim();
+        const modelsProperty = this.plugin.settings.modelsFrontmatterProperty.trim();
+        const language = languageProperty ? content.language : undefined;
+        const models = modelsProperty ? this.getModelEntries(content) : [];
+        if (!language && models.length === 0) return;
+
+        await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            if (language) {
+                frontmatter[languageProperty] ??= language;
+            }
+            if (models.length > 0) {
+                const existing: unknown = frontmatter[modelsProperty];
+                const listed = (Array.isArray(existing) ? existing : [existing])
+                    .filter((entry): entry is string => typeof entry === 'string');
+                frontmatter[modelsProperty] = [...new Set([...listed, ...models])];
+            }
+        });
+    }
+
+    /** `transcription: groq (whisper-large-v3)`-style entries for the models property. */
+    private getModelEntries(content: InsertContent): string[] {
+        const entries: string[] = [];
+        for (const source of content.transcriptionSources ?? []) {
+            entries.push(`transcription: ${source.label}`);
+        }
+        if (content.postProcessing && content.postProcessingSource) {
+            entries.push(`post-processing: ${content.postProcessingSource.label}`);
+        }
+        return entries;
+    }
+
     /**
      * Inserts content at the specified position in a file
      */
@@ -0,0 +1,116 @@
+// src/utils/secrets/SecretCrypto.ts
+
+/** Secret name (a provider id or a custom endpoint id) to its value. */
+export type SecretMap = Record<string, string>;
+
+/**
+ * Ciphertext of the secrets as stored in settings, every binary field in base64. Safe to
+ * sync: without the passphrase it is useless.
+ */
+interface EncryptedSecrets {
+    version: 1;
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+
+/** The key derived from a passphrase, kept in memory so later edits can be re-encrypted. */
+export interface PassphraseKey {
+    key: CryptoKey;
+    salt: Uint8Array;
+}
+
+/** The passphrase does not decrypt the stored secrets. */
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super('Wrong passphrase');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+export async function derivePassphraseKey(
+    passphrase: string,
+    salt: Uint8Array = crypto.getRandomValues(new Uint8Array(16))
+): Promise<PassphraseKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+    return { key, salt };
+}
+
+/** Encrypts the secrets with AES-GCM under a fresh IV. */
+export async function encryptSecrets(secrets: SecretMap, { key, salt }: PassphraseKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(JSON.stringify(secrets))
+    );
+    const envelope: EncryptedSecrets = {
+        version: 1,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(data))
+    };
+    return JSON.stringify(envelope);
+}
+
+/**
+ * Decrypts what encryptSecrets() produced, returning the secrets and the key to re-encrypt
+ * them with. Throws WrongPassphraseError when the passphrase doesn't match.
+ */
+export async function decryptSecrets(
+    encrypted: string,
+    passphrase: string
+): Promise<{ secrets: SecretMap; key: PassphraseKey }> {
+    const envelope = JSON.parse(encrypted) as EncryptedSecrets;
+    if (envelope.version !== 1) {
+        throw new Error(`Unsupported encrypted secrets version ${String(envelope.version)}`);
+    }
+
+    const key = await derivePassphraseKey(passphrase, fromBase64(envelope.salt));
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+            key.key,
+            fromBase64(envelope.data)
+        );
+    } catch {
+        // AES-GCM authenticates the ciphertext, so a wrong key fails here rather than
+        // producing garbage.
+        throw new WrongPassphraseError();
+    }
+    return { secrets: JSON.parse(new TextDecoder().decode(plaintext)) as SecretMap, key };
+}
+
+export function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,96 @@
+// src/utils/secrets/SecretStore.test.ts
+//
+// Tests for the API key store: the environment variable names and key file format,
+// moving keys out of legacy plaintext settings, passphrase encryption surviving a reload
+// while rejecting the wrong passphrase, and the keychain on apps too old to keep it.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider } from '../../adapters/AIAdapter';
+import { DEFAULT_SETTINGS, NeuroVoxSettings } from '../../settings/Settings';
+import type NeuroVoxPlugin from '../../main';
+import { extractLegacyApiKeys, getDefaultSecretStorage, getEnvVariableName, parseEnvFile, SecretStore } from './SecretStore';
+
+function fakePlugin(settings: Partial<NeuroVoxSettings>): NeuroVoxPlugin & { saves: number } {
+    const plugin = {
+        settings: { ...DEFAULT_SETTINGS, ...settings },
+        saves: 0,
+        async saveSettings() {
+            plugin.saves++;
+        }
+    };
+    return plugin as unknown as NeuroVoxPlugin & { saves: number };
+}
+
+describe('environment keys', () => {
+    it('names one variable per provider or endpoint', () => {
+        assert.equal(getEnvVariableName(AIProvider.OpenAI), 'NEUROVOX_OPENAI_API_KEY');
+        assert.equal(getEnvVariableName('custom-lz4x9'), 'NEUROVOX_CUSTOM_LZ4X9_API_KEY');
+    });
+
+    it('reads dotenv lines with comments, export and quotes', () => {
+        assert.deepEqual(parseEnvFile([
+            '# keys',
+            'NEUROVOX_OPENAI_API_KEY=sk-1',
+            'export NEUROVOX_GROQ_API_KEY="gsk 2"',
+            "NEUROVOX_GEMINI_API_KEY = 'g3'",
+            'not a variable',
+            ''
+        ].join('\r\n')), {
+            NEUROVOX_OPENAI_API_KEY: 'sk-1',
+            NEUROVOX_GROQ_API_KEY: 'gsk 2',
+            NEUROVOX_GEMINI_API_KEY: 'g3'
+        });
+    });
+});
+
+describe('SecretStore', () => {
+    it('takes legacy plaintext keys out of saved settings and migrates them', async () => {
+        const data: Record<string, unknown> = {
+            openaiApiKey: ' sk-old ',
+            groqApiKey: '',
+            customEndpoints: [{ id: 'custom-1', apiKey: 'lan-key' }]
+        };
+        const legacy = extractLegacyApiKeys(data);
+        assert.deepEqual(legacy, { openai: 'sk-old', 'custom-1': 'lan-key' });
+        assert.deepEqual(data, { customEndpoints: [{ id: 'custom-1' }] });
+
+        const plugin = fakePlugin({ secretStorage: 'plaintext' });
+        const store = new SecretStore(plugin);
+        await store.load();
+        await store.migrate(legacy);
+        assert.equal(store.get(AIProvider.OpenAI), 'sk-old');
+        assert.deepEqual(plugin.settings.plaintextApiKeys, legacy);
+        assert.ok(plugin.saves > 0);
+    });
+
+    it('encrypts keys with a passphrase and unlocks them only with the same one', async () => {
+        const plugin = fakePlugin({ secretStorage: 'plaintext', plaintextApiKeys: { openai: 'sk-1' } });
+        const store = new SecretStore(plugin);
+        await store.load();
+        await store.switchMode('passphrase', 'correct horse');
+        await store.set(AIProvider.Groq, 'gsk-2');
+
+        assert.deepEqual(plugin.settings.plaintextApiKeys, {});
+        assert.ok(!plugin.settings.encryptedApiKeys.includes('sk-1'));
+
+        const reloaded = new SecretStore(plugin);
+        await reloaded.load();
+        assert.equal(reloaded.isLocked(), true);
+        assert.equal(reloaded.get(AIProvider.OpenAI), '');
+        assert.equal(await reloaded.unlock('wrong'), false);
+        assert.equal(await reloaded.unlock('correct horse'), true);
+        assert.equal(reloaded.get(AIProvider.OpenAI), 'sk-1');
+        assert.equal(reloaded.get(AIProvider.Groq), 'gsk-2');
+    });
+
+    it('reports the keychain unavailable on apps without vault local storage', async () => {
+        const plugin = Object.assign(fakePlugin({ secretStorage: 'keychain' }), { app: {} });
+        const store = new SecretStore(plugin);
+        await store.load();
+
+        assert.equal(getDefaultSecretStorage(plugin.app), 'plaintext');
+        assert.match(store.getUnavailableReason() ?? '', /Obsidian 1\.8\.7/);
+        assert.equal(store.isWritable(), false);
+    });
+});
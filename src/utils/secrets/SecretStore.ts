@@ -0,0 +1,395 @@
+// src/utils/secrets/SecretStore.ts
+
+import { App, Platform } from 'obsidian';
+import { AIProvider } from '../../adapters/AIAdapter';
+import { SecretStorageMode } from '../../settings/Settings';
+import { desktopRequire } from '../FileUtils';
+import {
+    decryptSecrets,
+    derivePassphraseKey,
+    encryptSecrets,
+    PassphraseKey,
+    SecretMap,
+    WrongPassphraseError
+} from './SecretCrypto';
+import NeuroVoxPlugin from '../../main';
+
+// Vault-scoped local storage entry for the keychain-encrypted keys. Local storage stays on
+// this device: it is neither in the vault nor synced.
+const KEYCHAIN_STORAGE_KEY = 'neurovox-api-keys';
+
+// Settings fields that held plaintext keys before SecretStore.
+const LEGACY_KEY_FIELDS: Record<string, AIProvider> = {
+    openaiApiKey: AIProvider.OpenAI,
+    groqApiKey: AIProvider.Groq,
+    deepgramApiKey: AIProvider.Deepgram,
+    openrouterApiKey: AIProvider.OpenRouter,
+    assemblyaiApiKey: AIProvider.AssemblyAI,
+    anthropicApiKey: AIProvider.Anthropic,
+    geminiApiKey: AIProvider.Gemini,
+    elevenlabsApiKey: AIProvider.ElevenLabs,
+    azureApiKey: AIProvider.Azure
+};
+
+/** The part of Electron's safeStorage used here; its buffers are Node Buffers. */
+interface SafeStorage {
+    isEncryptionAvailable(): boolean;
+    encryptString(plainText: string): { toString(encoding: 'base64'): string };
+    decryptString(encrypted: Uint8Array): string;
+}
+
+/** Encrypts text with a key held by the OS keychain, to base64 and back. */
+interface Keychain {
+    encrypt(plainText: string): string;
+    decrypt(encrypted: string): string;
+}
+
+/**
+ * Electron's safeStorage: Keychain on macOS, DPAPI on Windows, libsecret or kwallet on
+ * Linux. Null off desktop and when the OS offers no keychain.
+ */
+function getKeychain(): Keychain | null {
+    if (!Platform.isDesktopApp) {
+        return null;
+    }
+    try {
+        const electron = desktopRequire<{ safeStorage?: SafeStorage; remote?: { safeStorage?: SafeStorage } }>('electron');
+        // safeStorage lives in the main process; the renderer reaches it through remote.
+        const safeStorage = electron.remote?.safeStorage ?? electron.safeStorage;
+        if (!safeStorage?.isEncryptionAvailable()) {
+            return null;
+        }
+        const { Buffer } = desktopRequire<{ Buffer: { from(data: string, encoding: 'base64'): Uint8Array } }>('buffer');
+        return {
+            encrypt: plainText => safeStorage.encryptString(plainText).toString('base64'),
+            decrypt: encrypted => safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+        };
+    } catch {
+        return null;
+    }
+}
+
+/** Vault-scoped local storage, where keychain-encrypted keys are kept. */
+interface VaultLocalStorage {
+    loadLocalStorage(key: string): unknown;
+    saveLocalStorage(key: string, data: unknown): void;
+}
+
+/**
+ * The app's vault-scoped local storage, or null on Obsidian before 1.8.7, which added
+ * App#loadLocalStorage and saveLocalStorage.
+ */
+function getVaultLocalStorage(app: App): VaultLocalStorage | null {
+    const storage = app as unknown as Partial<VaultLocalStorage>;
+    return typeof storage.loadLocalStorage === 'function' && typeof storage.saveLocalStorage === 'function'
+        ? storage as VaultLocalStorage
+        : null;
+}
+
+export function isKeychainAvailable(app: App): boolean {
+    return getVaultLocalStorage(app) !== null && getKeychain() !== null;
+}
+
+/** Storage for a vault without a choice yet: the keychain where there is one. */
+export function getDefaultSecretStorage(app: App): SecretStorageMode {
+    return isKeychainAvailable(app) ? 'keychain' : 'plaintext';
+}
+
+/** Environment variable that holds a key: `NEUROVOX_OPENAI_API_KEY`, `NEUROVOX_CUSTOM_LZ4X9_API_KEY`. */
+export function getEnvVariableName(name: string): string {
+    return `NEUROVOX_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`;
+}
+
+/**
+ * Reads a dotenv-style file: `NAME=value` per line, optionally prefixed with `export` and
+ * with the value in quotes. Blank lines and `#` comments are skipped.
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim().replace(/^export\s+/, '');
+        const index = line.indexOf('=');
+        if (!line || line.startsWith('#') || index <= 0) continue;
+
+        let value = line.slice(index + 1).trim();
+        if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+            value = value.slice(1, -1);
+        }
+        variables[line.slice(0, index).trim()] = value;
+    }
+    return variables;
+}
+
+/**
+ * Takes the plaintext keys older versions saved in settings out of the loaded data, so they
+ * are not written back, and returns them by secret name.
+ */
+export function extractLegacyApiKeys(data: Record<string, unknown>): SecretMap {
+    const secrets: SecretMap = {};
+    for (const field of Object.keys(LEGACY_KEY_FIELDS)) {
+        const value = data[field];
+        if (typeof value === 'string' && value.trim()) {
+            secrets[LEGACY_KEY_FIELDS[field]] = value.trim();
+        }
+        delete data[field];
+    }
+
+    if (Array.isArray(data.customEndpoints)) {
+        for (const endpoint of data.customEndpoints as Array<{ id?: unknown; apiKey?: unknown }>) {
+            if (typeof endpoint.id === 'string' && typeof endpoint.apiKey === 'string' && endpoint.apiKey.trim()) {
+                secrets[endpoint.id] = endpoint.apiKey.trim();
+            }
+            delete endpoint.apiKey;
+        }
+    }
+    return secrets;
+}
+
+/**
+ * Holds the API keys, named by provider id or custom endpoint id, and keeps them out of
+ * data.json unless the user chooses plaintext storage. Depending on settings the keys are
+ * encrypted with the OS keychain on this device, read from environment variables or a file
+ * outside the vault, or encrypted with a passphrase that is asked for once per session.
+ */
+export class SecretStore {
+    private secrets: SecretMap = {};
+    private environment: Record<string, string> = {};
+    private passphraseKey: PassphraseKey | null = null;
+    private loadError: string | null = null;
+
+    constructor(private plugin: NeuroVoxPlugin) {}
+
+    private get mode(): SecretStorageMode {
+        return this.plugin.settings.secretStorage;
+    }
+
+    public get(name: string): string {
+        if (this.mode === 'environment') {
+            return this.environment[getEnvVariableName(name)] ?? '';
+        }
+        return this.secrets[name] ?? '';
+    }
+
+    /** Passphrase-protected keys that haven't been unlocked this session. */
+    public isLocked(): boolean {
+        return this.mode === 'passphrase' && this.passphraseKey === null;
+    }
+
+    /** Whether keys can be edited in settings: not when they come from the environment. */
+    public isWritable(): boolean {
+        return this.mode !== 'environment' && this.getUnavailableReason() === null;
+    }
+
+    /** Why the keys can't be read right now, or null when they can. */
+    public getUnavailableReason(): string | null {
+        if (this.loadError) {
+            return this.loadError;
+        }
+        if (this.mode === 'keychain' && !getVaultLocalStorage(this.plugin.app)) {
+            return 'The system keychain needs Obsidian 1.8.7 or later';
+        }
+        if (this.mode === 'keychain' && !isKeychainAvailable(this.plugin.app)) {
+            return 'The system keychain is not available on this device';
+        }
+        if (this.mode === 'environment' && !Platform.isDesktopApp) {
+            return 'Environment variables can only be read on desktop';
+        }
+        if (this.isLocked()) {
+            return 'API keys are locked until you enter the passphrase';
+        }
+        return null;
+    }
+
+    /**
+     * Reads the keys from the configured storage. Passphrase-protected keys stay locked until
+     * unlock(). Never throws: a failure is reported through getUnavailableReason().
+     */
+    public async load(): Promise<void> {
+        this.secrets = {};
+        this.environment = {};
+        this.passphraseKey = null;
+        this.loadError = null;
+        try {
+            if (this.mode === 'plaintext') {
+                this.secrets = { ...this.plugin.settings.plaintextApiKeys };
+            } else if (this.mode === 'keychain') {
+                this.secrets = this.readKeychain();
+            } else if (this.mode === 'environment') {
+                this.environment = await this.readEnvironment();
+            }
+        } catch (error) {
+            this.loadError = `Could not read API keys: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    /** Saves one key to the configured storage; an empty value removes it. */
+    public async set(name: string, value: string): Promise<void> {
+        if (!this.isWritable()) {
+            throw new Error(this.getUnavailableReason() ?? 'API keys are read from the environment');
+        }
+        const secrets = { ...this.secrets };
+        if (value) {
+            secrets[name] = value;
+        } else {
+            delete secrets[name];
+        }
+        await this.write(this.mode, secrets);
+        this.secrets = secrets;
+    }
+
+    /**
+     * Unlocks passphrase-protected keys. With nothing stored yet, the passphrase becomes the
+     * one to encrypt with. Resolves false when the passphrase is wrong.
+     */
+    public async unlock(passphrase: string): Promise<boolean> {
+        const encrypted = this.plugin.settings.encryptedApiKeys;
+        if (!encrypted) {
+            this.passphraseKey = await derivePassphraseKey(passphrase);
+            this.secrets = {};
+            return true;
+        }
+        try {
+            const { secrets, key } = await decryptSecrets(encrypted, passphrase);
+            this.secrets = secrets;
+            this.passphraseKey = key;
+            return true;
+        } catch (error) {
+            if (error instanceof WrongPassphraseError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Moves the keys to another storage and deletes them from the current one. Switching to
+     * passphrase protection needs the new passphrase. Keys can't be copied into the
+     * environment, so switching there deletes them; keys that can't be read right now
+     * (locked, or in a keychain on another device) are left where they are.
+     */
+    public async switchMode(mode: SecretStorageMode, passphrase?: string): Promise<void> {
+        const previous = this.mode;
+        if (mode === previous) {
+            return;
+        }
+
+        const readable = previous !== 'environment' && this.getUnavailableReason() === null;
+        const secrets = readable ? { ...this.secrets } : {};
+        if (mode === 'passphrase') {
+            if (!passphrase) {
+                throw new Error('Choose a passphrase first');
+            }
+            this.passphraseKey = await derivePassphraseKey(passphrase);
+        }
+        if (mode !== 'environment') {
+            await this.write(mode, secrets);
+        }
+        if (readable) {
+            await this.clear(previous);
+        }
+
+        this.plugin.settings.secretStorage = mode;
+        await this.plugin.saveSettings();
+        if (mode === 'passphrase') {
+            this.secrets = secrets;
+            this.loadError = null;
+        } else {
+            await this.load();
+        }
+    }
+
+    /**
+     * Moves keys that older versions kept in plaintext settings into the configured storage.
+     * If that storage can't take them, they stay in plaintext settings rather than be lost.
+     */
+    public async migrate(legacy: SecretMap): Promise<void> {
+        if (Object.keys(legacy).length === 0) {
+            return;
+        }
+
+        const secrets = { ...legacy, ...this.secrets };
+        try {
+            await this.write(this.mode, secrets);
+        } catch (error) {
+            console.warn('[NeuroVox] Keeping API keys in plugin settings:', error);
+            this.plugin.settings.secretStorage = 'plaintext';
+            await this.write('plaintext', secrets);
+        }
+        this.secrets = secrets;
+        this.loadError = null;
+        // Drops the legacy fields from data.json.
+        await this.plugin.saveSettings();
+    }
+
+    private async write(mode: SecretStorageMode, secrets: SecretMap): Promise<void> {
+        switch (mode) {
+            case 'plaintext':
+                this.plugin.settings.plaintextApiKeys = secrets;
+                break;
+            case 'keychain': {
+                const keychain = getKeychain();
+                const storage = getVaultLocalStorage(this.plugin.app);
+                if (!keychain || !storage) {
+                    throw new Error('The system keychain is not available on this device');
+                }
+                storage.saveLocalStorage(KEYCHAIN_STORAGE_KEY, keychain.encrypt(JSON.stringify(secrets)));
+                return;
+            }
+            case 'passphrase':
+                if (!this.passphraseKey) {
+                    throw new Error('API keys are locked until you enter the passphrase');
+                }
+                this.plugin.settings.encryptedApiKeys = await encryptSecrets(secrets, this.passphraseKey);
+                break;
+            case 'environment':
+                throw new Error('API keys are read from the environment');
+        }
+        await this.plugin.saveSettings();
+    }
+
+    private async clear(mode: SecretStorageMode): Promise<void> {
+        if (mode === 'keychain') {
+            getVaultLocalStorage(this.plugin.app)?.saveLocalStorage(KEYCHAIN_STORAGE_KEY, null);
+        } else if (mode === 'plaintext') {
+            this.plugin.settings.plaintextApiKeys = {};
+            await this.plugin.saveSettings();
+        } else if (mode === 'passphrase') {
+            this.plugin.settings.encryptedApiKeys = '';
+            this.passphraseKey = null;
+            await this.plugin.saveSettings();
+        }
+    }
+
+    private readKeychain(): SecretMap {
+        const stored = getVaultLocalStorage(this.plugin.app)?.loadLocalStorage(KEYCHAIN_STORAGE_KEY) as string | null | undefined;
+        const keychain = getKeychain();
+        if (!stored || !keychain) {
+            return {};
+        }
+        return JSON.parse(keychain.decrypt(stored)) as SecretMap;
+    }
+
+    /** The key file's variables, overridden by the process environment as with dotenv. */
+    private async readEnvironment(): Promise<Record<string, string>> {
+        if (!Platform.isDesktopApp) {
+            return {};
+        }
+
+        const variables: Record<string, string> = {};
+        const filePath = this.plugin.settings.apiKeysFilePath.trim();
+        if (filePath) {
+            const { promises: fs } = desktopRequire<{ promises: { readFile(path: string, encoding: 'utf8'): Promise<string> } }>('fs');
+            const os = desktopRequire<{ homedir(): string }>('os');
+            const text = await fs.readFile(filePath.replace(/^~(?=$|[\\/])/, os.homedir()), 'utf8');
+            Object.assign(variables, parseEnvFile(text));
+        }
+        const { env } = desktopRequire<{ env: Record<string, string | undefined> }>('process');
+        for (const name of Object.keys(env)) {
+            const value = env[name];
+            if (name.startsWith('NEUROVOX_') && value) {
+                variables[name] = value;
+            }
+        }
+        return variables;
+    }
+}
@@ -0,0 +1,41 @@
+// src/utils/transcription/Glossary.test.ts
+//
+// Tests for reading a glossary note or setting into terms, and for the Whisper-style
+// prompt built from them.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGlossary, toVocabularyPrompt } from './Glossary';
+
+describe('parseGlossary', () => {
+    it('reads a bullet-list note, skipping frontmatter and headings', () => {
+        const note = [
+            '---',
+            'tags: [glossary]',
+            '---',
+            '# People',
+            '- [[Jane Doe]]',
+            '- [[people/jdoe|Jonathan Doe]]',
+            '',
+            '## Projects',
+            '* [ ] Project Atlas',
+            '1. Kubernetes, k8s'
+        ].join('\n');
+
+        assert.deepEqual(parseGlossary(note), ['Jane Doe', 'Jonathan Doe', 'Project Atlas', 'Kubernetes', 'k8s']);
+    });
+
+    it('drops case-insensitive duplicates, keeping the first spelling', () => {
+        assert.deepEqual(parseGlossary('NeuroVox, neurovox\nNEUROVOX'), ['NeuroVox']);
+    });
+});
+
+describe('toVocabularyPrompt', () => {
+    it('lists the terms and cuts at a term boundary', () => {
+        assert.equal(toVocabularyPrompt(['Jane Doe', 'Atlas']), 'Jane Doe, Atlas.');
+
+        const long = toVocabularyPrompt(Array.from({ length: 200 }, (_, i) => `term${i}`));
+        assert.ok(long.length <= 801);
+        assert.match(long, /term\d+\.$/);
+    });
+});
@@ -0,0 +1,79 @@
+import { App, normalizePath } from 'obsidian';
+import { NeuroVoxSettings } from '../../settings/Settings';
+
+// Providers cap their biasing lists (Deepgram key terms, Whisper's ~224-token prompt), and
+// boosting hundreds of terms dilutes each one anyway.
+export const MAX_GLOSSARY_TERMS = 100;
+
+const MAX_PROMPT_CHARS = 800;
+
+/**
+ * Splits glossary text into terms: one per line or comma-separated. List markers, task
+ * boxes and wiki-link brackets are stripped (an alias wins over the link target), so a
+ * glossary note can be an ordinary bullet list. Frontmatter, headings and blank lines are
+ * skipped.
+ */
+export function parseGlossary(text: string): string[] {
+    const body = text.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+    const terms: string[] = [];
+    for (const rawLine of body.split(/\r?\n/)) {
+        const line = rawLine
+            .trim()
+            .replace(/^([-*+]|\d+\.)\s+(\[.\]\s+)?/, '')
+            .replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, '$1');
+        if (!line || line.startsWith('#')) continue;
+        terms.push(...line.split(',').map(term => term.trim()).filter(Boolean));
+    }
+    return dedupe(terms);
+}
+
+/**
+ * Gathers the glossary from the settings list, the glossary note and the note titles in
+ * the glossary folder (including subfolders), in that order and capped at
+ * MAX_GLOSSARY_TERMS. A missing note or folder contributes nothing.
+ */
+export async function collectGlossary(app: App, settings: NeuroVoxSettings): Promise<string[]> {
+    const terms = parseGlossary(settings.glossaryTerms);
+
+    const notePath = settings.glossaryNotePath.trim();
+    if (notePath) {
+        const note = app.metadataCache.getFirstLinkpathDest(notePath, '');
+        if (note) {
+            terms.push(...parseGlossary(await app.vault.cachedRead(note)));
+        }
+    }
+
+    const folderPath = settings.glossaryFolderPath.trim();
+    if (folderPath) {
+        const prefix = `${normalizePath(folderPath)}/`;
+        terms.push(...app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .map(file => file.basename));
+    }
+
+    return dedupe(terms).slice(0, MAX_GLOSSARY_TERMS);
+}
+
+/**
+ * Renders terms as a Whisper-style `prompt`. The model imitates the prompt's spelling rather
+ * than following instructions, so this is a plain list, cut at a term boundary.
+ */
+export function toVocabularyPrompt(terms: string[]): string {
+    let prompt = '';
+    for (const term of terms) {
+        const next = prompt ? `${prompt}, ${term}` : term;
+        if (next.length > MAX_PROMPT_CHARS) break;
+        prompt = next;
+    }
+    return prompt ? `${prompt}.` : '';
+}
+
+function dedupe(terms: string[]): string[] {
+    const seen = new Set<string>();
+    return terms.filter(term => {
+        const key = term.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
@@ -0,0 +1,237 @@
+// src/utils/transcription/LiveTranscription.test.ts
+//
+// Tests for live transcription against a local WebSocket stand-in that replays canned
+// provider messages:
+//  - microphone samples are converted to 16 kHz 16-bit PCM;
+//  - audio sent while connecting is buffered and delivered once the socket opens;
+//  - Deepgram and AssemblyAI interim/final results build the running transcript, and
+//    finishing flushes the last results and reports the streamed audio for usage;
+//  - a connection that drops mid-recording reports it, keeping the settled text so the
+//    recording can continue in segments.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider } from '../../adapters/AIAdapter';
+import { AssemblyAIAdapter } from '../../adapters/AssemblyAIAdapter';
+import { DeepgramAdapter } from '../../adapters/DeepgramAdapter';
+import { DEFAULT_SETTINGS } from '../../settings/Settings';
+import type { UsageRecord } from '../../types';
+import {
+    LIVE_SAMPLE_RATE,
+    LiveConnection,
+    LiveSocketHandlers,
+    LiveTranscriptionSession,
+    toPcm16
+} from './LiveTranscription';
+
+// Browser-ish globals the session touches (timers).
+(globalThis as unknown as { window: unknown }).window = globalThis;
+
+/**
+ * Stands in for the provider's server: opens on the next tick, records what the session
+ * sends, and when the session asks to finish, replays `finalMessages` and closes.
+ */
+class ReplaySocket {
+    url = '';
+    protocols: string[] | undefined;
+    sent: Array<string | ArrayBuffer> = [];
+    closedByClient = false;
+    private handlers: LiveSocketHandlers | null = null;
+
+    constructor(private finishMessage: string, private finalMessages: object[] = []) {}
+
+    open = (url: string, protocols: string[] | undefined, handlers: LiveSocketHandlers): LiveConnection => {
+        this.url = url;
+        this.protocols = protocols;
+        this.handlers = handlers;
+        setTimeout(() => handlers.onOpen(), 0);
+        return {
+            send: data => {
+                this.sent.push(data);
+                if (data === this.finishMessage) {
+                    setTimeout(() => {
+                        this.replay(this.finalMessages);
+                        this.handlers?.onClose(1000, '');
+                    }, 0);
+                }
+            },
+            close: () => { this.closedByClient = true; }
+        };
+    };
+
+    replay(messages: object[]): void {
+        for (const message of messages) {
+            this.handlers?.onMessage(JSON.stringify(message));
+        }
+    }
+
+    drop(code: number, reason: string): void {
+        this.handlers?.onClose(code, reason);
+    }
+
+    audioBytes(): number {
+        return this.sent.reduce((sum, data) => sum + (typeof data === 'string' ? 0 : data.byteLength), 0);
+    }
+}
+
+/** One second of a 48 kHz tone, as the microphone tap would deliver it. */
+function oneSecondOfAudio(): Float32Array {
+    return Float32Array.from({ length: 48_000 }, (_, i) => 0.5 * Math.sin(i / 10));
+}
+
+function deepgramResult(transcript: string, isFinal: boolean, start: number, duration: number): object {
+    return {
+        type: 'Results',
+        start,
+        duration,
+        is_final: isFinal,
+        channel: { alternatives: [{ transcript, confidence: 0.9 }] }
+    };
+}
+
+function makeDeepgram(usage: UsageRecord[]): DeepgramAdapter {
+    const adapter = new DeepgramAdapter({ ...DEFAULT_SETTINGS, transcriptionLanguage: 'en' });
+    adapter.setApiKey('dg-key');
+    adapter.setUsageListener(record => usage.push(record));
+    return adapter;
+}
+
+describe('toPcm16', () => {
+    it('downsamples to 16 kHz and clamps to the 16-bit range', () => {
+        const pcm = toPcm16(new Float32Array([1, 1, 1, -1, -1, -1, 2, 2, 2, 0, 0]), 48_000);
+        assert.deepEqual(Array.from(pcm), [32767, -32768, 32767]);
+        assert.equal(toPcm16(oneSecondOfAudio(), 48_000).length, LIVE_SAMPLE_RATE);
+    });
+});
+
+describe('LiveTranscriptionSession', () => {
+    it('streams to Deepgram and builds the transcript from interim and final results', async () => {
+        const usage: UsageRecord[] = [];
+        const protocol = await makeDeepgram(usage).createLiveProtocol('nova-3');
+        assert.ok(protocol);
+        const socket = new ReplaySocket(protocol.finishMessage, [
+            deepgramResult('are you', true, 2, 1),
+            { type: 'Metadata', duration: 3 }
+        ]);
+        const updates: Array<[string, string]> = [];
+        const session = new LiveTranscriptionSession({
+            onUpdate: (finalText, interimText) => updates.push([finalText, interimText]),
+            onDrop: error => assert.fail(`unexpected drop: ${error.message}`)
+        }, socket.open);
+
+        const connected = session.connect(protocol);
+        // Audio captured before the socket opens is held back, not lost.
+        session.sendAudio(oneSecondOfAudio(), 48_000);
+        await connected;
+        assert.equal(socket.audioBytes(), LIVE_SAMPLE_RATE * 2);
+        assert.match(socket.url, /^wss:\/\/api\.deepgram\.com\/v1\/listen\?/);
+        assert.match(socket.url, /model=nova-3/);
+        assert.match(socket.url, /language=en/);
+        assert.deepEqual(socket.protocols, ['token', 'dg-key']);
+
+        session.sendAudio(oneSecondOfAudio(), 48_000);
+        socket.replay([
+            deepgramResult('hello', false, 0, 1),
+            deepgramResult('hello world', true, 0, 1.5),
+            deepgramResult('how', false, 1.5, 0.5),
+            deepgramResult('how', true, 1.5, 0.5)
+        ]);
+        assert.deepEqual(updates, [
+            ['', 'hello'],
+            ['hello world', ''],
+            ['hello world', 'how'],
+            ['hello world how', '']
+        ]);
+
+        assert.equal(await session.finish(), 'hello world how are you');
+        assert.equal(socket.closedByClient, true);
+        assert.equal(usage.length, 1);
+        assert.equal(usage[0].provider, AIProvider.Deepgram);
+        assert.equal(usage[0].model, 'nova-3');
+        assert.equal(usage[0].audioSeconds, 2);
+    });
+
+    it('reports a dropped connection and keeps the text settled before a point in time', async () => {
+        const usage: UsageRecord[] = [];
+        const protocol = await makeDeepgram(usage).createLiveProtocol('nova-3');
+        assert.ok(protocol);
+        const socket = new ReplaySocket(protocol.finishMessage);
+        const drops: Error[] = [];
+        const session = new LiveTranscriptionSession({
+            onUpdate: () => {},
+            onDrop: error => drops.push(error)
+        }, socket.open);
+
+        await session.connect(protocol);
+        session.sendAudio(oneSecondOfAudio(), 48_000);
+        socket.replay([
+            deepgramResult('first part', true, 0, 14),
+            deepgramResult('second part', true, 14, 4),
+            deepgramResult('never settled', false, 18, 1)
+        ]);
+        socket.drop(1011, 'NET-0001');
+
+        assert.equal(drops.length, 1);
+        assert.match(drops[0].message, /1011: NET-0001/);
+        assert.equal(session.isOpen(), false);
+        assert.equal(session.getTranscriptUntil(15), 'first part');
+        assert.equal(session.getTranscript(), 'first part second part');
+        await assert.rejects(session.finish(), /not connected/);
+        assert.equal(usage.length, 1);
+    });
+
+    it('settles AssemblyAI turns only once they are formatted', async () => {
+        const adapter = new AssemblyAIAdapter({ ...DEFAULT_SETTINGS });
+        adapter.setApiKey('aai-key');
+        const requested: string[] = [];
+        (adapter as unknown as { makeAPIRequest: (url: string) => Promise<unknown> }).makeAPIRequest =
+            url => { requested.push(url); return Promise.resolve({ token: 'temp-token', expires_in_seconds: 60 }); };
+
+        const protocol = await adapter.createLiveProtocol('universal-3-pro');
+        assert.ok(protocol);
+        assert.match(requested[0], /^https:\/\/streaming\.assemblyai\.com\/v3\/token/);
+        const socket = new ReplaySocket(protocol.finishMessage, [{ type: 'Termination', audio_duration_seconds: 1 }]);
+        const updates: Array<[string, string]> = [];
+        const session = new LiveTranscriptionSession({
+            onUpdate: (finalText, interimText) => updates.push([finalText, interimText]),
+            onDrop: error => assert.fail(`unexpected drop: ${error.message}`)
+        }, socket.open);
+
+        await session.connect(protocol);
+        assert.match(socket.url, /^wss:\/\/streaming\.assemblyai\.com\/v3\/ws\?/);
+        assert.match(socket.url, /token=temp-token/);
+        assert.match(socket.url, /speech_model=universal-streaming-multilingual/);
+
+        const words = [
+            { text: 'hi', start: 0, end: 300, word_is_final: true },
+            { text: 'there', start: 350, end: 700, word_is_final: false }
+        ];
+        socket.replay([
+            { type: 'Begin', id: 'session', expires_at: 0 },
+            { type: 'Turn', transcript: 'hi', end_of_turn: false, turn_is_formatted: false, words },
+            { type: 'Turn', transcript: 'hi there', end_of_turn: true, turn_is_formatted: false, words },
+            { type: 'Turn', transcript: 'Hi there.', end_of_turn: true, turn_is_formatted: true, words }
+        ]);
+        assert.deepEqual(updates, [
+            ['', 'hi there'],
+            ['', 'hi there'],
+            ['Hi there.', '']
+        ]);
+        assert.equal(session.getTranscriptUntil(0.7), 'Hi there.');
+
+        assert.equal(await session.finish(), 'Hi there.');
+    });
+
+    it('fails to connect, without reporting a drop, when the protocol cannot be built', async () => {
+        const socket = new ReplaySocket('{"type":"Terminate"}');
+        const session = new LiveTranscriptionSession({
+            onUpdate: () => {},
+            onDrop: () => assert.fail('a failed connect is not a drop')
+        }, socket.open);
+        await assert.rejects(
+            session.connect(Promise.reject(new Error('HTTP 401: Invalid API key'))),
+            /HTTP 401/
+        );
+        assert.equal(socket.url, '');
+    });
+});
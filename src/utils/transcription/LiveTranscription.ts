@@ -0,0 +1,362 @@
+// src/utils/transcription/LiveTranscription.ts
+
+import { Logger } from '../Logger';
+
+/** Live audio goes out as 16 kHz mono signed 16-bit little-endian PCM, which both providers accept. */
+export const LIVE_SAMPLE_RATE = 16_000;
+
+/** One recognition result from the provider. */
+export interface LiveResult {
+    text: string;
+    /** Final results never change again; interim ones are replaced by the next result. */
+    isFinal: boolean;
+    /** End of the recognized audio, in seconds from the start of the stream. */
+    endSeconds: number;
+}
+
+/**
+ * How one provider's streaming API is spoken: where to connect, how to read its messages and
+ * how to end the stream. Built by the adapter (see AIAdapter.createLiveProtocol), which owns
+ * the provider's URLs and authentication.
+ */
+export interface LiveProtocol {
+    url: string;
+    /** WebSocket subprotocols; browsers can't set headers, so some providers take the key here. */
+    protocols?: string[];
+    /**
+     * Reads one text message. Returns null for messages that carry no result (session
+     * metadata, acknowledgements) and throws when the provider reports an error.
+     */
+    parseMessage(message: string): LiveResult | null;
+    /** Asks the provider to flush its last results and close the connection. */
+    finishMessage: string;
+    /** Keeps an idle connection open while the recording is paused, when the provider needs it. */
+    keepAliveMessage?: string;
+    /** Called once when the session ends with the seconds of audio streamed, for the usage ledger. */
+    reportUsage(audioSeconds: number): void;
+}
+
+export interface LiveSocketHandlers {
+    onOpen(): void;
+    onMessage(data: unknown): void;
+    onClose(code: number, reason: string): void;
+}
+
+/** The part of a WebSocket a live session needs. */
+export interface LiveConnection {
+    send(data: string | ArrayBuffer): void;
+    close(): void;
+}
+
+/**
+ * Opens a connection. The default uses the browser WebSocket; tests pass a stand-in that
+ * replays canned provider messages. Handlers are called asynchronously, never before the
+ * factory has returned.
+ */
+export type LiveSocketFactory = (url: string, protocols: string[] | undefined, handlers: LiveSocketHandlers) => LiveConnection;
+
+export const openWebSocket: LiveSocketFactory = (url, protocols, handlers) => {
+    const socket = new WebSocket(url, protocols);
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = event => handlers.onMessage(event.data);
+    // An error is always followed by close, which carries the code the session reports.
+    socket.onclose = event => handlers.onClose(event.code, event.reason);
+    return {
+        send: data => socket.send(data),
+        close: () => socket.close()
+    };
+};
+
+export interface LiveTranscriptionCallbacks {
+    /** The transcript changed: the text that is settled, and the tail that may still change. */
+    onUpdate(finalText: string, interimText: string): void;
+    /** The connection ended before finish(); the session is closed and can't be reused. */
+    onDrop(error: Error): void;
+}
+
+/**
+ * Converts microphone samples (-1..1 floats at the audio context's rate) to 16-bit PCM at
+ * LIVE_SAMPLE_RATE. Downsamples by averaging each output sample's input window, which is
+ * enough of a low-pass for speech recognition.
+ */
+export function toPcm16(samples: Float32Array, sampleRate: number): Int16Array {
+    const ratio = sampleRate / LIVE_SAMPLE_RATE;
+    const length = Math.floor(samples.length / ratio);
+    const pcm = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+        const start = Math.floor(i * ratio);
+        const end = Math.max(start + 1, Math.floor((i + 1) * ratio));
+        let sum = 0;
+        for (let j = start; j < end; j++) {
+            sum += samples[j];
+        }
+        const value = Math.max(-1, Math.min(1, sum / (end - start)));
+        pcm[i] = value < 0 ? value * 0x8000 : value * 0x7fff;
+    }
+    return pcm;
+}
+
+type SessionState = 'idle' | 'connecting' | 'open' | 'finishing' | 'closed';
+
+/**
+ * One live transcription stream: sends microphone audio over a WebSocket and assembles the
+ * provider's interim and final results into a running transcript.
+ *
+ * Audio sent before the socket opens is buffered, so the stream's clock starts with the
+ * recording and result times line up with recording time (pauses aside, which send nothing).
+ * TimerModal relies on that to hand over to segment transcription when the connection drops.
+ */
+export class LiveTranscriptionSession {
+    private protocol: LiveProtocol | null = null;
+    private connection: LiveConnection | null = null;
+    private state: SessionState = 'idle';
+    private finals: { text: string; endSeconds: number }[] = [];
+    private interim: string = '';
+    private pendingAudio: ArrayBuffer[] = [];
+    private pendingSamples: number = 0;
+    private samplesSent: number = 0;
+    private lastSendTime: number = 0;
+    private keepAliveId: number | null = null;
+    private usageReported: boolean = false;
+    private settle: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    // Longer than this and the connection is treated as failed; it must stay below the
+    // shortest recording segment so no segment is discarded before the stream is live.
+    private readonly CONNECT_TIMEOUT_MS = 10_000;
+    private readonly MAX_PENDING_SECONDS = 15;
+    private readonly KEEP_ALIVE_MS = 5_000;
+
+    constructor(
+        private callbacks: LiveTranscriptionCallbacks,
+        private openSocket: LiveSocketFactory = openWebSocket
+    ) {}
+
+    /**
+     * Opens the connection. The protocol may still be on its way (AssemblyAI fetches a token
+     * first); audio sent meanwhile is buffered. Rejects when the protocol or the connection
+     * fails, when it does not open within CONNECT_TIMEOUT_MS, or when close() is called first.
+     */
+    connect(protocol: LiveProtocol | Promise<LiveProtocol>): Promise<void> {
+        if (this.state !== 'idle') {
+            return Promise.reject(new Error('Live transcription session already started'));
+        }
+        this.state = 'connecting';
+
+        return new Promise<void>((resolve, reject) => {
+            const timeoutId = window.setTimeout(() => {
+                this.fail(new Error('Timed out connecting to the live transcription service'));
+            }, this.CONNECT_TIMEOUT_MS);
+            this.settle = {
+                resolve: () => { window.clearTimeout(timeoutId); resolve(); },
+                reject: error => { window.clearTimeout(timeoutId); reject(error); }
+            };
+
+            Promise.resolve(protocol).then(resolved => {
+                // Timed out or closed while the protocol was being prepared.
+                if (this.state !== 'connecting') return;
+                this.protocol = resolved;
+                this.connection = this.openSocket(resolved.url, resolved.protocols, {
+                    onOpen: () => this.handleOpen(),
+                    onMessage: data => this.handleMessage(data),
+                    onClose: (code, reason) => this.handleClose(code, reason)
+                });
+            }).catch(error => {
+                this.fail(error instanceof Error ? error : new Error(String(error)));
+            });
+        });
+    }
+
+    /**
+     * Streams microphone samples. `samples` is only read during the call, so the caller may
+     * reuse its buffer. Ignored once the session is finishing or closed.
+     */
+    sendAudio(samples: Float32Array, sampleRate: number): void {
+        if (this.state !== 'connecting' && this.state !== 'open') return;
+
+        const pcm = toPcm16(samples, sampleRate);
+        if (this.state === 'connecting') {
+            // Past the cap the connect timeout is about to fire anyway.
+            if (this.pendingSamples + pcm.length <= this.MAX_PENDING_SECONDS * LIVE_SAMPLE_RATE) {
+                this.pendingAudio.push(pcm.buffer);
+                this.pendingSamples += pcm.length;
+            }
+            return;
+        }
+        this.send(pcm.buffer, pcm.length);
+    }
+
+    /** Whether audio is currently reaching the provider. */
+    isOpen(): boolean {
+        return this.state === 'open';
+    }
+
+    /** Seconds of audio streamed (or buffered to stream) so far. */
+    getAudioSeconds(): number {
+        return (this.samplesSent + this.pendingSamples) / LIVE_SAMPLE_RATE;
+    }
+
+    /** The settled transcript so far. */
+    getTranscript(): string {
+        return this.finals.map(result => result.text).join(' ');
+    }
+
+    /** The settled transcript of results ending at or before `seconds` into the stream. */
+    getTranscriptUntil(seconds: number): string {
+        return this.finals
+            .filter(result => result.endSeconds <= seconds)
+            .map(result => result.text)
+            .join(' ');
+    }
+
+    /**
+     * Ends the stream: asks the provider to flush and waits, up to `timeoutMs`, for it to close
+     * the connection. Resolves the full transcript; rejects if the connection is not open or
+     * drops or times out first, in which case the session is closed.
+     */
+    finish(timeoutMs: number = 10_000): Promise<string> {
+        if (this.state !== 'open') {
+            const error = new Error('Live transcription is not connected');
+            this.fail(error);
+            return Promise.reject(error);
+        }
+        this.state = 'finishing';
+        this.stopKeepAlive();
+
+        return new Promise<string>((resolve, reject) => {
+            const timeoutId = window.setTimeout(() => {
+                this.fail(new Error('Timed out waiting for the last live transcription results'));
+            }, timeoutMs);
+            this.settle = {
+                resolve: () => { window.clearTimeout(timeoutId); resolve(this.getTranscript()); },
+                reject: error => { window.clearTimeout(timeoutId); reject(error); }
+            };
+            if (this.protocol) {
+                this.connection?.send(this.protocol.finishMessage);
+            }
+        });
+    }
+
+    /**
+     * Closes the connection without waiting for results; a pending connect() or finish()
+     * rejects. Safe to call more than once.
+     */
+    close(): void {
+        if (this.state === 'closed') return;
+        this.state = 'closed';
+        this.shutdown();
+        this.takeSettle()?.reject(new Error('Live transcription closed'));
+    }
+
+    private handleOpen(): void {
+        if (this.state !== 'connecting') return;
+        this.state = 'open';
+        Logger.log('[LiveTranscription] Connected; sending', this.pendingSamples / LIVE_SAMPLE_RATE, 's of buffered audio');
+
+        const pending = this.pendingAudio.splice(0);
+        this.pendingSamples = 0;
+        this.lastSendTime = Date.now();
+        for (const chunk of pending) {
+            this.send(chunk, chunk.byteLength / 2);
+        }
+
+        this.startKeepAlive();
+        this.takeSettle()?.resolve();
+    }
+
+    private handleMessage(data: unknown): void {
+        if (typeof data !== 'string' || this.state === 'closed') return;
+
+        let result: LiveResult | null;
+        try {
+            result = this.protocol?.parseMessage(data) ?? null;
+        } catch (error) {
+            this.fail(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        if (!result) return;
+
+        if (result.isFinal) {
+            if (result.text) {
+                this.finals.push({ text: result.text, endSeconds: result.endSeconds });
+            }
+            this.interim = '';
+        } else {
+            this.interim = result.text;
+        }
+        this.callbacks.onUpdate(this.getTranscript(), this.interim);
+    }
+
+    private handleClose(code: number, reason: string): void {
+        if (this.state === 'closed') return;
+
+        if (this.state === 'finishing') {
+            this.state = 'closed';
+            this.shutdown();
+            this.takeSettle()?.resolve();
+            return;
+        }
+        this.fail(new Error(`Connection closed (${code}${reason ? `: ${reason}` : ''})`));
+    }
+
+    /**
+     * Closes the session on an error. A pending connect() or finish() rejects with it;
+     * otherwise the connection dropped mid-recording and the owner hears about it via onDrop.
+     */
+    private fail(error: Error): void {
+        if (this.state === 'closed') return;
+        Logger.log('[LiveTranscription] Session failed:', error.message);
+        this.state = 'closed';
+        this.shutdown();
+
+        const settle = this.takeSettle();
+        if (settle) {
+            settle.reject(error);
+        } else {
+            this.callbacks.onDrop(error);
+        }
+    }
+
+    private takeSettle(): { resolve: () => void; reject: (error: Error) => void } | null {
+        const settle = this.settle;
+        this.settle = null;
+        return settle;
+    }
+
+    private send(data: ArrayBuffer, samples: number): void {
+        this.connection?.send(data);
+        this.samplesSent += samples;
+        this.lastSendTime = Date.now();
+    }
+
+    private startKeepAlive(): void {
+        const message = this.protocol?.keepAliveMessage;
+        if (!message) return;
+        this.keepAliveId = window.setInterval(() => {
+            if (this.state === 'open' && Date.now() - this.lastSendTime >= this.KEEP_ALIVE_MS) {
+                this.connection?.send(message);
+                this.lastSendTime = Date.now();
+            }
+        }, this.KEEP_ALIVE_MS);
+    }
+
+    private stopKeepAlive(): void {
+        if (this.keepAliveId !== null) {
+            window.clearInterval(this.keepAliveId);
+            this.keepAliveId = null;
+        }
+    }
+
+    private shutdown(): void {
+        this.stopKeepAlive();
+        this.pendingAudio = [];
+        this.pendingSamples = 0;
+        try { this.connection?.close(); } catch { /* already closed */ }
+        this.connection = null;
+
+        if (!this.usageReported && this.samplesSent > 0) {
+            this.usageReported = true;
+            this.protocol?.reportUsage(this.samplesSent / LIVE_SAMPLE_RATE);
+        }
+    }
+}
@@ -0,0 +1,68 @@
+// src/utils/transcription/ProviderFallback.test.ts
+//
+// Tests for the provider fallback chain: which failures move on to the next provider, and
+// what the caller learns about the attempt that answered or the ones that failed.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider, APIRequestError } from '../../adapters/AIAdapter';
+import { buildChain, runWithFallback, shouldFallBack } from './ProviderFallback';
+
+const chain = [
+    { provider: AIProvider.OpenAI, model: 'whisper-1' },
+    { provider: AIProvider.Groq, model: 'whisper-large-v3' }
+];
+
+describe('shouldFallBack', () => {
+    it('falls back on outages, rate limits, auth and network failures but not bad requests', () => {
+        assert.equal(shouldFallBack(new APIRequestError('HTTP 503', 503)), true);
+        assert.equal(shouldFallBack(new APIRequestError('HTTP 429', 429)), true);
+        assert.equal(shouldFallBack(new APIRequestError('HTTP 401', 401)), true);
+        assert.equal(shouldFallBack(new Error('net::ERR_CONNECTION_RESET')), true);
+        assert.equal(shouldFallBack(new APIRequestError('HTTP 400', 400)), false);
+    });
+});
+
+describe('runWithFallback', () => {
+    it('reports which entry answered after the primary failed', async () => {
+        const outcome = await runWithFallback(chain, async ({ provider }) => {
+            if (provider === AIProvider.OpenAI) throw new APIRequestError('HTTP 500: down', 500);
+            return 'transcript';
+        });
+
+        assert.equal(outcome.value, 'transcript');
+        assert.equal(outcome.choice.provider, AIProvider.Groq);
+        assert.equal(outcome.usedFallback, true);
+    });
+
+    it('stops at a failure that another provider would not fix', async () => {
+        const tried: AIProvider[] = [];
+        await assert.rejects(
+            runWithFallback(chain, async ({ provider }) => {
+                tried.push(provider);
+                throw new APIRequestError('HTTP 400: unsupported format', 400);
+            }),
+            /unsupported format/
+        );
+        assert.deepEqual(tried, [AIProvider.OpenAI]);
+    });
+
+    it('lists every failure and keeps the last status when all entries fail', async () => {
+        await assert.rejects(
+            runWithFallback(chain, async ({ provider }) => {
+                throw new APIRequestError(`HTTP 503: ${provider} down`, 503);
+            }),
+            (error: unknown) => error instanceof APIRequestError && error.status === 503 &&
+                /openai \(whisper-1\).*groq \(whisper-large-v3\)/.test(error.message)
+        );
+    });
+});
+
+describe('buildChain', () => {
+    it('skips unset and repeated entries', () => {
+        assert.deepEqual(
+            buildChain(chain[0], [{ provider: AIProvider.Groq, model: '' }, chain[0], chain[1]]),
+            chain
+        );
+    });
+});
@@ -0,0 +1,97 @@
+import { APIRequestError, withErrorMessage } from '../../adapters/AIAdapter';
+import { ModelChoice, NeuroVoxSettings } from '../../settings/Settings';
+
+// Besides 5xx: rejected credentials, request timeout, payload too large for this provider
+// and rate limiting. Each may well succeed on a different provider.
+const FALLBACK_STATUSES = new Set([401, 403, 408, 413, 429]);
+
+/** The value a fallback chain produced and the entry that produced it. */
+export interface FallbackOutcome<T> {
+    value: T;
+    choice: ModelChoice;
+    /** True when an entry after the primary answered. */
+    usedFallback: boolean;
+}
+
+/**
+ * Whether a failure should move on to the next provider: server errors, the statuses above,
+ * and failures that never got an HTTP response (network errors, timeouts, a provider without
+ * a key). Any other 4xx means the request itself was refused, which is reported rather than
+ * masked by a fallback.
+ */
+export function shouldFallBack(error: unknown): boolean {
+    if (error instanceof APIRequestError) {
+        return error.status >= 500 || FALLBACK_STATUSES.has(error.status);
+    }
+    return true;
+}
+
+/** The primary followed by the fallbacks, skipping entries that repeat an earlier one. */
+export function buildChain(primary: ModelChoice, fallbacks: ModelChoice[]): ModelChoice[] {
+    const chain: ModelChoice[] = [];
+    for (const choice of [primary, ...fallbacks]) {
+        if (choice.model && !chain.some(c => c.provider === choice.provider && c.model === choice.model)) {
+            chain.push(choice);
+        }
+    }
+    return chain;
+}
+
+/** The selected transcription model followed by its fallbacks. */
+export function getTranscriptionChain(settings: NeuroVoxSettings): ModelChoice[] {
+    return buildChain(
+        { provider: settings.transcriptionProvider, model: settings.transcriptionModel },
+        settings.transcriptionFallbacks
+    );
+}
+
+/** The selected post-processing model followed by its fallbacks. */
+export function getPostProcessingChain(settings: NeuroVoxSettings): ModelChoice[] {
+    return buildChain(
+        { provider: settings.postProcessingProvider, model: settings.postProcessingModel },
+        settings.postProcessingFallbacks
+    );
+}
+
+export function describeChoice(choice: ModelChoice): string {
+    return `${choice.provider} (${choice.model})`;
+}
+
+/**
+ * Runs `attempt` against each entry of the chain until one succeeds, telling it whether it
+ * is the last entry. Stops at the first failure that shouldFallBack() rejects, or when
+ * `signal` is aborted. When several entries failed, the error lists each of them and keeps
+ * the last one's class and HTTP status.
+ */
+export async function runWithFallback<T>(
+    chain: ModelChoice[],
+    attempt: (choice: ModelChoice, isLast: boolean) => Promise<T>,
+    signal?: AbortSignal
+): Promise<FallbackOutcome<T>> {
+    if (chain.length === 0) {
+        throw new Error('No model selected');
+    }
+
+    const failures: string[] = [];
+    for (let index = 0; index < chain.length; index++) {
+        const choice = chain[index];
+        const isLast = index === chain.length - 1;
+        try {
+            const value = await attempt(choice, isLast);
+            return { value, choice, usedFallback: index > 0 };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            failures.push(`${describeChoice(choice)}: ${message}`);
+
+            if (isLast || signal?.aborted || !shouldFallBack(error)) {
+                if (failures.length === 1) {
+                    throw error;
+                }
+                throw withErrorMessage(error, `Tried ${failures.length} providers. ${failures.join('; ')}`);
+            }
+            console.warn(`[NeuroVox] ${describeChoice(choice)} failed, trying the next provider: ${message}`);
+        }
+    }
+    // Unreachable: the last entry either returns or throws.
+    throw new Error('No model selected');
+}
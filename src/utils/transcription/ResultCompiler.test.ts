@@ -0,0 +1,121 @@
+// src/utils/transcription/ResultCompiler.test.ts
+//
+// Tests for how the compiler places transcripts on the recording timeline:
+//  - provider segment timings are offset by the chunk's position, so
+//    timestamps point at the actual sentence rather than the chunk start;
+//  - chunks without timings fall back to one wall-clock-stamped segment;
+//  - gap markers and the segment count refer to recording chunks, not to the
+//    sentences inside them;
+//  - speaker turns become labelled paragraphs, with labels assigned per chunk;
+//  - each provider is listed once among the sources, flagged if it ever stood in.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TranscriptionChunk, TranscriptResult } from '../../types';
+import { ResultCompiler } from './ResultCompiler';
+
+const START = 1_000_000;
+
+function makeChunk(index: number, offsetMs: number, durationMs: number, transcript: TranscriptResult): TranscriptionChunk {
+    return {
+        metadata: { id: `segment_${index}`, index, duration: durationMs, timestamp: START + offsetMs, size: 4 },
+        transcript,
+        processed: true
+    };
+}
+
+describe('ResultCompiler timeline', () => {
+    it('offsets provider segment timings by where the chunk starts', () => {
+        const compiler = new ResultCompiler(START);
+        compiler.addSegment(makeChunk(0, 60_000, 30_000, {
+            text: 'Hello there. General Kenobi.',
+            segments: [
+                { start: 2.4, end: 3.9, text: ' Hello there.' },
+                { start: 65.2, end: 67, text: ' General Kenobi.' }
+            ]
+        }));
+
+        const result = compiler.getPartialResult(true);
+
+        assert.match(result, /\[01:02\] Hello there\./);
+        assert.match(result, /\[02:05\] General Kenobi\./);
+    });
+
+    it('stamps an untimed chunk with its recording position', () => {
+        const compiler = new ResultCompiler(START);
+        compiler.addSegment(makeChunk(0, 0, 30_000, { text: 'first', segments: [] }));
+        compiler.addSegment(makeChunk(1, 30_000, 30_000, { text: 'second', segments: [] }));
+
+        assert.equal(compiler.getPartialResult(true), '[00:00] first\n\n[00:30] second');
+    });
+
+    it('marks gaps only between chunks and counts chunks, not sentences', () => {
+        const compiler = new ResultCompiler(START);
+        // Three seconds of silence between the two sentences of chunk 0.
+        compiler.addSegment(makeChunk(0, 0, 30_000, {
+            text: 'One. Two.',
+            segments: [
+                { start: 0, end: 1, text: 'One.' },
+                { start: 4, end: 5, text: 'Two.' }
+            ]
+        }));
+        // The next chunk starts well after chunk 0 ended (a failed chunk in between).
+        compiler.addSegment(makeChunk(2, 60_000, 30_000, { text: 'Three.', segments: [] }));
+
+        assert.equal(compiler.getPartialResult(false), 'One. Two.\n\n...\n\nThree.');
+        assert.equal(compiler.getSegmentCount(), 2);
+        assert.equal(compiler.getTotalDuration(), 90_000);
+    });
+});
+
+describe('ResultCompiler speakers', () => {
+    it('starts a labelled paragraph at each speaker change', () => {
+        const compiler = new ResultCompiler(START);
+        compiler.addSegment(makeChunk(0, 0, 30_000, {
+            text: 'Shall we start? Yes. Agenda first.',
+            segments: [
+                { start: 0, end: 1, text: 'Shall we start?', speaker: '0' },
+                { start: 1.5, end: 2, text: 'Yes.', speaker: '1' },
+                { start: 2.5, end: 4, text: 'Agenda first.', speaker: '1' }
+            ]
+        }));
+
+        assert.equal(
+            compiler.getPartialResult(false),
+            '**Speaker A:** Shall we start?\n\n**Speaker B:** Yes. Agenda first.'
+        );
+    });
+
+    it('assigns labels per chunk and says so in the metadata', () => {
+        const compiler = new ResultCompiler(START);
+        compiler.addSegment(makeChunk(0, 0, 30_000, {
+            text: 'First.',
+            segments: [{ start: 0, end: 1, text: 'First.', speaker: 'speaker_1' }]
+        }));
+        compiler.addSegment(makeChunk(1, 30_000, 30_000, {
+            text: 'Second.',
+            segments: [{ start: 0, end: 1, text: 'Second.', speaker: 'speaker_0' }]
+        }));
+
+        assert.equal(
+            compiler.getPartialResult(true),
+            '[00:00] **Speaker A:** First.\n\n[00:30] **Speaker A:** Second.'
+        );
+        assert.match(compiler.getFinalResult(false, true), /- Speakers: labelled per segment/);
+    });
+});
+
+describe('ResultCompiler sources', () => {
+    it('lists each provider once and flags one that stood in for any chunk', () => {
+        const compiler = new ResultCompiler(START);
+        const primary = { label: 'groq (whisper-large-v3)', fallback: false };
+        const fallback = { label: 'openai (whisper-1)', fallback: true };
+        compiler.addSegment(makeChunk(0, 0, 30_000, { text: 'One.', segments: [], source: primary }));
+        compiler.addSegment(makeChunk(1, 30_000, 30_000, { text: 'Two.', segments: [], source: fallback }));
+        compiler.addSegment(makeChunk(2, 60_000, 30_000, { text: 'Three.', segments: [], source: primary }));
+
+        assert.deepEqual(compiler.getSources(), [primary, fallback]);
+        compiler.clear();
+        assert.deepEqual(compiler.getSources(), []);
+    });
+});
@@ -1,15 +1,21 @@
-import { TranscriptionChunk } from '../../types';
+import { ResultSource, TranscriptionChunk } from '../../types';
+import { createSpeakerLabeller, formatSpeakerPrefix } from './TranscriptBuilder';
 
 interface CompiledSegment {
     startTime: number;
     endTime: number;
     text: string;
     chunkId: string;
+    /** Speaker letter, assigned per chunk: providers diarize each request independently. */
+    speaker?: string;
 }
 
 export class ResultCompiler {
     private segments: CompiledSegment[] = [];
     private totalDuration: number = 0;
+    private languages: string[] = [];
+    // Provider label -> whether it stood in as a fallback
+    private sources: Map<string, boolean> = new Map();
     private startTimestamp: number;
 
     constructor(startTimestamp?: number) {
@@ -17,28 +23,58 @@ export class ResultCompiler {
     }
 
     addSegment(chunk: TranscriptionChunk): void {
-        const segment: CompiledSegment = {
-            startTime: chunk.metadata.timestamp - this.startTimestamp,
-            endTime: (chunk.metadata.timestamp - this.startTimestamp) + chunk.metadata.duration,
-            text: chunk.transcript.trim(),
-            chunkId: chunk.metadata.id
-        };
-
-        // Insert in order by start time
-        const insertIndex = this.segments.findIndex(s => s.startTime > segment.startTime);
-        if (insertIndex === -1) {
-            this.segments.push(segment);
-        } else {
-            this.segments.splice(insertIndex, 0, segment);
+        const chunkStart = chunk.metadata.timestamp - this.startTimestamp;
+        const chunkEnd = chunkStart + chunk.metadata.duration;
+
+        // Provider timings are relative to the chunk's audio, so offset them by where the
+        // chunk starts. Without timings the whole chunk becomes one segment, stamped with
+        // the wall-clock position it was recorded at.
+        if (chunk.transcript.language) {
+            this.languages.push(chunk.transcript.language);
+        }
+        const source = chunk.transcript.source;
+        if (source) {
+            this.sources.set(source.label, (this.sources.get(source.label) ?? false) || source.fallback);
+        }
+
+        const timed = chunk.transcript.segments.filter(s => s.text.trim());
+        const labelOf = createSpeakerLabeller();
+        const segments: CompiledSegment[] = timed.length > 0
+            ? timed.map(s => ({
+                startTime: chunkStart + s.start * 1000,
+                endTime: chunkStart + s.end * 1000,
+                text: s.text.trim(),
+                chunkId: chunk.metadata.id,
+                speaker: labelOf(s.speaker)
+            }))
+            : [{
+                startTime: chunkStart,
+                endTime: chunkEnd,
+                text: chunk.transcript.text.trim(),
+                chunkId: chunk.metadata.id
+            }];
+
+        for (const segment of segments) {
+            // Insert in order by start time
+            const insertIndex = this.segments.findIndex(s => s.startTime > segment.startTime);
+            if (insertIndex === -1) {
+                this.segments.push(segment);
+            } else {
+                this.segments.splice(insertIndex, 0, segment);
+            }
         }
 
         // Update total duration
-        this.totalDuration = Math.max(this.totalDuration, segment.endTime);
+        this.totalDuration = Math.max(this.totalDuration, chunkEnd, ...segments.map(s => s.endTime));
     }
 
     getPartialResult(includeTimestamps: boolean = false): string {
         if (this.segments.length === 0) return '';
 
+        if (this.hasSpeakers()) {
+            return this.formatBySpeaker(includeTimestamps);
+        }
+
         if (includeTimestamps) {
             return this.segments
                 .map(seg => `[${this.formatTime(seg.startTime)}] ${seg.text}`)
@@ -50,8 +86,9 @@ export class ResultCompiler {
                 const segment = this.segments[i];
                 const prevSegment = i > 0 ? this.segments[i - 1] : null;
                 
-                // Check for gap
-                if (prevSegment && segment.startTime - prevSegment.endTime > 1000) { // 1 second gap
+                // Check for a gap between recording chunks (pauses inside one chunk are speech)
+                if (prevSegment && prevSegment.chunkId !== segment.chunkId &&
+                    segment.startTime - prevSegment.endTime > 1000) { // 1 second gap
                     result += '\n\n...\n\n';
                 } else if (i > 0) {
                     result += ' ';
@@ -74,7 +111,19 @@ export class ResultCompiler {
             result += `## Recording Information\n`;
             result += `- Date: ${recordingDate}\n`;
             result += `- Duration: ${duration}\n`;
-            result += `- Segments: ${this.segments.length}\n\n`;
+            result += `- Segments: ${this.getSegmentCount()}\n`;
+            const language = this.getLanguage();
+            if (language) {
+                result += `- Language: ${language}\n`;
+            }
+            if (this.sources.size > 0) {
+                const labels = Array.from(this.sources, ([label, fallback]) => fallback ? `${label} (fallback)` : label);
+                result += `- Transcribed with: ${labels.join(', ')}\n`;
+            }
+            if (this.getDiarizedChunkCount() > 1) {
+                result += `- Speakers: labelled per segment, so Speaker A in one segment may not be Speaker A in the next\n`;
+            }
+            result += `\n`;
             result += `---\n\n`;
         }
 
@@ -84,6 +133,38 @@ export class ResultCompiler {
         return result;
     }
 
+    /**
+     * One paragraph per speaker turn. A new chunk always starts a new paragraph, since its
+     * labels were assigned independently of the previous chunk's.
+     */
+    private formatBySpeaker(includeTimestamps: boolean): string {
+        const paragraphs: string[] = [];
+        let previous: CompiledSegment | null = null;
+        for (const segment of this.segments) {
+            const newChunk = previous !== null && previous.chunkId !== segment.chunkId;
+            if (previous && !newChunk && segment.speaker === previous.speaker) {
+                paragraphs[paragraphs.length - 1] += ` ${segment.text}`;
+            } else {
+                if (!includeTimestamps && previous && newChunk &&
+                    segment.startTime - previous.endTime > 1000) { // 1 second gap
+                    paragraphs.push('...');
+                }
+                const stamp = includeTimestamps ? `[${this.formatTime(segment.startTime)}] ` : '';
+                paragraphs.push(`${stamp}${formatSpeakerPrefix(segment.speaker)}${segment.text}`);
+            }
+            previous = segment;
+        }
+        return paragraphs.join('\n\n');
+    }
+
+    private hasSpeakers(): boolean {
+        return this.segments.some(s => s.speaker !== undefined);
+    }
+
+    private getDiarizedChunkCount(): number {
+        return new Set(this.segments.filter(s => s.speaker !== undefined).map(s => s.chunkId)).size;
+    }
+
     private formatTime(milliseconds: number): string {
         const totalSeconds = Math.floor(milliseconds / 1000);
         const minutes = Math.floor(totalSeconds / 60);
@@ -91,8 +172,29 @@ export class ResultCompiler {
         return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
     }
 
+    /** Number of recording chunks compiled (a chunk may contribute several timed segments). */
     getSegmentCount(): number {
-        return this.segments.length;
+        return new Set(this.segments.map(s => s.chunkId)).size;
+    }
+
+    /** The language most chunks were transcribed in, if any provider reported one. */
+    getLanguage(): string | undefined {
+        const counts = new Map<string, number>();
+        for (const language of this.languages) {
+            counts.set(language, (counts.get(language) ?? 0) + 1);
+        }
+        let best: string | undefined;
+        for (const [language, count] of counts) {
+            if (best === undefined || count > (counts.get(best) ?? 0)) {
+                best = language;
+            }
+        }
+        return best;
+    }
+
+    /** Providers that transcribed the compiled chunks, each flagged if it stood in as a fallback. */
+    getSources(): ResultSource[] {
+        return Array.from(this.sources, ([label, fallback]) => ({ label, fallback }));
     }
 
     getTotalDuration(): number {
@@ -102,6 +204,8 @@ export class ResultCompiler {
     clear(): void {
         this.segments = [];
         this.totalDuration = 0;
+        this.languages = [];
+        this.sources.clear();
     }
 
     // For error recovery - get unprocessed segments
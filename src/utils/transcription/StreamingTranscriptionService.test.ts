@@ -8,7 +8,8 @@
 //  - per-segment timeout: one hung provider request cannot stall the drain or
 //    silently discard the segments behind it;
 //  - honest partial results: failed/dropped segments are called out in the
-//    transcript instead of being silently omitted.
+//    transcript instead of being silently omitted;
+//  - rate-limited segments are retried after the provider's requested delay.
 //
 // The service's import chain reaches the 'obsidian' package, which ships type
 // declarations only (no runtime JS); test/obsidian-stub-loader.mjs (registered
@@ -16,7 +17,8 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import type { ChunkMetadata } from '../../types';
+import type { ChunkMetadata, TranscriptResult } from '../../types';
+import { APIRequestError } from '../../adapters/AIAdapter';
 import { SegmentStore } from '../audio/SegmentStore';
 import { MemoryAdapter } from '../../../test/memory-adapter';
 
@@ -47,10 +49,10 @@ interface Harness {
  * transcription backend with the given behavior and per-segment timeout.
  * The stub receives the call index (order segments reach the backend) and the
  * audio buffer — key text off the buffer when earlier segments may never
- * reach the backend at all.
+ * reach the backend at all. Plain strings are wrapped as untimed results.
  */
 async function makeService(
-    transcribe: (callIndex: number, buffer: ArrayBuffer) => Promise<string>,
+    transcribe: (callIndex: number, buffer: ArrayBuffer) => Promise<string | TranscriptResult>,
     segmentTimeoutMs = 5_000
 ): Promise<Harness> {
     const { StreamingTranscriptionService } = (await import(
@@ -68,11 +70,13 @@ async function makeService(
     let calls = 0;
     (service as unknown as {
         transcriptionService: {
-            transcribeAudioOnly(buf: ArrayBuffer, signal?: AbortSignal): Promise<string>;
+            transcribeAudioOnly(buf: ArrayBuffer, signal?: AbortSignal): Promise<TranscriptResult>;
             getTranscriptionTimeoutMs(): number;
         };
     }).transcriptionService = {
-        transcribeAudioOnly: (buf: ArrayBuffer) => transcribe(calls++, buf),
+        transcribeAudioOnly: (buf: ArrayBuffer) => transcribe(calls++, buf).then(result =>
+            typeof result === 'string' ? { text: result, segments: [] } : result
+        ),
         getTranscriptionTimeoutMs: () => segmentTimeoutMs
     };
 
@@ -126,6 +130,20 @@ describe('StreamingTranscriptionService drain-on-stop', () => {
         assert.match(result, /provider hiccup/, 'the marker should carry the underlying cause');
     });
 
+    it('retries a rate-limited segment after the delay the provider asked for', async () => {
+        const { service } = await makeService(async i => {
+            await delay(10);
+            if (i === 0) throw new APIRequestError('HTTP 429: rate limit reached', 429, 20);
+            return `text-${i}`;
+        });
+
+        await service.addChunk(new Blob(['aaaa']), makeMetadata(0));
+        const result = await service.finishProcessing();
+
+        assert.match(result, /text-1/, 'the second attempt must transcribe the segment');
+        assert.doesNotMatch(result, /Incomplete transcript/);
+    });
+
     it('surfaces the underlying error when every segment fails', async () => {
         const { service } = await makeService(async () => {
             await delay(10);
@@ -1,8 +1,9 @@
-import { ChunkMetadata, TranscriptionChunk, StreamingCallbacks } from '../../types';
+import { ChunkMetadata, ResultSource, TranscriptionChunk, StreamingCallbacks } from '../../types';
 import { SegmentStore } from '../audio/SegmentStore';
 import { ResultCompiler } from './ResultCompiler';
 import { TranscriptionService } from './TranscriptionService';
 import { Logger } from '../Logger';
+import { getRetryBudgetMs, withRetry } from '../RetryPolicy';
 import NeuroVoxPlugin from '../../main';
 
 /** A queued segment: audio lives on disk, only the path is held in memory. */
@@ -25,6 +26,9 @@ export class StreamingTranscriptionService {
     private drainRequested: boolean = false;
     private chunksHandled: number = 0;
     private failedChunks: number = 0;
+    private detectedLanguage: string | undefined;
+    private sources: ResultSource[] = [];
+    private translate: boolean = false;
 
     constructor(
         private plugin: NeuroVoxPlugin,
@@ -89,27 +93,10 @@ export class StreamingTranscriptionService {
                 }
 
                 Logger.log('[StreamingTranscription] Processing segment:', item.metadata.id);
-                // Per-segment abort scope: the timeout aborts it, so an abandoned request
-                // that resolves late cannot add its text to a transcript that already
-                // counted the segment as failed, and AssemblyAI stops polling instead of
-                // running out its remaining budget. The drain-level signal propagates in.
-                const callController = new AbortController();
-                const propagateAbort = () => callController.abort();
-                signal.addEventListener('abort', propagateAbort, { once: true });
                 try {
-                    // The disk read shares the segment's budget: a vault-adapter call that
-                    // hangs (rather than rejects) must fail this segment, not stall the
-                    // drain forever — the stall abort can't interrupt an await that never
-                    // settles, so it must never be the only line of defense.
-                    await this.withTimeout(
-                        (async () => {
-                            const buffer = await this.store.read(item.path);
-                            await this.processChunk(buffer, item.metadata, callController.signal);
-                        })(),
-                        this.getSegmentTimeoutMs(),
-                        item.metadata.id,
-                        callController
-                    );
+                    // Rate limits and outages are retried under the shared policy; the
+                    // drain-level signal cuts a pending retry wait short.
+                    await withRetry(() => this.processStoredSegment(item, signal), signal);
                     Logger.log('[StreamingTranscription] Segment processed successfully');
                 } catch (error) {
                     // Remember the failure so an all-failed run can surface the real cause,
@@ -118,7 +105,6 @@ export class StreamingTranscriptionService {
                     this.failedChunks++;
                     console.error('[StreamingTranscription] Segment processing failed:', error);
                 } finally {
-                    signal.removeEventListener('abort', propagateAbort);
                     this.chunksHandled++;
                     // The file is deleted whether transcription succeeded or failed (a
                     // failed segment is reported via the incomplete-transcript marker).
@@ -134,6 +120,34 @@ export class StreamingTranscriptionService {
         }
     }
 
+    /** One attempt at a queued segment, from reading its audio off disk to compiling it. */
+    private async processStoredSegment(item: PendingSegment, signal: AbortSignal): Promise<void> {
+        // Per-attempt abort scope: the timeout aborts it, so an abandoned request that
+        // resolves late cannot add its text to a transcript that already counted the
+        // segment as failed (or retried it), and AssemblyAI stops polling instead of
+        // running out its remaining budget. The drain-level signal propagates in.
+        const callController = new AbortController();
+        const propagateAbort = () => callController.abort();
+        signal.addEventListener('abort', propagateAbort, { once: true });
+        try {
+            // The disk read shares the attempt's budget: a vault-adapter call that hangs
+            // (rather than rejects) must fail this segment, not stall the drain forever —
+            // the stall abort can't interrupt an await that never settles, so it must
+            // never be the only line of defense.
+            await this.withTimeout(
+                (async () => {
+                    const buffer = await this.store.read(item.path);
+                    await this.processChunk(buffer, item.metadata, callController.signal);
+                })(),
+                this.getSegmentTimeoutMs(),
+                item.metadata.id,
+                callController
+            );
+        } finally {
+            signal.removeEventListener('abort', propagateAbort);
+        }
+    }
+
     private async processChunk(
         arrayBuffer: ArrayBuffer,
         metadata: ChunkMetadata,
@@ -143,7 +157,7 @@ export class StreamingTranscriptionService {
 
         // Transcribe the chunk only. Post-processing is applied once to the assembled
         // transcript after recording stops, not per chunk.
-        const transcription = await this.transcriptionService.transcribeAudioOnly(arrayBuffer, signal);
+        const transcription = await this.transcriptionService.transcribeAudioOnly(arrayBuffer, signal, this.translate);
 
         // If this call was aborted (per-segment timeout or drain abort), the segment has
         // already been counted as failed — a result arriving late must be discarded, not
@@ -152,7 +166,7 @@ export class StreamingTranscriptionService {
             Logger.log('[StreamingTranscription] Discarding late result for aborted segment:', metadata.id);
             return;
         }
-        Logger.log('[StreamingTranscription] Segment transcribed:', metadata.id, 'chars:', transcription?.length ?? 0, 'text:', transcription?.substring(0, 60));
+        Logger.log('[StreamingTranscription] Segment transcribed:', metadata.id, 'chars:', transcription.text.length, 'timed segments:', transcription.segments.length, 'text:', transcription.text.substring(0, 60));
 
         const transcriptionChunk: TranscriptionChunk = {
             metadata,
@@ -171,7 +185,7 @@ export class StreamingTranscriptionService {
     }
 
     /**
-     * Per-segment transcription budget. Derived from the active provider (AssemblyAI's
+     * Budget for one attempt at a segment. Derived from the active provider (AssemblyAI's
      * upload+poll flow legitimately takes minutes; a plain Whisper POST should not), so the
      * drain-stall timeout below always dominates the slowest expected single segment.
      */
@@ -206,17 +220,20 @@ export class StreamingTranscriptionService {
      * finishProcessing() surfaces the error only if nothing transcribed at all.
      */
     async transcribeFinalBlob(chunk: Blob, metadata: ChunkMetadata): Promise<void> {
-        // Same per-call abort scope as the queue path: a late result from a timed-out
-        // request must not mutate the compiler after this recording was finalized.
-        const controller = new AbortController();
         try {
             const buffer = await chunk.arrayBuffer();
-            await this.withTimeout(
-                this.processChunk(buffer, metadata, controller.signal),
-                this.getSegmentTimeoutMs(),
-                metadata.id,
-                controller
-            );
+            await withRetry(() => {
+                // Same per-attempt abort scope as the queue path: a late result from a
+                // timed-out request must not mutate the compiler after this recording was
+                // finalized.
+                const controller = new AbortController();
+                return this.withTimeout(
+                    this.processChunk(buffer, metadata, controller.signal),
+                    this.getSegmentTimeoutMs(),
+                    metadata.id,
+                    controller
+                );
+            });
         } catch (error) {
             this.lastError = error instanceof Error ? error : new Error(String(error));
             this.failedChunks++;
@@ -233,9 +250,10 @@ export class StreamingTranscriptionService {
 
         // Wait for the loop to drain the queue. The stall timeout is progress-aware: as
         // long as segments keep completing (success or failure) we keep waiting. Because
-        // every segment is individually bounded by getSegmentTimeoutMs(), a stall longer
-        // than that budget means the loop itself is stuck, so we add a margin and bail.
-        const idleTimeoutMs = this.getSegmentTimeoutMs() + 30_000;
+        // every attempt is bounded by getSegmentTimeoutMs() and the retries between them
+        // by the retry policy, a stall longer than that budget means the loop itself is
+        // stuck, so we add a margin and bail.
+        const idleTimeoutMs = getRetryBudgetMs(this.getSegmentTimeoutMs()) + 30_000;
         let idleMs = 0;
         let lastHandled = this.chunksHandled;
 
@@ -296,6 +314,8 @@ export class StreamingTranscriptionService {
         // the drain flags is not enough: a second drain would embed this recording's
         // transcript in the next one, re-report these failures, and — if the next run
         // failed entirely — return this run's text instead of throwing.
+        this.detectedLanguage = this.resultCompiler.getLanguage();
+        this.sources = this.resultCompiler.getSources();
         this.resultCompiler.clear();
         this.processedChunks.clear();
         this.failedChunks = 0;
@@ -312,6 +332,24 @@ export class StreamingTranscriptionService {
         return result;
     }
 
+    /**
+     * Translate segments to English instead of transcribing them as spoken. Applies to
+     * segments transcribed from now on, so set it before the first segment is added.
+     */
+    setTranslate(translate: boolean): void {
+        this.translate = translate;
+    }
+
+    /** Language of the transcript last returned by finishProcessing(), when known. */
+    getDetectedLanguage(): string | undefined {
+        return this.detectedLanguage;
+    }
+
+    /** Providers behind the transcript last returned by finishProcessing(). */
+    getSources(): ResultSource[] {
+        return this.sources;
+    }
+
     getPartialResult(): string {
         return this.resultCompiler.getPartialResult(
             this.plugin.settings.includeTimestamps || false
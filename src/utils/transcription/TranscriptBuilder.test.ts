@@ -0,0 +1,36 @@
+// src/utils/transcription/TranscriptBuilder.test.ts
+//
+// Tests for joining the transcripts of a recording that was split to fit the model:
+// timings move to where each piece starts, and speakers stay apart per piece.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTranscript, joinTranscripts } from './TranscriptBuilder';
+
+describe('joinTranscripts', () => {
+    it('offsets timings and keeps speakers apart per piece', () => {
+        const joined = joinTranscripts([
+            {
+                result: { text: 'Hello there.', segments: [{ start: 1, end: 2, text: 'Hello there.', speaker: '0' }], language: 'en' },
+                offsetSeconds: 0
+            },
+            {
+                result: {
+                    text: 'Hi. Welcome back.',
+                    segments: [{ start: 0.5, end: 1, text: 'Hi.', speaker: '0' }, { start: 2, end: 3, text: 'Welcome back.', speaker: '1' }],
+                    source: { label: 'groq (whisper-large-v3)', fallback: true }
+                },
+                offsetSeconds: 600
+            }
+        ]);
+
+        assert.equal(joined.text, 'Hello there.\n\nHi. Welcome back.');
+        assert.deepEqual(joined.segments.map(segment => segment.start), [1, 600.5, 602]);
+        assert.equal(joined.language, 'en');
+        assert.equal(joined.source?.fallback, true);
+        assert.equal(
+            formatTranscript(joined, false),
+            '**Speaker A:** Hello there.\n\n**Speaker B:** Hi.\n\n**Speaker C:** Welcome back.'
+        );
+    });
+});
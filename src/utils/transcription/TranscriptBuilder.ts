@@ -0,0 +1,123 @@
+import { TranscriptResult, TranscriptSegment, TranscriptWord } from '../../types';
+
+// A pause this long between words starts a new segment even mid-sentence.
+const SEGMENT_GAP_SECONDS = 1.0;
+
+/** Wraps plain text from a provider that reports no timing. */
+export function transcriptFromText(text: string, language?: string): TranscriptResult {
+    return { text, segments: [], language };
+}
+
+/**
+ * Groups word timings into segments for providers that only return words (Deepgram,
+ * AssemblyAI, ElevenLabs). A segment ends at sentence punctuation, a speaker change or a
+ * pause of SEGMENT_GAP_SECONDS.
+ */
+export function segmentsFromWords(words: TranscriptWord[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let current: TranscriptWord[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        segments.push({
+            start: current[0].start,
+            end: current[current.length - 1].end,
+            text: current.map(word => word.text).join(' '),
+            speaker: current[0].speaker
+        });
+        current = [];
+    };
+
+    for (const word of words) {
+        const previous = current[current.length - 1];
+        if (previous && (word.speaker !== previous.speaker || word.start - previous.end >= SEGMENT_GAP_SECONDS)) {
+            flush();
+        }
+        current.push(word);
+        if (/[.?!]$/.test(word.text)) {
+            flush();
+        }
+    }
+    flush();
+
+    return segments;
+}
+
+/**
+ * Joins the transcripts of consecutive pieces of one recording, shifting each piece's
+ * timings by where it starts. Providers number speakers afresh on every call, so speaker
+ * ids stay apart per piece.
+ */
+export function joinTranscripts(parts: Array<{ result: TranscriptResult; offsetSeconds: number }>): TranscriptResult {
+    const segments = parts.flatMap(({ result, offsetSeconds }, index) => result.segments.map(segment => ({
+        ...segment,
+        start: segment.start + offsetSeconds,
+        end: segment.end + offsetSeconds,
+        speaker: segment.speaker === undefined ? undefined : `${index}:${segment.speaker}`
+    })));
+    const results = parts.map(part => part.result);
+    return {
+        text: results.map(result => result.text.trim()).filter(Boolean).join('\n\n'),
+        segments,
+        language: results.find(result => result.language)?.language,
+        // A fallback on any piece is worth showing on the whole.
+        source: results.find(result => result.source?.fallback)?.source ?? results[0]?.source
+    };
+}
+
+/**
+ * Maps provider speaker ids (Deepgram `0`, AssemblyAI `A`, ElevenLabs `speaker_0`) to letters
+ * in order of first appearance, so labels read the same whichever provider diarized.
+ */
+export function createSpeakerLabeller(): (speaker: string | undefined) => string | undefined {
+    const labels = new Map<string, string>();
+    return speaker => {
+        if (speaker === undefined) return undefined;
+        let label = labels.get(speaker);
+        if (!label) {
+            label = labels.size < 26 ? String.fromCharCode(65 + labels.size) : String(labels.size + 1);
+            labels.set(speaker, label);
+        }
+        return label;
+    };
+}
+
+export function formatSpeakerPrefix(label: string | undefined): string {
+    return label ? `**Speaker ${label}:** ` : '';
+}
+
+/**
+ * Renders a single-call transcript for insertion. With speaker labels, each speaker turn is
+ * a `**Speaker A:**` paragraph; with timestamps, paragraphs start with `[mm:ss]`. Without
+ * either (or without segments) the plain text is returned.
+ */
+export function formatTranscript(result: TranscriptResult, includeTimestamps: boolean): string {
+    const hasSpeakers = result.segments.some(segment => segment.speaker !== undefined);
+    if (result.segments.length === 0 || (!includeTimestamps && !hasSpeakers)) {
+        return result.text;
+    }
+
+    const labelOf = createSpeakerLabeller();
+    const paragraphs: string[] = [];
+    let previousLabel: string | undefined;
+    for (const segment of result.segments) {
+        const text = segment.text.trim();
+        if (!text) continue;
+        const label = labelOf(segment.speaker);
+        if (hasSpeakers && paragraphs.length > 0 && label === previousLabel) {
+            paragraphs[paragraphs.length - 1] += ` ${text}`;
+        } else {
+            const stamp = includeTimestamps ? `[${formatSeconds(segment.start)}] ` : '';
+            paragraphs.push(`${stamp}${formatSpeakerPrefix(label)}${text}`);
+        }
+        previousLabel = label;
+    }
+    return paragraphs.join('\n\n');
+}
+
+function formatSeconds(seconds: number): string {
+    const totalSeconds = Math.floor(seconds);
+    const minutes = Math.floor(totalSeconds / 60);
+    const remainder = totalSeconds % 60;
+    return `${minutes.toString().padStart(2, '0')}:${remainder.toString().padStart(2, '0')}`;
+}
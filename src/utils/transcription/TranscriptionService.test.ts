@@ -0,0 +1,80 @@
+// src/utils/transcription/TranscriptionService.test.ts
+//
+// Tests for transcribing a whole recording against a fake OpenAI (test/fake-server.ts):
+// rate-limited requests are retried, and a failed post-processing request is retried
+// without transcribing the audio again.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider } from '../../adapters/AIAdapter';
+import { OpenAIAdapter } from '../../adapters/OpenAIAdapter';
+import { DEFAULT_SETTINGS, NeuroVoxSettings } from '../../settings/Settings';
+import { FakeServer } from '../../../test/fake-server';
+import { TranscriptionService } from './TranscriptionService';
+
+// Browser-ish globals the retry waits touch.
+(globalThis as unknown as { window: unknown }).window = globalThis;
+
+const AUDIO = new TextEncoder().encode('RIFF-fake-wav-bytes').buffer;
+const TRANSCRIPTIONS = /api\.openai\.com\/v1\/audio\/transcriptions$/;
+const COMPLETIONS = /api\.openai\.com\/v1\/chat\/completions$/;
+
+function makeService(overrides: Partial<NeuroVoxSettings>): TranscriptionService {
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    const adapter = new OpenAIAdapter(settings);
+    adapter.setApiKey('test-key');
+    const plugin = {
+        settings,
+        aiAdapters: new Map([[AIProvider.OpenAI, adapter]]),
+        secrets: { isLocked: () => false }
+    };
+    return new TranscriptionService(plugin as never);
+}
+
+/** Answers the first request with a 429 asking for no wait, and the rest with `json`. */
+function rateLimitedOnce(json: unknown): () => { status?: number; headers?: Record<string, string>; json: unknown } {
+    let calls = 0;
+    return () => calls++ === 0
+        ? { status: 429, headers: { 'Retry-After': '0' }, json: { error: { message: 'Rate limit reached' } } }
+        : { json };
+}
+
+describe('TranscriptionService.transcribeContent', () => {
+    it('retries a rate-limited transcription of a whole recording', async () => {
+        const server = new FakeServer()
+            .on('GET', /api\.openai\.com\/v1\/models$/, { json: { data: [] } })
+            .on('POST', TRANSCRIPTIONS, rateLimitedOnce({ text: 'Hello world.' }))
+            .install();
+        try {
+            const service = makeService({ generatePostProcessing: false });
+            const result = await service.transcribeContent(AUDIO);
+
+            assert.equal(result.transcription, 'Hello world.');
+            assert.equal(server.requestsTo(TRANSCRIPTIONS).length, 2);
+        } finally {
+            server.uninstall();
+        }
+    });
+
+    it('retries post-processing without transcribing again', async () => {
+        const server = new FakeServer()
+            .on('GET', /api\.openai\.com\/v1\/models$/, { json: { data: [] } })
+            .on('POST', TRANSCRIPTIONS, { json: { text: 'Hello world.' } })
+            .on('POST', COMPLETIONS, rateLimitedOnce({ choices: [{ message: { content: 'A greeting.' } }] }))
+            .install();
+        try {
+            const service = makeService({
+                generatePostProcessing: true,
+                postProcessingProvider: AIProvider.OpenAI,
+                postProcessingModel: 'gpt-4o'
+            });
+            const result = await service.transcribeContent(AUDIO);
+
+            assert.equal(result.postProcessing, 'A greeting.');
+            assert.equal(server.requestsTo(TRANSCRIPTIONS).length, 1);
+            assert.equal(server.requestsTo(COMPLETIONS).length, 2);
+        } finally {
+            server.uninstall();
+        }
+    });
+});
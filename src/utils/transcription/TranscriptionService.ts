@@ -1,12 +1,46 @@
-import { AIAdapter, AIProvider } from '../../adapters/AIAdapter';
+import { AIAdapter, AIProvider, TextGenerationOptions, withErrorMessage } from '../../adapters/AIAdapter';
+import { ResultSource, TranscriptResult } from '../../types';
+import { formatTranscript, joinTranscripts, transcriptFromText } from './TranscriptBuilder';
+import { collectGlossary } from './Glossary';
+import { describeChoice, FallbackOutcome, getPostProcessingChain, getTranscriptionChain, runWithFallback } from './ProviderFallback';
+import { BudgetGuard } from '../usage/BudgetGuard';
+import { withRetry } from '../RetryPolicy';
+import type { WavSegment } from '../audio/WavSplitter';
+import { decodeToMono, detectAudioFormat, encodeWav } from '../audio/AudioDecoder';
 import NeuroVoxPlugin from '../../main';
 
+const TRANSLATION_INSTRUCTION =
+    'Translate the transcript you are given into English. Keep names, terms and the speaker\'s ' +
+    'wording as close as English allows. Return only the translation, without commentary. ' +
+    'If it is already in English, return it unchanged.';
+
+// Audio a model can't read is converted to 16 kHz mono WAV, which every provider takes.
+const WAV_SAMPLE_RATE = 16000;
+
 /**
  * Result of a transcription operation
  */
 export interface TranscriptionResult {
     transcription: string;
     postProcessing?: string;
+    /** Language reported by the provider, or the configured one when it reports none. */
+    language?: string;
+    transcriptionSource?: ResultSource;
+    postProcessingSource?: ResultSource;
+}
+
+/** Post-processing output and the provider that generated it. */
+export interface PostProcessingResult {
+    text: string;
+    source: ResultSource;
+}
+
+/** Where post-processing text goes while it is generated, and how to stop it early. */
+export interface PostProcessingStream {
+    /** Called with the text so far each time it grows. */
+    onText: (text: string) => void;
+    /** Stops the generation; the text so far is kept. */
+    signal: AbortSignal;
 }
 
 /**
@@ -14,30 +48,48 @@ export interface TranscriptionResult {
  * Uses configured AI adapters to process the content
  */
 export class TranscriptionService {
-    constructor(private plugin: NeuroVoxPlugin) {}
+    private budget: BudgetGuard;
+
+    constructor(private plugin: NeuroVoxPlugin) {
+        this.budget = new BudgetGuard(plugin);
+    }
 
     /**
-     * Transcribes audio content and optionally generates post-processing
-     * @param audioBuffer The audio data to transcribe
+     * Transcribes audio content and optionally generates post-processing. Transcription and
+     * post-processing are retried separately, so a failed summary doesn't pay for the audio
+     * again.
+     * @param audio The audio data to transcribe, or the segments AudioProcessor split it into
+     * @param translate Translate the speech to English instead of transcribing it as spoken
+     * @param stream Where to show post-processing as it is generated
      * @returns The transcription result
      */
-    public async transcribeContent(audioBuffer: ArrayBuffer): Promise<TranscriptionResult> {
+    public async transcribeContent(
+        audio: ArrayBuffer | WavSegment[],
+        translate: boolean = false,
+        stream?: PostProcessingStream
+    ): Promise<TranscriptionResult> {
         try {
             // Get transcription
-            const transcription = await this.transcribeAudio(audioBuffer);
+            const transcript = Array.isArray(audio)
+                ? await this.transcribeSegments(audio, translate)
+                : await withRetry(() => this.transcribeAudio(audio, undefined, translate));
+            const transcription = formatTranscript(transcript, this.plugin.settings.includeTimestamps);
 
             // Generate post-processing if enabled
             const postProcessing = this.plugin.settings.generatePostProcessing
-                ? await this.generatePostProcessing(transcription)
+                ? await withRetry(() => this.generatePostProcessing(transcription, stream), stream?.signal)
                 : undefined;
 
             return {
                 transcription,
-                postProcessing
+                postProcessing: postProcessing?.text,
+                language: transcript.language,
+                transcriptionSource: transcript.source,
+                postProcessingSource: postProcessing?.source
             };
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
-            throw new Error(`Transcription failed: ${message}`);
+            throw withErrorMessage(error, `Transcription failed: ${message}`);
         }
     }
 
@@ -47,71 +99,212 @@ export class TranscriptionService {
      * end — running the language model per chunk would be wasteful and would discard a good
      * chunk transcription whenever post-processing failed.
      */
-    public async transcribeAudioOnly(audioBuffer: ArrayBuffer, signal?: AbortSignal): Promise<string> {
-        return this.transcribeAudio(audioBuffer, signal);
+    public async transcribeAudioOnly(
+        audioBuffer: ArrayBuffer,
+        signal?: AbortSignal,
+        translate: boolean = false
+    ): Promise<TranscriptResult> {
+        return this.transcribeAudio(audioBuffer, signal, translate);
     }
 
     /**
-     * Per-segment time budget of the active transcription provider (e.g. AssemblyAI's
-     * upload+poll flow takes minutes; a plain Whisper POST should not). Falls back to the
-     * base default when no adapter is configured.
+     * Per-segment time budget: the sum of the budgets of every provider in the transcription
+     * chain (e.g. AssemblyAI's upload+poll flow takes minutes; a plain Whisper POST should
+     * not), so a segment has time to fall through to the last one. Providers without an
+     * adapter count the base default.
      */
     public getTranscriptionTimeoutMs(): number {
-        const adapter = this.plugin.aiAdapters.get(this.plugin.settings.transcriptionProvider);
-        return adapter?.getTranscriptionTimeoutMs() ?? 120_000;
+        return getTranscriptionChain(this.plugin.settings).reduce((total, { provider }) => {
+            const adapter = this.plugin.aiAdapters.get(provider);
+            return total + (adapter?.getTranscriptionTimeoutMs() ?? 120_000);
+        }, 0) || 120_000;
     }
 
     /**
-     * Transcribes audio using the configured AI adapter
+     * Generates post-processing content, falling back along the post-processing chain. With
+     * a stream, the text is shown as it is generated; stopping the stream keeps the text so
+     * far, or gives no post-processing when none had arrived yet.
      */
-    private async transcribeAudio(audioBuffer: ArrayBuffer, signal?: AbortSignal): Promise<string> {
-        const adapter = this.getAdapter(
-            this.plugin.settings.transcriptionProvider,
-            'transcription'
-        );
-
-        return adapter.transcribeAudio(
-            audioBuffer,
-            this.plugin.settings.transcriptionModel,
-            signal
-        );
+    public async generatePostProcessing(transcription: string, stream?: PostProcessingStream): Promise<PostProcessingResult | undefined> {
+        const prompt = `${this.plugin.settings.postProcessingPrompt}\n\n${transcription}`;
+
+        try {
+            const outcome = await this.generateWithFallback(prompt, {
+                maxTokens: this.plugin.settings.postProcessingMaxTokens,
+                temperature: this.plugin.settings.postProcessingTemperature,
+                reasoningEffort: this.plugin.settings.postProcessingReasoningEffort,
+                onText: stream?.onText,
+                signal: stream?.signal
+            });
+            return { text: outcome.value, source: this.toSource(outcome) };
+        } catch (error) {
+            if (stream?.signal.aborted) {
+                return undefined;
+            }
+            throw error;
+        }
     }
 
     /**
-     * Generates post-processing content using the configured AI adapter
+     * Transcribes audio along the transcription chain: the selected model first, then each
+     * fallback. Translation uses the provider's own translation endpoint when the model has
+     * one, and otherwise translates the transcript with the post-processing model. Audio in
+     * a format the model doesn't list (recorded WebM segments for Gemini, say) is converted
+     * to WAV first.
      */
-    private async generatePostProcessing(transcription: string): Promise<string> {
-        const adapter = this.getAdapter(
-            this.plugin.settings.postProcessingProvider,
-            'language'
-        );
+    private async transcribeAudio(
+        audioBuffer: ArrayBuffer,
+        signal?: AbortSignal,
+        translate: boolean = false
+    ): Promise<TranscriptResult> {
+        const chain = getTranscriptionChain(this.plugin.settings);
+        const vocabulary = await collectGlossary(this.plugin.app, this.plugin.settings);
+        const format = detectAudioFormat(audioBuffer);
+        let wav: Promise<ArrayBuffer> | undefined;
 
-        const prompt = `${this.plugin.settings.postProcessingPrompt}\n\n${transcription}`;
-        
-        return adapter.generateResponse(
-            prompt,
-            this.plugin.settings.postProcessingModel,
-            {
-                maxTokens: this.plugin.settings.postProcessingMaxTokens,
-                temperature: this.plugin.settings.postProcessingTemperature
-            }
-        );
+        const outcome = await runWithFallback(chain, async ({ provider, model }, isLast) => {
+            await this.budget.assertWithinBudget(provider);
+            const adapter = await this.getAdapter(provider, 'transcription');
+            const capabilities = adapter.getCapabilities(model);
+            const nativeTranslation = translate && capabilities.translation;
+            const upload = format && capabilities.inputFormats && !capabilities.inputFormats.includes(format)
+                ? await (wav = wav ?? this.convertToWav(audioBuffer))
+                : audioBuffer;
+            const run = (attemptSignal?: AbortSignal) => adapter.transcribeAudio(
+                upload,
+                model,
+                attemptSignal,
+                { vocabulary, translate: nativeTranslation }
+            );
+            // Only bound an attempt when another provider is waiting behind it; the last one
+            // keeps the caller's budget, as it did before fallbacks existed.
+            const transcript = isLast
+                ? await run(signal)
+                : await this.withAttemptTimeout(adapter.getTranscriptionTimeoutMs(), signal, run);
+            return { transcript, nativeTranslation };
+        }, signal);
+
+        const { transcript, nativeTranslation } = outcome.value;
+        const source = this.toSource(outcome);
+        if (nativeTranslation) {
+            return { ...transcript, language: 'en', source };
+        }
+        if (translate) {
+            return { ...(await this.translateTranscript(transcript)), source };
+        }
+        return {
+            ...transcript,
+            language: transcript.language ?? (this.plugin.settings.transcriptionLanguage.trim().toLowerCase() || undefined),
+            source
+        };
+    }
+
+    /** 16 kHz mono WAV of the audio. Decodes a copy, since decoding detaches the buffer. */
+    private async convertToWav(audioBuffer: ArrayBuffer): Promise<ArrayBuffer> {
+        return encodeWav(await decodeToMono(audioBuffer.slice(0), WAV_SAMPLE_RATE), WAV_SAMPLE_RATE);
+    }
+
+    /**
+     * Transcribes the segments one after another, retrying each on its own, and joins them
+     * into one transcript.
+     */
+    private async transcribeSegments(segments: WavSegment[], translate: boolean): Promise<TranscriptResult> {
+        const parts: Array<{ result: TranscriptResult; offsetSeconds: number }> = [];
+        for (const segment of segments) {
+            const audioBuffer = await segment.blob.arrayBuffer();
+            const result = await withRetry(() => this.transcribeAudio(audioBuffer, undefined, translate));
+            parts.push({ result, offsetSeconds: segment.offsetMs / 1000 });
+        }
+        return joinTranscripts(parts);
+    }
+
+    /**
+     * Translates a transcript into English with the post-processing model. The translation is
+     * plain text: segment timings and speaker labels do not survive it.
+     */
+    private async translateTranscript(transcript: TranscriptResult): Promise<TranscriptResult> {
+        if (!transcript.text.trim()) {
+            return transcript;
+        }
+
+        const outcome = await this.generateWithFallback(transcript.text, {
+            system: TRANSLATION_INSTRUCTION,
+            // Room for the whole translation (~4 characters per token), whatever the
+            // post-processing limit is set to.
+            maxTokens: Math.max(this.plugin.settings.postProcessingMaxTokens, Math.ceil(transcript.text.length / 3)),
+            temperature: 0.2
+        });
+        return transcriptFromText(outcome.value.trim(), 'en');
+    }
+
+    private async generateWithFallback(prompt: string, options: TextGenerationOptions): Promise<FallbackOutcome<string>> {
+        return runWithFallback(getPostProcessingChain(this.plugin.settings), async ({ provider, model }) => {
+            await this.budget.assertWithinBudget(provider);
+            const adapter = await this.getAdapter(provider, 'language');
+            return adapter.generateResponse(prompt, model, options);
+        }, options.signal);
+    }
+
+    private toSource(outcome: FallbackOutcome<unknown>): ResultSource {
+        return { label: describeChoice(outcome.choice), fallback: outcome.usedFallback };
     }
 
     /**
-     * Gets and validates the appropriate AI adapter
+     * Runs one provider attempt under that provider's own time budget, so a hung provider
+     * hands over to the next one instead of using up the whole segment budget. The attempt
+     * gets its own signal, aborted on timeout and when the caller aborts.
      */
-    private getAdapter(provider: AIProvider, category: 'transcription' | 'language'): AIAdapter {
+    private async withAttemptTimeout<T>(
+        timeoutMs: number,
+        signal: AbortSignal | undefined,
+        run: (signal: AbortSignal) => Promise<T>
+    ): Promise<T> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        if (signal?.aborted) {
+            controller.abort();
+        }
+        signal?.addEventListener('abort', onAbort);
+
+        let timer: number | undefined;
+        try {
+            return await Promise.race([
+                run(controller.signal),
+                new Promise<never>((_, reject) => {
+                    timer = window.setTimeout(() => {
+                        controller.abort();
+                        reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`));
+                    }, timeoutMs);
+                })
+            ]);
+        } finally {
+            window.clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Gets the appropriate AI adapter, validating its key the first time it is used
+     */
+    private async getAdapter(provider: AIProvider, category: 'transcription' | 'language'): Promise<AIAdapter> {
         const adapter = this.plugin.aiAdapters.get(provider);
         if (!adapter) {
             throw new Error(`${provider} adapter not found`);
         }
 
+        if (adapter.requiresApiKey() && !adapter.getApiKey() && this.plugin.secrets.isLocked()) {
+            await this.plugin.unlockApiKeys();
+        }
+        if (adapter.requiresApiKey() && !adapter.getApiKey()) {
+            throw new Error(`${provider} API key is not configured`);
+        }
+        if (!(await adapter.ensureValidated())) {
+            throw new Error(
+                `${provider} API key could not be validated. Use "Test connection" in the API key settings to see why.`
+            );
+        }
+
         if (!adapter.isReady(category)) {
-            const apiKey = adapter.getApiKey();
-            if (!apiKey) {
-                throw new Error(`${provider} API key is not configured`);
-            }
             throw new Error(
                 `${provider} adapter is not ready for ${category}. Please check your settings and model availability.`
             );
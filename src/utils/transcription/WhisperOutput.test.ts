@@ -0,0 +1,62 @@
+// src/utils/transcription/WhisperOutput.test.ts
+//
+// Tests for reading the transcript files local Whisper binaries write:
+//  - whisper.cpp's JSON (millisecond offsets) and the openai-whisper JSON faster-whisper
+//    CLIs share (seconds) both become timed segments with the detected language;
+//  - SRT files are read as a fallback, with CRLF line endings and multi-line cues;
+//  - blank-audio placeholders are dropped.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSrt, parseWhisperJson } from './WhisperOutput';
+
+describe('parseWhisperJson', () => {
+    it('reads whisper.cpp output', () => {
+        const result = parseWhisperJson(JSON.stringify({
+            result: { language: 'de' },
+            transcription: [
+                { timestamps: { from: '00:00:00,000', to: '00:00:02,500' }, offsets: { from: 0, to: 2500 }, text: ' Guten Tag.' },
+                { timestamps: { from: '00:00:02,500', to: '00:00:04,000' }, offsets: { from: 2500, to: 4000 }, text: ' [BLANK_AUDIO]' },
+                { timestamps: { from: '00:00:04,000', to: '00:00:05,200' }, offsets: { from: 4000, to: 5200 }, text: ' Wie geht es?' }
+            ]
+        }));
+        assert.equal(result.text, 'Guten Tag. Wie geht es?');
+        assert.equal(result.language, 'de');
+        assert.deepEqual(result.segments, [
+            { start: 0, end: 2.5, text: 'Guten Tag.' },
+            { start: 4, end: 5.2, text: 'Wie geht es?' }
+        ]);
+    });
+
+    it('reads openai-whisper style output from faster-whisper CLIs', () => {
+        const result = parseWhisperJson(JSON.stringify({
+            text: ' Hello there. General Kenobi.',
+            language: 'en',
+            segments: [
+                { id: 0, start: 0, end: 1.4, text: ' Hello there.' },
+                { id: 1, start: 1.4, end: 3, text: ' General Kenobi.' }
+            ]
+        }));
+        assert.equal(result.text, 'Hello there. General Kenobi.');
+        assert.equal(result.language, 'en');
+        assert.deepEqual(result.segments.map(segment => segment.end), [1.4, 3]);
+    });
+
+    it('rejects JSON in neither layout', () => {
+        assert.throws(() => parseWhisperJson('{"foo": 1}'), /Unrecognised transcript file/);
+    });
+});
+
+describe('parseSrt', () => {
+    it('reads cues into segments', () => {
+        const result = parseSrt(
+            '1\r\n00:00:00,000 --> 00:00:01,500\r\nFirst line\r\nwraps here\r\n\r\n'
+            + '2\r\n00:01:02,250 --> 00:01:04,000\r\nSecond cue\r\n'
+        );
+        assert.equal(result.text, 'First line wraps here Second cue');
+        assert.deepEqual(result.segments, [
+            { start: 0, end: 1.5, text: 'First line wraps here' },
+            { start: 62.25, end: 64, text: 'Second cue' }
+        ]);
+    });
+});
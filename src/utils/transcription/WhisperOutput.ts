@@ -0,0 +1,75 @@
+// src/utils/transcription/WhisperOutput.ts
+
+import { TranscriptResult, TranscriptSegment } from '../../types';
+
+/** whisper.cpp's `-oj` file. Offsets are in milliseconds. */
+interface WhisperCppJson {
+    result?: { language?: string };
+    transcription: Array<{ offsets: { from: number; to: number }; text: string }>;
+}
+
+/** The `--output_format json` file of openai-whisper and the faster-whisper CLIs. Times are in seconds. */
+interface WhisperCliJson {
+    text: string;
+    language?: string;
+    segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * Reads the JSON a local Whisper binary wrote, in either whisper.cpp's layout or the
+ * openai-whisper one that faster-whisper CLIs share.
+ */
+export function parseWhisperJson(content: string): TranscriptResult {
+    const parsed = JSON.parse(content) as Partial<WhisperCppJson & WhisperCliJson>;
+
+    if (Array.isArray(parsed.transcription)) {
+        const segments = toSegments(parsed.transcription.map(entry => ({
+            start: entry.offsets.from / 1000,
+            end: entry.offsets.to / 1000,
+            text: entry.text
+        })));
+        return { text: joinSegments(segments), segments, language: parsed.result?.language };
+    }
+
+    if (typeof parsed.text === 'string') {
+        const segments = toSegments(parsed.segments ?? []);
+        return { text: parsed.text.trim(), segments, language: parsed.language };
+    }
+
+    throw new Error('Unrecognised transcript file from the local Whisper binary');
+}
+
+/** Reads an SRT subtitle file into timed segments. */
+export function parseSrt(content: string): TranscriptResult {
+    const segments: TranscriptSegment[] = [];
+    for (const block of content.replace(/\r/g, '').split(/\n{2,}/)) {
+        const lines = block.trim().split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex < 0) continue;
+        const [from, to] = lines[timingIndex].split('-->').map(parseSrtTime);
+        segments.push({ start: from, end: to, text: lines.slice(timingIndex + 1).join(' ') });
+    }
+    const cleaned = toSegments(segments);
+    return { text: joinSegments(cleaned), segments: cleaned };
+}
+
+/** `hh:mm:ss,mmm` (or with a `.` before the milliseconds) in seconds. */
+function parseSrtTime(time: string): number {
+    const match = /(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/.exec(time);
+    if (!match) {
+        throw new Error(`Invalid SRT timestamp: ${time.trim()}`);
+    }
+    const [, hours, minutes, seconds, millis] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+}
+
+/** Trims segment text and drops empty and `[BLANK_AUDIO]`-style placeholder segments. */
+function toSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+    return segments
+        .map(segment => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+        .filter(segment => segment.text && !/^\[[A-Z_ ]+\]$/.test(segment.text));
+}
+
+function joinSegments(segments: TranscriptSegment[]): string {
+    return segments.map(segment => segment.text).join(' ');
+}
@@ -0,0 +1,123 @@
+// src/utils/usage/BudgetGuard.test.ts
+//
+// Tests for monthly caps: only the current calendar month's estimated spend with
+// the capped provider counts, and a used-up cap refuses the call. Also covers the
+// estimate for Azure deployments and the confirmation before long unpriced jobs.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider } from '../../adapters/AIAdapter';
+import { AzureAdapter } from '../../adapters/AzureAdapter';
+import { ConfirmModal } from '../../modals/ConfirmModal';
+import { DEFAULT_SETTINGS, NeuroVoxSettings } from '../../settings/Settings';
+import type { UsageRecord } from '../../types';
+import { BudgetExceededError, BudgetGuard } from './BudgetGuard';
+
+function makeGuard(records: UsageRecord[], limit: number): BudgetGuard {
+    const plugin = {
+        settings: {
+            usagePriceTable: 'openai whisper-1 0.006',
+            monthlyBudgets: [{ provider: AIProvider.OpenAI, limit }]
+        },
+        usageLedger: { load: async () => records },
+        aiAdapters: new Map()
+    };
+    return new BudgetGuard(plugin as never);
+}
+
+/** A guard over the default price table, transcribing with `provider`'s `model`. */
+function makeJobGuard(provider: AIProvider, model: string, overrides: Partial<NeuroVoxSettings> = {}): BudgetGuard {
+    const settings: NeuroVoxSettings = {
+        ...DEFAULT_SETTINGS,
+        transcriptionProvider: provider,
+        transcriptionModel: model,
+        confirmCostAbove: 1,
+        ...overrides
+    };
+    // Moonshine runs locally, so it needs no key and bills nothing.
+    const moonshine = { requiresApiKey: () => false, getBilledModel: (id: string) => id };
+    const plugin = {
+        settings,
+        usageLedger: { load: async () => [] },
+        aiAdapters: new Map<AIProvider, unknown>([
+            [AIProvider.Azure, new AzureAdapter(settings)],
+            [AIProvider.Moonshine, moonshine]
+        ])
+    };
+    return new BudgetGuard(plugin as never);
+}
+
+/** Runs `test` with confirmations answered `answer`, and returns the messages asked. */
+async function withConfirm(answer: boolean, test: () => Promise<void>): Promise<string[]> {
+    const originalAsk = ConfirmModal.ask.bind(ConfirmModal);
+    const asked: string[] = [];
+    ConfirmModal.ask = async (_app, _title, message) => {
+        asked.push(message);
+        return answer;
+    };
+    try {
+        await test();
+    } finally {
+        ConfirmModal.ask = originalAsk;
+    }
+    return asked;
+}
+
+// Ten minutes of Whisper: $0.06.
+function whisperCall(date: Date): UsageRecord {
+    return { date: date.toISOString(), provider: AIProvider.OpenAI, model: 'whisper-1', audioSeconds: 600 };
+}
+
+describe('BudgetGuard', () => {
+    const now = new Date();
+    const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 15);
+
+    it('counts only this month and only the capped provider', async () => {
+        const guard = makeGuard([
+            whisperCall(now),
+            whisperCall(lastMonth),
+            { date: now.toISOString(), provider: AIProvider.Groq, model: 'whisper-large-v3', audioSeconds: 600 }
+        ], 1);
+
+        assert.ok(Math.abs(await guard.getMonthlySpend(AIProvider.OpenAI) - 0.06) < 1e-9);
+        await guard.assertWithinBudget(AIProvider.OpenAI);
+        await guard.assertWithinBudget(AIProvider.Groq);
+    });
+
+    it('refuses calls once the cap is reached', async () => {
+        const guard = makeGuard([whisperCall(now), whisperCall(now)], 0.1);
+
+        await assert.rejects(guard.assertWithinBudget(AIProvider.OpenAI), BudgetExceededError);
+    });
+});
+
+describe('BudgetGuard.confirmJob', () => {
+    it('prices an Azure deployment at the model it serves', () => {
+        const guard = makeJobGuard(AIProvider.Azure, 'azure/notes', {
+            azureDeployments: { transcription: ['notes=whisper'], language: [] }
+        });
+
+        const cost = guard.estimateTranscriptionCost({ provider: AIProvider.Azure, model: 'azure/notes' }, 600);
+        assert.ok(cost !== null && Math.abs(cost - 0.06) < 1e-9);
+    });
+
+    it('asks before a long job with a paid model that has no price', async () => {
+        const guard = makeJobGuard(AIProvider.Azure, 'azure/notes', {
+            azureDeployments: { transcription: ['notes=some-new-model'], language: [] }
+        });
+
+        const asked = await withConfirm(false, async () => {
+            assert.equal(await guard.confirmJob(30 * 60, 'Transcribe audio file?'), false);
+        });
+        assert.equal(asked.length, 1);
+        assert.match(asked[0], /No cost estimate is available/);
+    });
+
+    it('goes ahead without asking for short or local unpriced jobs', async () => {
+        const asked = await withConfirm(false, async () => {
+            assert.equal(await makeJobGuard(AIProvider.Azure, 'azure/unlisted').confirmJob(60, 'Transcribe audio file?'), true);
+            assert.equal(await makeJobGuard(AIProvider.Moonshine, 'whisper-base').confirmJob(30 * 60, 'Transcribe audio file?'), true);
+        });
+        assert.deepEqual(asked, []);
+    });
+});
@@ -0,0 +1,134 @@
+// src/utils/usage/BudgetGuard.ts
+
+import { AIProvider } from '../../adapters/AIAdapter';
+import { ModelChoice } from '../../settings/Settings';
+import { ConfirmModal } from '../../modals/ConfirmModal';
+import { describeChoice, getTranscriptionChain } from '../transcription/ProviderFallback';
+import { estimateCost, parsePriceTable } from './UsageReport';
+import NeuroVoxPlugin from '../../main';
+
+// Gemini bills audio as input tokens, at 32 tokens per second of audio.
+const GEMINI_AUDIO_TOKENS_PER_SECOND = 32;
+
+// Jobs at least this long with a paid model the price table doesn't list are confirmed.
+const UNPRICED_CONFIRM_SECONDS = 10 * 60;
+
+/** A provider's monthly cap is used up; the fallback chain moves on to the next provider. */
+export class BudgetExceededError extends Error {
+    constructor(provider: AIProvider, limit: number) {
+        super(`Monthly budget of $${limit.toFixed(2)} for ${provider} reached`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+/**
+ * Enforces the monthly spending caps from settings against the usage ledger, and asks before
+ * jobs whose estimated cost is large. Spend is the ledger's estimate for the current
+ * calendar month (local time), so it is only as accurate as the price table.
+ */
+export class BudgetGuard {
+    constructor(private plugin: NeuroVoxPlugin) {}
+
+    /** The provider's cap in USD, or null when it has none. */
+    public getLimit(provider: AIProvider): number | null {
+        return this.plugin.settings.monthlyBudgets.find(budget => budget.provider === provider)?.limit ?? null;
+    }
+
+    public async getMonthlySpend(provider: AIProvider, now: Date = new Date()): Promise<number> {
+        const prices = parsePriceTable(this.plugin.settings.usagePriceTable);
+        let spend = 0;
+        for (const record of await this.plugin.usageLedger.load()) {
+            const date = new Date(record.date);
+            if (record.provider !== provider ||
+                date.getFullYear() !== now.getFullYear() ||
+                date.getMonth() !== now.getMonth()) {
+                continue;
+            }
+            spend += estimateCost(record, prices) ?? 0;
+        }
+        return spend;
+    }
+
+    /**
+     * Throws BudgetExceededError when the provider's cap is used up. Called before each paid
+     * call, so a capped provider is skipped like a failing one and the chain falls through
+     * to a cheaper or local fallback, or fails when there is none.
+     */
+    public async assertWithinBudget(provider: AIProvider): Promise<void> {
+        const limit = this.getLimit(provider);
+        if (limit !== null && await this.getMonthlySpend(provider) >= limit) {
+            throw new BudgetExceededError(provider, limit);
+        }
+    }
+
+    /** Estimated USD to transcribe `audioSeconds` with a model, or null when it has no price. */
+    public estimateTranscriptionCost({ provider, model }: ModelChoice, audioSeconds: number): number | null {
+        return estimateCost({
+            date: '',
+            provider,
+            model: this.plugin.aiAdapters.get(provider)?.getBilledModel(model) ?? model,
+            audioSeconds,
+            promptTokens: provider === AIProvider.Gemini ? audioSeconds * GEMINI_AUDIO_TOKENS_PER_SECOND : undefined
+        }, parsePriceTable(this.plugin.settings.usagePriceTable));
+    }
+
+    /**
+     * Before transcribing a file: asks the user to confirm when the estimated cost reaches the
+     * confirmation threshold or would take the provider past its cap, and before long jobs
+     * with a paid model that has no price. Resolves true to go ahead, including when the
+     * length is unknown. Throws BudgetExceededError when every provider in the transcription
+     * chain is already at its cap.
+     */
+    public async confirmJob(audioSeconds: number | null, title: string): Promise<boolean> {
+        let choice: ModelChoice | undefined;
+        let lastError: BudgetExceededError | undefined;
+        for (const candidate of getTranscriptionChain(this.plugin.settings)) {
+            try {
+                await this.assertWithinBudget(candidate.provider);
+                choice = candidate;
+                break;
+            } catch (error) {
+                if (!(error instanceof BudgetExceededError)) throw error;
+                lastError = error;
+            }
+        }
+        if (!choice) {
+            if (lastError) throw lastError;
+            return true;
+        }
+
+        if (audioSeconds === null) {
+            return true;
+        }
+
+        const limit = this.getLimit(choice.provider);
+        const threshold = this.plugin.settings.confirmCostAbove;
+        const cost = this.estimateTranscriptionCost(choice, audioSeconds);
+        if (cost === null) {
+            // Local and self-hosted models are free and have no price; keyed providers bill.
+            const paid = this.plugin.aiAdapters.get(choice.provider)?.requiresApiKey() ?? false;
+            if (!paid || audioSeconds < UNPRICED_CONFIRM_SECONDS || (threshold <= 0 && limit === null)) {
+                return true;
+            }
+            const message = `${Math.round(audioSeconds / 60)} minutes of audio with ${describeChoice(choice)}. ` +
+                'No cost estimate is available: add the model to the price table in the usage settings.';
+            return ConfirmModal.ask(this.plugin.app, title, message, 'Transcribe');
+        }
+
+        const spend = limit === null ? 0 : await this.getMonthlySpend(choice.provider);
+        const overCap = limit !== null && spend + cost > limit;
+        if (!overCap && (threshold <= 0 || cost < threshold)) {
+            return true;
+        }
+
+        let message = `${Math.round(audioSeconds / 60)} minutes of audio with ${describeChoice(choice)} ` +
+            `will cost about $${cost.toFixed(2)}.`;
+        if (limit !== null) {
+            message += ` Spent this month: $${spend.toFixed(2)} of the $${limit.toFixed(2)} cap.`;
+        }
+        if (overCap) {
+            message += ' This job would go over the cap.';
+        }
+        return ConfirmModal.ask(this.plugin.app, title, message, 'Transcribe');
+    }
+}
@@ -0,0 +1,92 @@
+// src/utils/usage/UsageLedger.ts
+
+import { normalizePath } from 'obsidian';
+import { UsageRecord } from '../../types';
+
+/**
+ * The subset of Obsidian's DataAdapter that UsageLedger needs. Narrowed so tests
+ * can supply an in-memory implementation without stubbing the full adapter.
+ */
+export interface UsageLedgerAdapter {
+    exists(normalizedPath: string): Promise<boolean>;
+    read(normalizedPath: string): Promise<string>;
+    write(normalizedPath: string, data: string): Promise<void>;
+    append(normalizedPath: string, data: string): Promise<void>;
+}
+
+/**
+ * Persistent record of every billable provider call, kept as JSON lines in a file under the
+ * plugin directory rather than in data.json: it only ever grows, and appending keeps each
+ * write to one short line however long the history gets. A line cut short by a crash costs
+ * that one record; load() skips it.
+ */
+export class UsageLedger {
+    private path: string;
+    private queue: Promise<void> = Promise.resolve();
+    // Filled by the first load() and kept current by record(), so budget checks before
+    // every call don't re-read the file.
+    private records: UsageRecord[] | null = null;
+
+    constructor(
+        private adapter: UsageLedgerAdapter,
+        path: string
+    ) {
+        this.path = normalizePath(path);
+    }
+
+    /**
+     * Queues a record for writing. Writes run one at a time so concurrent calls (streaming
+     * segments, a fallback racing a timeout) cannot interleave lines. Never throws: losing a
+     * record must not fail the transcription it describes.
+     */
+    record(entry: UsageRecord): void {
+        const line = `${JSON.stringify(entry)}\n`;
+        this.enqueue(async () => {
+            this.records?.push(entry);
+            if (await this.adapter.exists(this.path)) {
+                await this.adapter.append(this.path, line);
+            } else {
+                await this.adapter.write(this.path, line);
+            }
+        });
+    }
+
+    /**
+     * Every recorded call, oldest first. The first call reads the file; it runs in the write
+     * queue, so records queued before it are in the file and records queued after it reach
+     * the cache. An unreadable ledger counts as empty rather than failing the caller.
+     */
+    async load(): Promise<readonly UsageRecord[]> {
+        if (!this.records) {
+            this.enqueue(async () => {
+                this.records ??= await this.readFile();
+            });
+            await this.queue;
+        }
+        return this.records ?? [];
+    }
+
+    private enqueue(task: () => Promise<void>): void {
+        this.queue = this.queue
+            .then(task)
+            .catch((error: unknown) => {
+                console.error('[NeuroVox] Usage ledger error:', error);
+            });
+    }
+
+    private async readFile(): Promise<UsageRecord[]> {
+        const records: UsageRecord[] = [];
+        if (!(await this.adapter.exists(this.path))) {
+            return records;
+        }
+        for (const line of (await this.adapter.read(this.path)).split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line) as UsageRecord);
+            } catch {
+                // A partial line from an interrupted write.
+            }
+        }
+        return records;
+    }
+}
@@ -0,0 +1,65 @@
+// src/utils/usage/UsageReport.test.ts
+//
+// Tests for turning ledger records into spend per provider per month: the price
+// table format, per-call estimates for audio and token pricing, and how calls
+// without a price are counted rather than guessed at.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIProvider } from '../../adapters/AIAdapter';
+import type { UsageRecord } from '../../types';
+import { estimateCost, parsePriceTable, summarizeUsage } from './UsageReport';
+
+const prices = parsePriceTable([
+    '# USD',
+    'openai whisper-1 0.006',
+    'openai gpt-4o-mini 0.15 0.60',
+    'groq not-a-price abc',
+    ''
+].join('\n'));
+
+function record(date: string, provider: AIProvider, model: string, usage: Partial<UsageRecord>): UsageRecord {
+    return { date, provider, model, ...usage };
+}
+
+describe('parsePriceTable', () => {
+    it('reads per-minute and per-token prices and skips comments and bad lines', () => {
+        assert.deepEqual(prices, [
+            { provider: 'openai', model: 'whisper-1', perAudioMinute: 0.006 },
+            { provider: 'openai', model: 'gpt-4o-mini', perMillionPromptTokens: 0.15, perMillionCompletionTokens: 0.6 }
+        ]);
+    });
+});
+
+describe('estimateCost', () => {
+    it('prices audio by the minute and tokens by the million', () => {
+        const audio = record('2026-10-01T10:00:00Z', AIProvider.OpenAI, 'whisper-1', { audioSeconds: 600 });
+        const tokens = record('2026-10-01T10:00:00Z', AIProvider.OpenAI, 'gpt-4o-mini', {
+            promptTokens: 2_000_000,
+            completionTokens: 500_000
+        });
+
+        assert.equal(estimateCost(audio, prices), 0.06);
+        assert.equal(estimateCost(tokens, prices), 0.6);
+        assert.equal(estimateCost(record('2026-10-01T10:00:00Z', AIProvider.Groq, 'whisper-large-v3', {}), prices), null);
+    });
+});
+
+describe('summarizeUsage', () => {
+    it('totals each provider per month, newest first, counting unpriced calls', () => {
+        const rows = summarizeUsage([
+            record('2026-09-15T12:00:00', AIProvider.OpenAI, 'whisper-1', { audioSeconds: 60 }),
+            record('2026-10-02T12:00:00', AIProvider.OpenAI, 'whisper-1', { audioSeconds: 120 }),
+            record('2026-10-03T12:00:00', AIProvider.OpenAI, 'whisper-1', { audioSeconds: 180 }),
+            record('2026-10-03T12:00:00', AIProvider.Groq, 'whisper-large-v3', { audioSeconds: 30 })
+        ], prices);
+
+        assert.deepEqual(rows.map(row => [row.month, row.provider, row.calls, row.unpricedCalls]), [
+            ['2026-10', 'groq', 1, 1],
+            ['2026-10', 'openai', 2, 0],
+            ['2026-09', 'openai', 1, 0]
+        ]);
+        assert.equal(rows[1].audioSeconds, 300);
+        assert.ok(Math.abs(rows[1].cost - 0.03) < 1e-9);
+    });
+});
@@ -0,0 +1,143 @@
+// src/utils/usage/UsageReport.ts
+
+import { UsageRecord } from '../../types';
+
+/** What one provider charges for one model, in USD. */
+export interface ModelPrice {
+    provider: string;
+    model: string;
+    perAudioMinute?: number;
+    perMillionPromptTokens?: number;
+    perMillionCompletionTokens?: number;
+}
+
+/** Calls to one provider in one calendar month, with their estimated cost. */
+export interface MonthlySpend {
+    /** `YYYY-MM`, in local time. */
+    month: string;
+    provider: string;
+    calls: number;
+    audioSeconds: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    /** Calls whose model has no price, so `cost` leaves them out. */
+    unpricedCalls: number;
+}
+
+/**
+ * List prices at the time of writing, as the editable default for the price table. Providers
+ * change them and negotiate others, so the estimate is only as good as this table. Azure rows
+ * name the model a deployment serves, not the deployment.
+ */
+export const DEFAULT_PRICE_TABLE = [
+    'openai whisper-1 0.006',
+    'openai gpt-4o-transcribe 0.006',
+    'openai gpt-4o-mini-transcribe 0.003',
+    'openai gpt-4o 2.50 10.00',
+    'openai gpt-4o-mini 0.15 0.60',
+    'openai gpt-5 1.25 10.00',
+    'openai gpt-5-mini 0.25 2.00',
+    'openai gpt-5-nano 0.05 0.40',
+    'groq whisper-large-v3 0.00185',
+    'groq whisper-large-v3-turbo 0.000667',
+    'deepgram nova-3 0.0043',
+    'deepgram nova-3-medical 0.0077',
+    'deepgram nova-2 0.0043',
+    'assemblyai universal-3-pro 0.0035',
+    'assemblyai universal-2 0.0025',
+    'assemblyai universal-streaming-english 0.0025',
+    'assemblyai universal-streaming-multilingual 0.0025',
+    'azure whisper 0.006',
+    'azure gpt-4o-transcribe 0.006',
+    'azure gpt-4o-mini-transcribe 0.003',
+    'azure gpt-4o 2.50 10.00',
+    'azure gpt-4o-mini 0.15 0.60',
+    'azure gpt-5 1.25 10.00',
+    'azure gpt-5-mini 0.25 2.00',
+    'azure gpt-5-nano 0.05 0.40',
+    'elevenlabs scribe_v1 0.0067',
+    'anthropic claude-sonnet-4-5 3.00 15.00',
+    'anthropic claude-haiku-4-5 1.00 5.00',
+    'anthropic claude-opus-4-1 15.00 75.00',
+    'gemini gemini-2.5-pro 1.25 10.00',
+    'gemini gemini-2.5-flash 0.30 2.50',
+    'gemini gemini-2.5-flash-lite 0.10 0.40'
+].join('\n');
+
+/**
+ * Reads the price table: one model per line as `provider model price`, where the price is
+ * either USD per audio minute (one number) or USD per million prompt and completion tokens
+ * (two numbers). Blank lines, `#` comments and lines that don't parse are skipped.
+ */
+export function parsePriceTable(text: string): ModelPrice[] {
+    const prices: ModelPrice[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const [provider, model, ...amounts] = line.split(/\s+/);
+        const numbers = amounts.map(Number);
+        if (!model || numbers.length < 1 || numbers.length > 2 || numbers.some(n => !Number.isFinite(n) || n < 0)) {
+            continue;
+        }
+        prices.push(numbers.length === 1
+            ? { provider, model, perAudioMinute: numbers[0] }
+            : { provider, model, perMillionPromptTokens: numbers[0], perMillionCompletionTokens: numbers[1] });
+    }
+    return prices;
+}
+
+/** Estimated cost of one call in USD, or null when its model has no price. */
+export function estimateCost(record: UsageRecord, prices: ModelPrice[]): number | null {
+    const price = prices.find(p =>
+        p.provider.toLowerCase() === record.provider.toLowerCase() &&
+        p.model.toLowerCase() === record.model.toLowerCase()
+    );
+    if (!price) return null;
+
+    return ((record.audioSeconds ?? 0) / 60) * (price.perAudioMinute ?? 0)
+        + ((record.promptTokens ?? 0) / 1_000_000) * (price.perMillionPromptTokens ?? 0)
+        + ((record.completionTokens ?? 0) / 1_000_000) * (price.perMillionCompletionTokens ?? 0);
+}
+
+/** Totals per provider per month, newest month first. */
+export function summarizeUsage(records: readonly UsageRecord[], prices: ModelPrice[]): MonthlySpend[] {
+    const rows = new Map<string, MonthlySpend>();
+    for (const record of records) {
+        const date = new Date(record.date);
+        if (Number.isNaN(date.getTime())) continue;
+        const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+        const key = `${month} ${record.provider}`;
+        let row = rows.get(key);
+        if (!row) {
+            row = {
+                month,
+                provider: record.provider,
+                calls: 0,
+                audioSeconds: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+                cost: 0,
+                unpricedCalls: 0
+            };
+            rows.set(key, row);
+        }
+
+        row.calls++;
+        row.audioSeconds += record.audioSeconds ?? 0;
+        row.promptTokens += record.promptTokens ?? 0;
+        row.completionTokens += record.completionTokens ?? 0;
+        const cost = estimateCost(record, prices);
+        if (cost === null) {
+            row.unpricedCalls++;
+        } else {
+            row.cost += cost;
+        }
+    }
+
+    return [...rows.values()].sort((a, b) =>
+        b.month.localeCompare(a.month) || a.provider.localeCompare(b.provider)
+    );
+}
@@ -0,0 +1,105 @@
+// test/fake-server.ts
+//
+// Stands in for provider APIs behind the stub's requestUrl: routes answer canned responses,
+// and every request is recorded for assertions. Shared by test files; lives outside
+// src/**/*.test.ts so importing it doesn't re-register another file's test suites.
+
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { setRequestHandler } from './obsidian-stub.mjs';
+
+export interface RecordedRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body: string | ArrayBuffer | undefined;
+}
+
+/** What a route answers. `json` is sent as the body; `text` is sent as is (e.g. an HTML error page). */
+export interface FakeResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    json?: unknown;
+    text?: string;
+}
+
+type Responder = FakeResponse | ((request: RecordedRequest) => FakeResponse);
+
+interface Route {
+    method: string;
+    url: RegExp;
+    respond: Responder;
+}
+
+export class FakeServer {
+    requests: RecordedRequest[] = [];
+    private routes: Route[] = [];
+
+    /** Answers requests matching the method and URL pattern. Later routes win. */
+    on(method: string, url: RegExp, respond: Responder): this {
+        this.routes.unshift({ method, url, respond });
+        return this;
+    }
+
+    /** Makes requestUrl answer from this server until uninstall(). */
+    install(): this {
+        setRequestHandler((request: RequestUrlParam) => Promise.resolve(this.handle(request)));
+        return this;
+    }
+
+    uninstall(): void {
+        setRequestHandler(null);
+    }
+
+    /** The requests whose URL matches, in order. */
+    requestsTo(url: RegExp): RecordedRequest[] {
+        return this.requests.filter(request => url.test(request.url));
+    }
+
+    private handle(request: RequestUrlParam): RequestUrlResponse {
+        const recorded: RecordedRequest = {
+            url: request.url,
+            method: request.method ?? 'GET',
+            headers: request.headers ?? {},
+            body: request.body
+        };
+        this.requests.push(recorded);
+
+        const route = this.routes.find(candidate => candidate.method === recorded.method && candidate.url.test(recorded.url));
+        const response = !route
+            ? { status: 404, json: { error: { message: `No route for ${recorded.method} ${recorded.url}` } } }
+            : typeof route.respond === 'function' ? route.respond(recorded) : route.respond;
+        return toResponse(response);
+    }
+}
+
+/** Like Obsidian's response: `json` parses the body on access and throws when it isn't JSON. */
+function toResponse(response: FakeResponse): RequestUrlResponse {
+    const text = response.text ?? (response.json === undefined ? '' : JSON.stringify(response.json));
+    return {
+        status: response.status ?? 200,
+        headers: response.headers ?? {},
+        text,
+        arrayBuffer: new TextEncoder().encode(text).buffer,
+        get json(): unknown {
+            return JSON.parse(text);
+        }
+    };
+}
+
+/** Splits a multipart/form-data body into its parts, keyed by field name. */
+export function parseMultipart(body: string | ArrayBuffer | undefined, contentType: string): Record<string, string> {
+    const boundary = /boundary=(.+)$/.exec(contentType)?.[1];
+    if (!boundary || body === undefined) {
+        throw new Error('Not a multipart request');
+    }
+    const text = typeof body === 'string' ? body : new TextDecoder().decode(body);
+    const fields: Record<string, string> = {};
+    for (const part of text.split(`--${boundary}`).slice(1, -1)) {
+        const [head, ...rest] = part.replace(/^\r\n/, '').split('\r\n\r\n');
+        const name = /name="([^"]+)"/.exec(head)?.[1];
+        if (name) {
+            fields[name] = rest.join('\r\n\r\n').replace(/\r\n$/, '');
+        }
+    }
+    return fields;
+}
@@ -28,6 +28,12 @@ export class MemoryAdapter implements SegmentStoreAdapter {
     async remove(path: string): Promise<void> {
         if (!this.files.delete(path)) throw new Error(`no such file: ${path}`);
     }
+    async rmdir(path: string, recursive: boolean): Promise<void> {
+        const inside = [...this.files.keys(), ...this.dirs].filter(p => p.startsWith(`${path}/`));
+        if (inside.length > 0 && !recursive) throw new Error(`not empty: ${path}`);
+        inside.forEach(p => { this.files.delete(p); this.dirs.delete(p); });
+        this.dirs.delete(path);
+    }
     async list(path: string): Promise<{ files: string[]; folders: string[] }> {
         return {
             files: [...this.files.keys()].filter(f => f.startsWith(`${path}/`)),
@@ -31,4 +31,17 @@ export class WorkspaceLeaf {}
 
 export function setIcon() {}
 export function normalizePath(path) { return path; }
-export async function requestUrl() { return { status: 200, json: {}, text: '' }; }
+export function arrayBufferToBase64(buffer) { return Buffer.from(buffer).toString('base64'); }
+
+// requestUrl answers every call with an empty 200 unless a test has installed a fake
+// server with setRequestHandler (see fake-server.ts).
+const emptyResponse = async () => ({ status: 200, headers: {}, json: {}, text: '' });
+let requestHandler = emptyResponse;
+
+export function setRequestHandler(handler) {
+    requestHandler = handler ?? emptyResponse;
+}
+
+export function requestUrl(request) {
+    return requestHandler(typeof request === 'string' ? { url: request } : request);
+}